@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Activity, 
   Droplet, 
@@ -12,203 +12,403 @@ import {
   Plus, 
   Trash2, 
   BrainCircuit, 
-  Zap, 
+  AlertTriangle,
   Coffee, 
   Mic, 
   Minus, 
-  Check, 
   Edit2,
   CalendarDays,
   X,
   Bell,
   BellOff,
   Camera,
-  Upload
+  AlarmClock,
+  Milk,
+  Apple,
+  Pill,
+  Thermometer,
+  Ruler,
+  FileText,
+  RefreshCw,
+  WifiOff
 } from 'lucide-react';
-import { LogEntry, EntryType, AIInsight } from './types';
+import { LogEntry, EntryType, AIInsight, BabyProfile, TimerSession, AppSettings, FeedingSchedule, CareReminder, SyncConfig, HealthThresholdOverrides } from './types';
 import QuickLogButton from './components/QuickLogButton';
-import { getSmartInsights } from './services/geminiService';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-
-const getTypeLabel = (type: EntryType): string => {
-  const labels: Record<EntryType, string> = {
-    breast_left: 'Left Breast',
-    breast_right: 'Right Breast',
-    bottle: 'Bottle',
-    diaper_wet: 'Wet Diaper',
-    diaper_dirty: 'Dirty Diaper',
-    diaper_both: 'Both Diaper',
-    sleep: 'Sleep'
-  };
-  return labels[type] || type;
-};
+import BabyProfileSheet from './components/BabyProfileSheet';
+import SessionTimerBar from './components/SessionTimerBar';
+import NaturalLogSheet from './components/NaturalLogSheet';
+import EntryEditSheet from './components/EntryEditSheet';
+import SettingsSheet from './components/SettingsSheet';
+import DataTransferSheet from './components/DataTransferSheet';
+import ScheduleSheet from './components/ScheduleSheet';
+import CareRemindersCard from './components/CareRemindersCard';
+import CareRemindersSheet from './components/CareRemindersSheet';
+import HealthFlagsCard from './components/HealthFlagsCard';
+import HealthChecksSheet from './components/HealthChecksSheet';
+import NextSideCard from './components/NextSideCard';
+import GrowthChart from './components/GrowthChart';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import DayStripTimeline from './components/DayStripTimeline';
+import DoctorReportSheet from './components/DoctorReportSheet';
+import SyncSheet from './components/SyncSheet';
+import InsightsCard from './components/InsightsCard';
+import LogChat from './components/LogChat';
+import { buildInsightsContext, createInsightsProvider, getSmartInsights, parseNaturalLanguage } from './services/ai';
+import { onAiQueueChange, runWhenOnline } from './services/aiQueue';
+import { applyUpdate, watchForUpdates } from './services/appUpdate';
+import { createBabyProfile, createId, getAgeLabel } from './services/babyProfiles';
+import { describeEntry, getEntryTitle, getTypeLabel } from './services/entryFormat';
+import { toMl, formatAmount, UNIT_STEPS } from './services/units';
+import { getIntervalMinutes, isFeed } from './services/scheduler';
+import { getNextFeed } from './services/feedPrediction';
+import { PersistedData, savePersistedData } from './services/storage';
+import { createSyncEngine, disableSync, enableSync, SyncStatus, trackLocalChanges } from './services/sync';
+import { planCareReminders, planFeedReminders, PlannedReminder, SNOOZE_MINUTES } from './services/reminders';
+import { CareReminderStatus, getCareReminderStatuses, getMatchingEntry } from './services/careReminders';
+import { getHealthFlags, getHealthThresholds, HealthFlag } from './services/healthFlags';
+import { createSameSideOverride, getSideBalances, suggestNextSide } from './services/breastSides';
+import { createReminderScheduler } from './services/reminderScheduler';
+import {
+  onReminderClick,
+  registerServiceWorker,
+  scheduleInWorker,
+  showPlainNotification,
+  showReminder,
+  supportsTriggeredNotifications
+} from './services/notifications';
+import {
+  startSession,
+  pauseSession,
+  resumeSession,
+  switchSide,
+  setSessionStart,
+  finishSession,
+  getSessionType,
+  isNursing,
+  isPaused,
+  formatDuration
+} from './services/sessionTimer';
+
+interface Props {
+  initialData: PersistedData;
+}
 
-const App: React.FC = () => {
+// Logged through the entry sheet; tummy time runs a timer like a nap
+const MORE_ENTRY_TYPES: { type: EntryType; icon: React.ReactNode }[] = [
+  { type: 'pumping', icon: <Milk size={20} /> },
+  { type: 'solids', icon: <Apple size={20} /> },
+  { type: 'medication', icon: <Pill size={20} /> },
+  { type: 'temperature', icon: <Thermometer size={20} /> },
+  { type: 'growth', icon: <Ruler size={20} /> },
+  { type: 'tummy_time', icon: <Baby size={20} /> }
+];
+
+const App: React.FC<Props> = ({ initialData }) => {
   // Persistence
-  const [entries, setEntries] = useState<LogEntry[]>(() => {
-    const saved = localStorage.getItem('nurture_logs');
-    return saved ? JSON.parse(saved) : [];
-  });
-  
-  const [babyPhoto, setBabyPhoto] = useState<string | null>(() => {
-    return localStorage.getItem('nurture_baby_photo');
-  });
+  const [appData, setStoredData] = useState<PersistedData>(initialData);
+  // Local edits are stamped and queued for sync here; changes pulled from the server use setStoredData
+  const setAppData = useCallback((update: PersistedData | ((prev: PersistedData) => PersistedData)) => {
+    setStoredData((prev: PersistedData) => trackLocalChanges(prev, typeof update === 'function' ? update(prev) : update));
+  }, []);
+  const { babies, activeBabyId, entriesByBaby, sessions, settings }: PersistedData = appData;
+  const activeBaby = babies.find(b => b.id === activeBabyId) || babies[0];
+  const entries = entriesByBaby[activeBaby.id] || [];
+  const babyPhoto = activeBaby.photo || null;
+  const manualNextFeedingTime = activeBaby.nextFeedingTime || null;
+  const nextFeed = getNextFeed(activeBaby, entries);
+  const nextFeedingTime = nextFeed.time;
+  const activeSession = sessions[activeBaby.id];
+  const activeSessionType = activeSession ? getSessionType(activeSession) : null;
 
   const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'insights'>('dashboard');
+  const [historyView, setHistoryView] = useState<'list' | 'timeline'>('list');
   const [insights, setInsights] = useState<AIInsight | null>(null);
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
-  const [activeTimer, setActiveTimer] = useState<{ type: EntryType, startTime: number } | null>(null);
+  const [insightsError, setInsightsError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(
     typeof Notification !== 'undefined' ? Notification.permission : 'default'
   );
-  
-  const [manualNextFeedingTime, setManualNextFeedingTime] = useState<number | null>(() => {
-    const saved = localStorage.getItem('nurture_next_feed');
-    return saved ? parseInt(saved, 10) : null;
-  });
 
   // Modals
   const [isBottlePickerOpen, setIsBottlePickerOpen] = useState(false);
   const [isTimePickerOpen, setIsTimePickerOpen] = useState(false);
-  const [isPhotoPickerOpen, setIsPhotoPickerOpen] = useState(false);
-  const [tempAmount, setTempAmount] = useState(4);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [isAlertVisible, setIsAlertVisible] = useState(false);
-  
-  const lastNotifiedRef = useRef<number | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProfileSheetOpen, setIsProfileSheetOpen] = useState(false);
+  const [isNaturalLogOpen, setIsNaturalLogOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [isCareRemindersOpen, setIsCareRemindersOpen] = useState(false);
+  const [isHealthChecksOpen, setIsHealthChecksOpen] = useState(false);
+  const [isDataOpen, setIsDataOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [tempAmount, setTempAmount] = useState(UNIT_STEPS[settings.unit].initial);
+  const amountSteps = UNIT_STEPS[settings.unit];
+  const [editingEntry, setEditingEntry] = useState<Partial<LogEntry> | null>(null);
+  const [lastDeleted, setLastDeleted] = useState<{ entry: LogEntry, babyId: string } | null>(null);
+  const [alertBabyId, setAlertBabyId] = useState<string | null>(null);
+  const isAlertVisible = alertBabyId !== null;
+  const alertBaby = babies.find(b => b.id === alertBabyId);
+  const [careAlerts, setCareAlerts] = useState<PlannedReminder[]>([]);
+  const careStatuses: CareReminderStatus[] = getCareReminderStatuses(activeBaby, entries);
+  const healthFlags: HealthFlag[] = getHealthFlags(activeBaby, entries, Date.now(), settings.measurement);
+  const { feverCelsius } = getHealthThresholds(activeBaby, Date.now());
+  const sideSuggestion = suggestNextSide(activeBaby, entries);
+  // A care alert stays up until its reminder is done, i.e. its due time has moved on
+  const visibleCareAlerts = careAlerts.filter(alert => {
+    const baby = babies.find(b => b.id === alert.babyId);
+    const status = baby && getCareReminderStatuses(baby, entriesByBaby[baby.id] || [])
+      .find(s => s.reminder.id === alert.careReminderId);
+    return status !== undefined && status.dueAt === alert.fireAt;
+  });
 
   // Manual Time Picker Temp State
-  const [pickerTime, setPickerTime] = useState(() => {
-    const d = new Date();
-    d.setHours(d.getHours() + 3);
-    return d.toTimeString().slice(0, 5);
-  });
+  const [pickerTime, setPickerTime] = useState('');
 
-  // Effect to sync logs
+  // Effect to sync profiles, logs, timers and settings
   useEffect(() => {
-    localStorage.setItem('nurture_logs', JSON.stringify(entries));
-  }, [entries]);
+    savePersistedData(appData).catch(error => console.error("Storage Error:", error));
+  }, [appData]);
+
+  // Sync with the partner's device
+  const appDataRef = useRef(appData);
+  appDataRef.current = appData;
+  const syncEngineRef = useRef<ReturnType<typeof createSyncEngine> | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const syncConfig = appData.sync.config;
 
-  // Effect to sync next feeding
   useEffect(() => {
-    if (manualNextFeedingTime) {
-      localStorage.setItem('nurture_next_feed', manualNextFeedingTime.toString());
-    } else {
-      localStorage.removeItem('nurture_next_feed');
-    }
-  }, [manualNextFeedingTime]);
+    if (!syncConfig) return;
+    const engine = createSyncEngine({
+      get: () => appDataRef.current,
+      update: (apply) => setStoredData(apply),
+      onStatus: (status, message) => { setSyncStatus(status); setSyncMessage(message ?? null); }
+    });
+    syncEngineRef.current = engine;
+    engine.requestSync();
+    return () => { engine.stop(); syncEngineRef.current = null; };
+  }, [syncConfig?.serverUrl, syncConfig?.householdId]);
 
-  // Effect to sync photo
+  // Push local changes shortly after they happen
   useEffect(() => {
-    if (babyPhoto) {
-      localStorage.setItem('nurture_baby_photo', babyPhoto);
-    }
-  }, [babyPhoto]);
+    if (appData.sync.pending.length === 0) return;
+    const timeout = setTimeout(() => syncEngineRef.current?.requestSync(), 1500);
+    return () => clearTimeout(timeout);
+  }, [appData.sync.pending]);
+
+  const updateBaby = useCallback((id: string, patch: Partial<BabyProfile>) => {
+    setAppData(prev => ({
+      ...prev,
+      babies: prev.babies.map(b => b.id === id ? { ...b, ...patch } : b)
+    }));
+  }, []);
+
+  const setEntries = useCallback((babyId: string, update: (prev: LogEntry[]) => LogEntry[]) => {
+    setAppData(prev => ({
+      ...prev,
+      entriesByBaby: { ...prev.entriesByBaby, [babyId]: update(prev.entriesByBaby[babyId] || []) }
+    }));
+  }, []);
+
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    setAppData(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }));
+  };
 
-  // Notification Monitor Logic
+  // The bottle picker's last amount only makes sense in the unit it was picked in
   useEffect(() => {
-    const checkSchedule = () => {
-      if (!manualNextFeedingTime) return;
-      
-      const now = Date.now();
-      // Trigger when scheduled time passes
-      if (now >= manualNextFeedingTime && lastNotifiedRef.current !== manualNextFeedingTime) {
-        triggerFeedingAlert();
-        lastNotifiedRef.current = manualNextFeedingTime;
-      }
-    };
+    setTempAmount(UNIT_STEPS[settings.unit].initial);
+  }, [settings.unit]);
+
+  const setManualNextFeedingTime = (time: number | null) => updateBaby(activeBaby.id, { nextFeedingTime: time });
+
+  const addBaby = (name: string, birthDate?: number) => {
+    const baby = createBabyProfile(name, birthDate);
+    setAppData(prev => ({
+      ...prev,
+      babies: [...prev.babies, baby],
+      activeBabyId: baby.id,
+      entriesByBaby: { ...prev.entriesByBaby, [baby.id]: [] }
+    }));
+    setInsights(null);
+    setInsightsError(null);
+  };
+
+  const selectBaby = (id: string) => {
+    setAppData(prev => ({ ...prev, activeBabyId: id }));
+    setInsights(null);
+    setInsightsError(null);
+    setEditingEntry(null);
+  };
+
+  const updateSession = useCallback((babyId: string, update: (prev: TimerSession) => TimerSession | null) => {
+    setAppData(prev => {
+      const { [babyId]: current, ...rest } = prev.sessions;
+      const next = current ? update(current) : null;
+      return { ...prev, sessions: next ? { ...rest, [babyId]: next } : rest };
+    });
+  }, []);
 
-    const interval = setInterval(checkSchedule, 5000); // Check every 5 seconds
+  // Ticks the running timers; sessions are timestamp based so nothing is lost between ticks
+  useEffect(() => {
+    const running = Object.values(sessions).some(session => !isPaused(session));
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [manualNextFeedingTime, notificationPermission]);
+  }, [sessions]);
+
+  // Reminders: the worker schedules triggered notifications where the browser supports them,
+  // so they fire with the app closed. Elsewhere, which is nearly everywhere, the page scheduler
+  // shows the notification itself and only while the app is open. It also raises the in-app banner.
+  const deliverReminderRef = useRef<(reminder: PlannedReminder) => void>(() => {});
+  deliverReminderRef.current = (reminder: PlannedReminder) => {
+    if (reminder.kind === 'feed-due') setAlertBabyId(reminder.babyId);
+    if (reminder.kind === 'care') setCareAlerts(prev => [...prev.filter(r => r.careReminderId !== reminder.careReminderId || r.babyId !== reminder.babyId), reminder]);
+    if (!supportsTriggeredNotifications()) {
+      showReminder(reminder, babies.find(b => b.id === reminder.babyId)?.photo);
+    }
+  };
+  const reminderSchedulerRef = useRef(createReminderScheduler(reminder => deliverReminderRef.current(reminder)));
+  const [isWorkerReady, setIsWorkerReady] = useState(false);
+  const [updateRegistration, setUpdateRegistration] = useState<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    let stopWatching = () => {};
+    registerServiceWorker().then(registration => {
+      setIsWorkerReady(true);
+      if (registration) stopWatching = watchForUpdates(registration, () => setUpdateRegistration(registration));
+    });
+    const scheduler = reminderSchedulerRef.current;
+    return () => { scheduler.stop(); stopWatching(); };
+  }, []);
+
+  useEffect(() => {
+    const plan = [
+      ...planFeedReminders(babies, entriesByBaby, settings.reminders),
+      ...planCareReminders(babies, entriesByBaby, settings.reminders)
+    ];
+    reminderSchedulerRef.current.sync(plan);
+    scheduleInWorker(plan, Object.fromEntries(babies.map(b => [b.id, b.photo])));
+  }, [babies, entriesByBaby, settings.reminders, notificationPermission, isWorkerReady]);
+
+  const snoozeFeed = useCallback((babyId: string, minutes: number) => {
+    updateBaby(babyId, { nextFeedingTime: Date.now() + minutes * 60 * 1000 });
+    setAlertBabyId(current => current === babyId ? null : current);
+  }, [updateBaby]);
+
+  // Taps on a notification or its snooze actions, relayed by the worker
+  useEffect(() => onReminderClick(({ action, babyId }) => {
+    if (action === 'open') {
+      selectBaby(babyId);
+    } else {
+      snoozeFeed(babyId, SNOOZE_MINUTES[action]);
+    }
+  }), [snoozeFeed]);
 
   const requestNotificationPermission = async () => {
     if (typeof Notification !== 'undefined') {
       const permission = await Notification.requestPermission();
       setNotificationPermission(permission);
       if (permission === 'granted') {
-        new Notification("Soleice's Tracker", {
-          body: "Alerts are now enabled for feedings.",
-          icon: babyPhoto || "https://images.unsplash.com/photo-1596815064285-45ed8a9c0463?auto=format&fit=crop&q=80&w=200&h=200"
-        });
+        showPlainNotification(`${activeBaby.name}'s Tracker`, "Alerts are now enabled for feedings.", babyPhoto);
       }
     }
   };
 
-  const triggerFeedingAlert = () => {
-    setIsAlertVisible(true);
-    if (notificationPermission === 'granted') {
-      try {
-        new Notification("Time to Feed Soleice!", {
-          body: "The scheduled feeding session is due now.",
-          icon: babyPhoto || "https://images.unsplash.com/photo-1596815064285-45ed8a9c0463?auto=format&fit=crop&q=80&w=200&h=200",
-          tag: 'feeding-reminder'
-        });
-      } catch (e) {
-        console.error("Native notification failed:", e);
-      }
+  const addEntries = useCallback((fieldsList: Partial<LogEntry>[], babyId: string = activeBaby.id) => {
+    const newEntries: LogEntry[] = fieldsList.map(fields => ({
+      timestamp: Date.now(),
+      ...fields,
+      id: createId(),
+      type: fields.type!
+    }));
+    setEntries(babyId, prev => [...newEntries, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    
+    // A new latest feed restarts the schedule, replacing any manual override
+    const latestNewFeed = newEntries.filter(isFeed).sort((a, b) => b.timestamp - a.timestamp)[0];
+    const latestKnownFeed = (entriesByBaby[babyId] || []).find(isFeed);
+    if (latestNewFeed && (!latestKnownFeed || latestNewFeed.timestamp >= latestKnownFeed.timestamp)) {
+      setAlertBabyId(current => current === babyId ? null : current);
+      updateBaby(babyId, { nextFeedingTime: null });
     }
-  };
+  }, [activeBaby.id, entriesByBaby, setEntries, updateBaby]);
+
+  const addEntry = (type: EntryType, fields: Partial<LogEntry> = {}, babyId: string = activeBaby.id) =>
+    addEntries([{ ...fields, type }], babyId);
 
-  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setBabyPhoto(reader.result as string);
-        setIsPhotoPickerOpen(false);
-      };
-      reader.readAsDataURL(file);
+  // Tummy time is timed like a nap; the rest are logged on the spot
+  const logCareReminder = ({ reminder }: CareReminderStatus) => {
+    const { type, ...fields } = getMatchingEntry(reminder);
+    if (type === 'tummy_time') {
+      if (activeSessionType !== 'tummy_time') toggleTimer('tummy_time');
+    } else {
+      addEntry(type, fields);
     }
   };
 
-  const addEntry = useCallback((type: EntryType, amount?: number, duration?: number) => {
-    const newEntry: LogEntry = {
-      id: Math.random().toString(36).substr(2, 9),
-      type,
-      timestamp: Date.now(),
-      amount,
-      duration
-    };
-    setEntries(prev => [newEntry, ...prev]);
-    
-    // Auto-schedule next feed if it's a feeding entry
-    if (type.includes('breast') || type === 'bottle') {
-      setManualNextFeedingTime(null);
-      setIsAlertVisible(false);
-      lastNotifiedRef.current = null;
-      
-      // Default to 3 hours later
-      const autoNext = Date.now() + (3 * 60 * 60 * 1000);
-      setManualNextFeedingTime(autoNext);
-    }
-  }, []);
+  const updateEntry = (id: string, fields: Partial<LogEntry>) => {
+    setEntries(activeBaby.id, prev => prev
+      .map(e => e.id === id ? { ...e, ...fields, id } : e)
+      .sort((a, b) => b.timestamp - a.timestamp));
+  };
 
-  const updateEntryAmount = (id: string, newAmount: number) => {
-    setEntries(prev => prev.map(e => e.id === id ? { ...e, amount: newAmount } : e));
-    setEditingId(null);
+  const saveEditedEntry = (fields: Partial<LogEntry>) => {
+    if (editingEntry?.id) {
+      updateEntry(editingEntry.id, fields);
+    } else {
+      addEntries([fields]);
+    }
+    setEditingEntry(null);
   };
 
   const deleteEntry = (id: string) => {
-    setEntries(prev => prev.filter(e => e.id !== id));
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    setEntries(activeBaby.id, prev => prev.filter(e => e.id !== id));
+    setLastDeleted({ entry, babyId: activeBaby.id });
+  };
+
+  const undoDelete = () => {
+    if (!lastDeleted) return;
+    const { entry, babyId } = lastDeleted;
+    setEntries(babyId, prev => [entry, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    setLastDeleted(null);
+  };
+
+  // The undo toast stays up for a few seconds after each deletion
+  useEffect(() => {
+    if (!lastDeleted) return;
+    const timeout = setTimeout(() => setLastDeleted(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [lastDeleted]);
+
+  const finishTimer = (session: TimerSession) => {
+    const { type, ...fields } = finishSession(session);
+    addEntry(type, fields, session.babyId);
+    updateSession(session.babyId, () => null);
   };
 
   const toggleTimer = (type: EntryType) => {
-    if (activeTimer && activeTimer.type === type) {
-      const duration = Math.round((Date.now() - activeTimer.startTime) / 60000);
-      addEntry(type, undefined, duration);
-      setActiveTimer(null);
+    const babyId = activeBaby.id;
+    if (!activeSession) {
+      setAppData(prev => ({ ...prev, sessions: { ...prev.sessions, [babyId]: startSession(babyId, type) } }));
+    } else if (activeSessionType === type) {
+      finishTimer(activeSession);
+    } else if (isNursing(type) && isNursing(activeSessionType!)) {
+      updateSession(babyId, s => switchSide(s));
     } else {
-      setActiveTimer({ type, startTime: Date.now() });
+      // A different kind of session: log the running one before starting the new one
+      finishTimer(activeSession);
+      setAppData(prev => ({ ...prev, sessions: { ...prev.sessions, [babyId]: startSession(babyId, type) } }));
     }
+    setNow(Date.now());
   };
 
   const adjustNextFeed = (minutes: number) => {
-    const base = manualNextFeedingTime || Date.now() + (3 * 60 * 60 * 1000);
+    const base = nextFeedingTime ?? Date.now() + getIntervalMinutes(activeBaby, entries, Date.now()) * 60 * 1000;
     const newTime = base + (minutes * 60 * 1000);
     setManualNextFeedingTime(newTime);
-    setIsAlertVisible(false);
+    setAlertBabyId(null);
   };
 
   const saveManualTime = () => {
@@ -223,42 +423,58 @@ const App: React.FC = () => {
     }
     setManualNextFeedingTime(date.getTime());
     setIsTimePickerOpen(false);
-    setIsAlertVisible(false);
+    setAlertBabyId(null);
   };
 
+  // Insight requests made offline wait in the AI queue and load once the connection is back
+  const aiProvider = useMemo(() => createInsightsProvider(settings.ai), [settings.ai]);
+  const [isAiOffNoticeVisible, setIsAiOffNoticeVisible] = useState(false);
+  const [queuedAiKeys, setQueuedAiKeys] = useState<string[]>([]);
+  useEffect(() => onAiQueueChange(setQueuedAiKeys), []);
+  const isInsightsQueued = queuedAiKeys.includes(`insights:${activeBaby.id}`);
+
   const fetchInsights = async () => {
     if (entries.length < 3) return;
+    // No logs leave the device until sharing is turned on in Settings
+    if (!aiProvider) {
+      setIsAiOffNoticeVisible(true);
+      return;
+    }
+    setIsAiOffNoticeVisible(false);
+    const babyId = activeBaby.id;
+    const context = buildInsightsContext(activeBaby, entries);
+    setInsightsError(null);
     setIsLoadingInsights(true);
-    const result = await getSmartInsights(entries, "Soleice");
-    setInsights(result);
-    setIsLoadingInsights(false);
+    try {
+      const result = await runWhenOnline(`insights:${babyId}`, () => getSmartInsights(aiProvider, context));
+      if (appDataRef.current.activeBabyId === babyId) setInsights(result);
+    } catch (error) {
+      console.error("AI Insights Error:", error);
+      if (appDataRef.current.activeBabyId === babyId) setInsightsError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoadingInsights(false);
+    }
   };
 
-  const getNextFeedingTime = () => {
-    if (manualNextFeedingTime) {
-      return new Date(manualNextFeedingTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    }
-    const lastFeed = entries.find(e => e.type.includes('breast') || e.type === 'bottle');
-    if (!lastFeed) return "--:--";
-    const nextTime = new Date(lastFeed.timestamp + (3 * 60 * 60 * 1000));
-    return nextTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const getNextFeedingLabel = () => {
+    if (!nextFeedingTime) return "--:--";
+    return new Date(nextFeedingTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const getChartData = () => {
-    const dailyData: Record<string, number> = {};
-    const now = new Date();
-    for (let i = 0; i < 7; i++) {
-      const d = new Date();
-      d.setDate(now.getDate() - i);
-      dailyData[d.toLocaleDateString('en-US', { weekday: 'short' })] = 0;
-    }
-    entries.forEach(e => {
-      const day = new Date(e.timestamp).toLocaleDateString('en-US', { weekday: 'short' });
-      if (dailyData[day] !== undefined && (e.type.includes('breast') || e.type === 'bottle')) {
-        dailyData[day] += 1;
-      }
-    });
-    return Object.entries(dailyData).reverse().map(([name, feeds]) => ({ name, feeds }));
+  const openTimePicker = () => {
+    const initial = nextFeedingTime ?? Date.now() + getIntervalMinutes(activeBaby, entries, Date.now()) * 60 * 1000;
+    setPickerTime(new Date(initial).toTimeString().slice(0, 5));
+    setIsTimePickerOpen(true);
+  };
+
+  const getTodayIntake = () => {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    return entries
+      .filter(e => e.type === 'bottle' && e.timestamp >= startOfDay.getTime())
+      .reduce((sum, e) => sum + (e.amount || 0), 0);
   };
 
   return (
@@ -282,34 +498,64 @@ const App: React.FC = () => {
              </div>
              <div>
                <h2 className="text-3xl font-black uppercase tracking-tight">Time to Feed!</h2>
-               <p className="text-sm font-bold opacity-80 mt-1">Soleice's feeding schedule reached its mark.</p>
+               <p className="text-sm font-bold opacity-80 mt-1">{alertBaby?.name}'s feeding schedule reached its mark.</p>
              </div>
              <button 
-               onClick={() => setIsAlertVisible(false)}
+               onClick={() => { if (alertBabyId) selectBaby(alertBabyId); setAlertBabyId(null); }}
                className="mt-6 px-12 py-4 bg-white text-rose-600 rounded-full font-black text-sm uppercase tracking-widest shadow-lg active:scale-95 transition-transform"
              >
                Start Log
              </button>
+             <div className="flex gap-3">
+               {(['snooze-15', 'snooze-30'] as const).map(action => (
+                 <button
+                   key={action}
+                   onClick={() => { if (alertBabyId) snoozeFeed(alertBabyId, SNOOZE_MINUTES[action]); }}
+                   className="px-6 py-3 bg-white/20 text-white rounded-full font-black text-xs uppercase tracking-widest active:scale-95 transition-transform"
+                 >
+                   +{SNOOZE_MINUTES[action]} min
+                 </button>
+               ))}
+             </div>
            </div>
         </div>
       )}
 
+      {/* Update Prompt */}
+      {updateRegistration && (
+        <div className="absolute inset-x-6 bottom-28 z-[90] bg-slate-900 text-white p-4 rounded-[2rem] shadow-2xl flex items-center gap-3 animate-in slide-in-from-bottom-12">
+          <RefreshCw size={20} className="text-indigo-300 shrink-0" />
+          <p className="flex-1 text-xs font-bold">A new version of NurtureTrack is ready.</p>
+          <button onClick={() => applyUpdate(updateRegistration)} className="px-4 py-2 bg-indigo-600 rounded-full font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform">
+            Reload
+          </button>
+          <button onClick={() => setUpdateRegistration(null)} className="text-slate-400 active:scale-75 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      )}
+
       {/* Header Section */}
       <header className="px-6 pt-12 pb-4 bg-white/40 backdrop-blur-2xl sticky top-0 z-10 border-b border-white/20">
         <div className="flex justify-between items-end">
           <div className="z-20">
             <div className="flex items-center gap-2">
-              <h1 className="text-2xl font-black tracking-tight text-slate-900">Soleice</h1>
+              <button onClick={() => setIsProfileSheetOpen(true)} className="text-2xl font-black tracking-tight text-slate-900 flex items-center gap-1 active:scale-95 transition-transform">
+                {activeBaby.name}
+                {babies.length > 1 && <ChevronRight size={18} className="text-slate-300 rotate-90" />}
+              </button>
               <div className={`px-2 py-0.5 rounded-full flex items-center gap-1 shadow-sm ${manualNextFeedingTime ? 'bg-amber-100' : 'bg-emerald-100'}`}>
                 <Clock size={10} className={manualNextFeedingTime ? 'text-amber-600' : 'text-emerald-600'} />
                 <span className={`text-[10px] font-black uppercase tracking-tighter ${manualNextFeedingTime ? 'text-amber-700' : 'text-emerald-700'}`}>
-                  Next: {getNextFeedingTime()}
+                  Next: {getNextFeedingLabel()}
                 </span>
               </div>
             </div>
             <div className="flex items-center gap-2 mt-1">
               <p className="text-xs text-slate-500 font-bold">
-                {entries.length > 0 ? `Last: ${getTypeLabel(entries[0].type).toLowerCase()}` : 'Welcome, Parent!'}
+                {entries.length > 0
+                  ? `Last: ${getTypeLabel(entries[0].type).toLowerCase()}${entries[0].loggedBy && syncConfig ? ` by ${entries[0].loggedBy}` : ''}`
+                  : (getAgeLabel(activeBaby) || 'Welcome, Parent!')}
               </p>
               {notificationPermission !== 'granted' ? (
                 <button onClick={requestNotificationPermission} className="text-rose-500 bg-rose-100/50 px-2 py-0.5 rounded-full flex items-center gap-1 active:scale-90 transition-transform">
@@ -326,15 +572,15 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex gap-2 z-20">
-            <button onClick={fetchInsights} className="p-3 bg-indigo-600 text-white rounded-2xl active:scale-90 transition-transform shadow-xl shadow-indigo-100">
+            <button onClick={fetchInsights} className={`p-3 bg-indigo-600 text-white rounded-2xl active:scale-90 transition-transform shadow-xl shadow-indigo-100 ${isLoadingInsights ? 'animate-pulse' : ''}`}>
               <BrainCircuit size={24} />
             </button>
             <button 
-              onClick={() => setIsPhotoPickerOpen(true)}
+              onClick={() => setIsProfileSheetOpen(true)}
               className="w-12 h-12 rounded-2xl bg-white flex items-center justify-center overflow-hidden border-2 border-white shadow-xl active:scale-90 transition-transform group relative"
             >
                {babyPhoto ? (
-                 <img src={babyPhoto} alt="Baby Profile" className="object-cover w-full h-full" />
+                 <img src={babyPhoto} alt={activeBaby.name} className="object-cover w-full h-full" />
                ) : (
                  <div className="bg-slate-50 w-full h-full flex items-center justify-center text-slate-300">
                     <Camera size={20} />
@@ -352,26 +598,57 @@ const App: React.FC = () => {
       <main className="flex-1 overflow-y-auto no-scrollbar px-6 py-4 pb-32 z-10 relative">
         {activeTab === 'dashboard' && (
           <div className="space-y-6">
-            {/* AI Insights Card */}
-            {insights && (
-              <div className="bg-indigo-600 p-6 rounded-[2.5rem] text-white shadow-2xl shadow-indigo-200/50 animate-in zoom-in-95 duration-500">
-                <div className="flex items-center gap-2 mb-3">
-                  <Zap size={18} className="text-yellow-300 fill-yellow-300" />
-                  <span className="text-xs font-black uppercase tracking-widest opacity-80">Parenting Insight</span>
+            {/* Care Reminder Alerts */}
+            {visibleCareAlerts.map(alert => (
+              <div key={alert.id} className="bg-amber-100 p-5 rounded-[2.5rem] border-2 border-amber-200/50 flex items-center gap-4 animate-in zoom-in-95">
+                <AlarmClock size={24} className="text-amber-600 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-black text-amber-900 text-sm">{alert.title}</p>
+                  <p className="text-xs font-bold text-amber-800 opacity-80">{alert.body}</p>
                 </div>
-                <p className="text-sm font-bold leading-relaxed">{insights.summary}</p>
-                <div className="mt-5 pt-5 border-t border-indigo-500/50 flex justify-between items-center text-xs">
-                  <span className="font-black">PREDICTED FEED: {insights.prediction}</span>
-                  <ChevronRight size={16} />
+                <button onClick={() => setCareAlerts(prev => prev.filter(r => r.id !== alert.id))} className="text-amber-400 hover:text-amber-700 active:scale-75 transition-all">
+                  <X size={20} />
+                </button>
+              </div>
+            ))}
+
+            {/* AI Insights Card */}
+            {isAiOffNoticeVisible && !aiProvider && (
+              <div className="bg-indigo-50 p-5 rounded-[2.5rem] border-2 border-indigo-100 flex items-center gap-4 animate-in zoom-in-95">
+                <BrainCircuit size={22} className="text-indigo-400 shrink-0" />
+                <p className="flex-1 text-xs font-bold text-indigo-900">AI insights are off, so {activeBaby.name}'s logs stay on this device.</p>
+                <button onClick={() => { setIsAiOffNoticeVisible(false); setIsSettingsOpen(true); }} className="px-4 py-2 bg-indigo-600 text-white rounded-full font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform">
+                  Settings
+                </button>
+              </div>
+            )}
+            {isInsightsQueued && !insights && (
+              <div className="bg-indigo-50 p-5 rounded-[2.5rem] border-2 border-indigo-100 flex items-center gap-4 animate-in zoom-in-95">
+                <WifiOff size={22} className="text-indigo-400 shrink-0" />
+                <p className="text-xs font-bold text-indigo-900">You're offline. {activeBaby.name}'s insights will load when the connection is back.</p>
+              </div>
+            )}
+            {insightsError && (
+              <div className="bg-rose-50 p-5 rounded-[2.5rem] border-2 border-rose-100 flex items-center gap-4 animate-in zoom-in-95">
+                <AlertTriangle size={22} className="text-rose-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-black text-rose-900 text-sm">Couldn't get insights</p>
+                  <p className="text-xs font-bold text-rose-800 opacity-80 break-words">{insightsError}</p>
                 </div>
+                <button onClick={fetchInsights} className="px-4 py-2 bg-rose-600 text-white rounded-full font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform">
+                  Retry
+                </button>
               </div>
             )}
+            {insights && (
+              <InsightsCard insight={insights} entries={entries} onSelectEntry={setEditingEntry} />
+            )}
 
             {/* Feeding Scheduler Card */}
             <section className="bg-white/80 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-xl shadow-slate-200/20 relative">
               <div className="flex justify-between items-center mb-6">
                 <button 
-                  onClick={() => setIsTimePickerOpen(true)}
+                  onClick={openTimePicker}
                   className="flex items-center gap-4 text-left active:scale-95 transition-transform"
                 >
                   <div className={`p-4 rounded-[1.5rem] shadow-sm ${manualNextFeedingTime ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 text-slate-400'}`}>
@@ -380,16 +657,27 @@ const App: React.FC = () => {
                   <div>
                     <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Upcoming Feed</h2>
                     <p className="text-3xl font-black text-slate-800 flex items-center gap-2">
-                      {getNextFeedingTime()}
+                      {getNextFeedingLabel()}
                       <Edit2 size={18} className="text-slate-200" />
                     </p>
+                    {nextFeed.prediction && nextFeed.source !== 'manual' && (
+                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mt-1">
+                        {nextFeed.source === 'prediction' ? 'Likely' : 'Pattern'} {formatClock(nextFeed.prediction.windowStart)}–{formatClock(nextFeed.prediction.windowEnd)}
+                        <span className={nextFeed.prediction.confidence === 'high' ? 'text-emerald-500' : nextFeed.prediction.confidence === 'medium' ? 'text-amber-500' : 'text-slate-300'}> · {nextFeed.prediction.confidence}</span>
+                      </p>
+                    )}
                   </div>
                 </button>
-                {manualNextFeedingTime && (
-                  <button onClick={() => { setManualNextFeedingTime(null); setIsAlertVisible(false); }} className="text-[10px] font-black text-slate-400 bg-white/50 px-4 py-2 rounded-full uppercase tracking-widest shadow-sm hover:text-slate-600 active:scale-90 transition-all">
-                    Reset
+                <div className="flex flex-col items-end gap-2">
+                  <button onClick={() => setIsScheduleOpen(true)} className="p-2 text-slate-300 bg-white/50 rounded-full shadow-sm hover:text-slate-600 active:scale-90 transition-all">
+                    <Settings size={16} strokeWidth={3} />
                   </button>
-                )}
+                  {manualNextFeedingTime && (
+                    <button onClick={() => { setManualNextFeedingTime(null); setAlertBabyId(null); }} className="text-[10px] font-black text-slate-400 bg-white/50 px-4 py-2 rounded-full uppercase tracking-widest shadow-sm hover:text-slate-600 active:scale-90 transition-all">
+                      Reset
+                    </button>
+                  )}
+                </div>
               </div>
               
               <div className="grid grid-cols-4 gap-3">
@@ -407,10 +695,38 @@ const App: React.FC = () => {
               </div>
             </section>
 
+            <HealthFlagsCard
+              babyName={activeBaby.name}
+              flags={healthFlags}
+              entries={entries}
+              onSelectEntry={setEditingEntry}
+              onConfigure={() => setIsHealthChecksOpen(true)}
+            />
+
+            <CareRemindersCard
+              statuses={careStatuses}
+              now={Date.now()}
+              onLog={logCareReminder}
+              onConfigure={() => setIsCareRemindersOpen(true)}
+            />
+
+            {sideSuggestion && !(activeSessionType && isNursing(activeSessionType)) && (
+              <NextSideCard
+                suggestion={sideSuggestion}
+                balances={getSideBalances(entries)}
+                onStart={() => toggleTimer(sideSuggestion.side === 'left' ? 'breast_left' : 'breast_right')}
+                onSameSide={() => updateBaby(activeBaby.id, { sideOverride: createSameSideOverride(entries) })}
+                onClearOverride={() => updateBaby(activeBaby.id, { sideOverride: null })}
+              />
+            )}
+
             {/* Logging Quick Actions */}
             <section className="space-y-4">
               <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2 px-2">
                 <Coffee size={14} strokeWidth={3} /> Quick Logger
+                {getTodayIntake() > 0 && (
+                  <span className="ml-auto text-slate-500">Today: {formatAmount(getTodayIntake(), settings.unit)}</span>
+                )}
               </h2>
               <div className="grid grid-cols-2 gap-4">
                 <QuickLogButton 
@@ -419,7 +735,7 @@ const App: React.FC = () => {
                   color="bg-rose-500" 
                   icon={<Droplet size={36} />} 
                   onClick={() => toggleTimer('breast_left')} 
-                  active={activeTimer?.type === 'breast_left'}
+                  active={activeSessionType === 'breast_left'}
                 />
                 <QuickLogButton 
                   type="breast_right" 
@@ -427,7 +743,7 @@ const App: React.FC = () => {
                   color="bg-rose-500" 
                   icon={<Droplet size={36} />} 
                   onClick={() => toggleTimer('breast_right')} 
-                  active={activeTimer?.type === 'breast_right'}
+                  active={activeSessionType === 'breast_right'}
                 />
                 <QuickLogButton 
                   type="bottle" 
@@ -442,11 +758,25 @@ const App: React.FC = () => {
                   color="bg-slate-800" 
                   icon={<Moon size={36} />} 
                   onClick={() => toggleTimer('sleep')} 
-                  active={activeTimer?.type === 'sleep'}
+                  active={activeSessionType === 'sleep'}
                 />
               </div>
             </section>
 
+            {/* Other Entry Types */}
+            <section className="grid grid-cols-3 gap-3">
+              {MORE_ENTRY_TYPES.map(({ type, icon }) => (
+                <button
+                  key={type}
+                  onClick={() => type === 'tummy_time' ? toggleTimer(type) : setEditingEntry({ type, timestamp: Date.now() })}
+                  className={`py-4 rounded-[2rem] flex flex-col items-center gap-1 active:scale-90 transition-transform shadow-lg border-2 border-white ${activeSessionType === type ? 'bg-indigo-600 text-white' : 'bg-white/80 text-slate-600'}`}
+                >
+                  {icon}
+                  <span className="text-[9px] font-black uppercase tracking-widest">{getTypeLabel(type)}</span>
+                </button>
+              ))}
+            </section>
+
             {/* Diaper Tracking Shortcuts */}
             <section className="flex gap-4">
               {['WET', 'DIRTY', 'BOTH'].map(type => (
@@ -468,8 +798,29 @@ const App: React.FC = () => {
         {/* List Views for Logs */}
         {activeTab === 'history' && (
           <div className="space-y-4">
-            <h2 className="text-2xl font-black text-slate-900 mb-2 px-2">Daily History</h2>
-            {entries.length === 0 ? (
+            <div className="flex justify-between items-center mb-2 px-2">
+              <h2 className="text-2xl font-black text-slate-900">Daily History</h2>
+              <div className="flex bg-white/70 p-1 rounded-full shadow-sm">
+                {(['list', 'timeline'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setHistoryView(view)}
+                    className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${historyView === view ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}
+                  >
+                    {view}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setEditingEntry({ type: 'bottle', timestamp: Date.now() - 30 * 60 * 1000 })}
+                className="flex items-center gap-1 text-[10px] font-black text-indigo-600 bg-white/70 px-4 py-2 rounded-full uppercase tracking-widest shadow-sm active:scale-90 transition-all"
+              >
+                <Plus size={12} strokeWidth={3} /> Past Event
+              </button>
+            </div>
+            {historyView === 'timeline' ? (
+              <DayStripTimeline entries={entries} onSelect={setEditingEntry} />
+            ) : entries.length === 0 ? (
               <div className="text-center py-24 bg-white/50 backdrop-blur-md rounded-[3rem] border-4 border-dashed border-slate-200">
                 <Baby size={64} className="mx-auto text-slate-200 mb-6" />
                 <p className="text-slate-400 font-bold tracking-tight">Your baby's day starts here!</p>
@@ -477,40 +828,37 @@ const App: React.FC = () => {
             ) : (
               entries.map(entry => (
                 <div key={entry.id} className="bg-white/90 backdrop-blur-sm p-6 rounded-[2rem] border border-white shadow-xl shadow-slate-200/10 flex items-center justify-between group animate-in slide-in-from-bottom-4">
-                  <div className="flex items-center gap-5">
-                     <div className="text-[10px] font-black text-slate-500 w-14 text-center bg-slate-50 p-3 rounded-2xl shadow-inner tabular-nums">
+                  <button onClick={() => setEditingEntry(entry)} className="flex items-center gap-5 text-left min-w-0 active:scale-95 transition-transform">
+                     <div className="text-[10px] font-black text-slate-500 w-14 shrink-0 text-center bg-slate-50 p-3 rounded-2xl shadow-inner tabular-nums">
                         {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                      </div>
-                     <div>
-                        <p className="font-black text-slate-900 text-base">{getTypeLabel(entry.type)}</p>
-                        <p className="text-[11px] text-slate-400 font-black uppercase tracking-wider">{new Date(entry.timestamp).toLocaleDateString()}</p>
+                     <div className="min-w-0">
+                        <p className="font-black text-slate-900 text-base">{getEntryTitle(entry)}</p>
+                        <p className="text-[11px] text-slate-400 font-black uppercase tracking-wider">
+                          {new Date(entry.timestamp).toLocaleDateString()}{entry.loggedBy && ` · ${entry.loggedBy}`}
+                        </p>
+                        {entry.note && <p className="text-xs text-slate-500 font-bold truncate mt-1">{entry.note}</p>}
                      </div>
-                  </div>
+                  </button>
                   <div className="flex items-center gap-4">
                     {entry.type === 'bottle' ? (
-                      <div className="flex items-center gap-1">
-                        {editingId === entry.id ? (
-                          <div className="flex items-center bg-slate-100 rounded-2xl p-2 shadow-inner">
-                            <input 
-                              type="number" 
-                              className="w-12 bg-transparent text-sm font-black text-center outline-none"
-                              value={tempAmount}
-                              onChange={(e) => setTempAmount(Number(e.target.value))}
-                              autoFocus
-                            />
-                            <button onClick={() => updateEntryAmount(entry.id, tempAmount)} className="text-emerald-500 hover:scale-125 transition-transform p-1">
-                              <Check size={20} strokeWidth={3} />
-                            </button>
-                          </div>
-                        ) : (
-                          <button onClick={() => { setEditingId(entry.id); setTempAmount(entry.amount || 0); }} className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100 shadow-sm active:scale-90 transition-all">
-                            <span className="text-sm font-black text-slate-800 tabular-nums">{entry.amount}oz</span>
-                            <Edit2 size={14} className="text-slate-300" />
-                          </button>
-                        )}
-                      </div>
+                      <button onClick={() => setEditingEntry(entry)} className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100 shadow-sm active:scale-90 transition-all">
+                        <span className="text-sm font-black text-slate-800 tabular-nums">{formatAmount(entry.amount, settings.unit)}</span>
+                        <Edit2 size={14} className="text-slate-300" />
+                      </button>
+                    ) : describeEntry(entry, settings) ? (
+                      <span className={`text-xs font-black px-3 py-2 rounded-xl shadow-sm text-right ${entry.temperature !== undefined && entry.temperature >= feverCelsius ? 'bg-rose-50 text-rose-600' : 'bg-slate-50 text-slate-600'}`}>
+                        {describeEntry(entry, settings)}
+                      </span>
                     ) : (
-                       entry.duration && <span className="text-xs font-black text-slate-600 bg-slate-50 px-3 py-2 rounded-xl shadow-sm">{entry.duration}m duration</span>
+                       entry.duration !== undefined && (
+                         <div className="text-right">
+                           <span className="text-xs font-black text-slate-600 bg-slate-50 px-3 py-2 rounded-xl shadow-sm">{formatDuration(entry.duration)} duration</span>
+                           {entry.sides && (
+                             <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mt-2">L {formatDuration(entry.sides.left)} · R {formatDuration(entry.sides.right)}</p>
+                           )}
+                         </div>
+                       )
                     )}
                     <button onClick={() => deleteEntry(entry.id)} className="text-slate-200 hover:text-rose-500 active:scale-75 transition-all p-2">
                       <Trash2 size={20} />
@@ -525,73 +873,136 @@ const App: React.FC = () => {
         {/* Insight & Trends View */}
         {activeTab === 'insights' && (
            <div className="space-y-6">
-            <h2 className="text-2xl font-black text-slate-900 mb-2 px-2">Growth Analysis</h2>
-            <div className="h-72 bg-white/90 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-2xl shadow-slate-200/30">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={getChartData()}>
-                  <defs>
-                    <linearGradient id="colorFeeds" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="#4f46e5" stopOpacity={0.3}/>
-                      <stop offset="95%" stopColor="#4f46e5" stopOpacity={0}/>
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 900, fill: '#94a3b8'}} />
-                  <YAxis hide />
-                  <Tooltip contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }} />
-                  <Area type="monotone" dataKey="feeds" stroke="#4f46e5" strokeWidth={5} fillOpacity={1} fill="url(#colorFeeds)" />
-                </AreaChart>
-              </ResponsiveContainer>
-              <p className="text-center text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] mt-6">Feeding Session Distribution</p>
-            </div>
-            <div className="bg-amber-100/40 backdrop-blur-md p-8 rounded-[3rem] border-2 border-amber-200/30">
-               <h4 className="font-black text-amber-900 text-base mb-3">AI Pattern Matching</h4>
-               <p className="text-sm text-amber-800 font-bold leading-relaxed opacity-90">
-                 We've noticed Soleice responds well to 3-hour clusters. Maintaining this rhythm helps stabilize sleep cycles!
-               </p>
+            <div className="flex items-center justify-between mb-2 px-2">
+              <h2 className="text-2xl font-black text-slate-900">Trends</h2>
+              <button onClick={() => setIsReportOpen(true)} className="flex items-center gap-2 text-[10px] font-black text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full uppercase tracking-widest active:scale-90 transition-all">
+                <FileText size={14} strokeWidth={3} /> Doctor Report
+              </button>
             </div>
+            <AnalyticsDashboard baby={activeBaby} entries={entries} unit={settings.unit} />
+            <GrowthChart
+              baby={activeBaby}
+              entries={entries}
+              measurement={settings.measurement}
+              onAddMeasurement={() => setEditingEntry({ type: 'growth', timestamp: Date.now() })}
+            />
+            <LogChat
+              key={activeBaby.id}
+              provider={aiProvider}
+              baby={activeBaby}
+              entries={entries}
+              unit={settings.unit}
+              suggestions={insights?.followUpQuestions ?? []}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+            />
           </div>
         )}
       </main>
 
-      {/* PHOTO CAPTURE MODAL */}
-      {isPhotoPickerOpen && (
-        <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
-           <div className="bg-white w-full max-w-xs rounded-[4rem] p-10 shadow-3xl animate-in zoom-in-95">
-              <div className="flex justify-between items-center mb-10">
-                <h3 className="text-slate-900 text-xl font-black tracking-tight">Baby Profile</h3>
-                <button onClick={() => setIsPhotoPickerOpen(false)} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
-              </div>
-              <div className="grid grid-cols-2 gap-6">
-                 <button 
-                   onClick={() => fileInputRef.current?.click()}
-                   className="flex flex-col items-center justify-center aspect-square bg-indigo-50 border-2 border-indigo-100 rounded-[2.5rem] text-indigo-600 active:scale-90 transition-all shadow-lg shadow-indigo-100/50"
-                 >
-                   <Upload size={36} strokeWidth={3} />
-                   <span className="text-[11px] font-black uppercase mt-3">Upload</span>
-                 </button>
-                 <button 
-                   onClick={() => {
-                     if (fileInputRef.current) {
-                        fileInputRef.current.setAttribute('capture', 'user');
-                        fileInputRef.current.click();
-                     }
-                   }}
-                   className="flex flex-col items-center justify-center aspect-square bg-rose-50 border-2 border-rose-100 rounded-[2.5rem] text-rose-600 active:scale-90 transition-all shadow-lg shadow-rose-100/50"
-                 >
-                   <Camera size={36} strokeWidth={3} />
-                   <span className="text-[11px] font-black uppercase mt-3">Camera</span>
-                 </button>
-              </div>
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                className="hidden" 
-                accept="image/*" 
-                onChange={handlePhotoUpload} 
-              />
-           </div>
-        </div>
+      {/* BABY PROFILE MODAL */}
+      {isProfileSheetOpen && (
+        <BabyProfileSheet
+          babies={babies}
+          activeBabyId={activeBaby.id}
+          onSelect={selectBaby}
+          onAdd={addBaby}
+          onUpdate={updateBaby}
+          onClose={() => setIsProfileSheetOpen(false)}
+        />
+      )}
+
+      {/* VOICE / FREE-TEXT LOG MODAL */}
+      {isNaturalLogOpen && (
+        <NaturalLogSheet
+          unit={settings.unit}
+          onParse={(text) => parseNaturalLanguage(aiProvider, text, Date.now(), settings.unit)}
+          onConfirm={(parsed) => { addEntries(parsed); setIsNaturalLogOpen(false); }}
+          onClose={() => setIsNaturalLogOpen(false)}
+        />
+      )}
+
+      {/* SETTINGS MODAL */}
+      {isSettingsOpen && (
+        <SettingsSheet
+          settings={settings}
+          onChange={updateSettings}
+          onOpenData={() => { setIsSettingsOpen(false); setIsDataOpen(true); }}
+          onOpenSync={() => { setIsSettingsOpen(false); setIsSyncOpen(true); }}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* BACKUP & EXPORT MODAL */}
+      {isDataOpen && (
+        <DataTransferSheet
+          data={appData}
+          onImport={(next: PersistedData) => { setAppData(next); setInsights(null); }}
+          onClose={() => setIsDataOpen(false)}
+        />
+      )}
+
+      {/* SYNC MODAL */}
+      {isSyncOpen && (
+        <SyncSheet
+          sync={appData.sync}
+          status={syncStatus}
+          statusMessage={syncMessage}
+          onConnect={(config: SyncConfig) => setAppData(prev => enableSync(prev, config))}
+          onDisconnect={() => setAppData(prev => disableSync(prev))}
+          onSyncNow={() => syncEngineRef.current?.requestSync()}
+          onClose={() => setIsSyncOpen(false)}
+        />
+      )}
+
+      {/* DOCTOR REPORT MODAL */}
+      {isReportOpen && (
+        <DoctorReportSheet
+          baby={activeBaby}
+          entries={entries}
+          settings={settings}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      {/* CARE REMINDERS MODAL */}
+      {isCareRemindersOpen && (
+        <CareRemindersSheet
+          baby={activeBaby}
+          onChange={(careReminders: CareReminder[]) => updateBaby(activeBaby.id, { careReminders })}
+          onClose={() => setIsCareRemindersOpen(false)}
+        />
+      )}
+
+      {/* HEALTH CHECKS MODAL */}
+      {isHealthChecksOpen && (
+        <HealthChecksSheet
+          baby={activeBaby}
+          measurement={settings.measurement}
+          onChange={(healthThresholds: HealthThresholdOverrides | undefined) => updateBaby(activeBaby.id, { healthThresholds })}
+          onClose={() => setIsHealthChecksOpen(false)}
+        />
+      )}
+
+      {/* FEEDING SCHEDULE MODAL */}
+      {isScheduleOpen && (
+        <ScheduleSheet
+          baby={activeBaby}
+          entries={entries}
+          onChange={(schedule: FeedingSchedule) => updateBaby(activeBaby.id, { schedule })}
+          onClose={() => setIsScheduleOpen(false)}
+        />
+      )}
+
+      {/* ENTRY EDIT MODAL */}
+      {editingEntry && (
+        <EntryEditSheet
+          entry={editingEntry}
+          unit={settings.unit}
+          measurement={settings.measurement}
+          onSave={saveEditedEntry}
+          onDelete={editingEntry.id ? () => { deleteEntry(editingEntry.id!); setEditingEntry(null); } : undefined}
+          onClose={() => setEditingEntry(null)}
+        />
       )}
 
       {/* ALARM TIME PICKER MODAL */}
@@ -629,14 +1040,14 @@ const App: React.FC = () => {
             <h3 className="text-center text-slate-400 font-black uppercase tracking-[0.2em] text-[10px] mb-12">Session Volume</h3>
             <div className="flex flex-col items-center gap-12">
               <div className="flex items-center gap-10">
-                <button onClick={() => setTempAmount(Math.max(1, tempAmount - 0.5))} className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"><Minus size={40} strokeWidth={3} /></button>
+                <button onClick={() => setTempAmount(Math.max(amountSteps.min, tempAmount - amountSteps.step))} className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"><Minus size={40} strokeWidth={3} /></button>
                 <div className="flex flex-col items-center">
                   <span className="text-7xl font-black text-slate-900 tabular-nums">{tempAmount}</span>
-                  <span className="text-sm font-black text-slate-400 uppercase tracking-widest">Ounces</span>
+                  <span className="text-sm font-black text-slate-400 uppercase tracking-widest">{amountSteps.label}</span>
                 </div>
-                <button onClick={() => setTempAmount(Math.min(12, tempAmount + 0.5))} className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"><Plus size={40} strokeWidth={3} /></button>
+                <button onClick={() => setTempAmount(Math.min(amountSteps.max, tempAmount + amountSteps.step))} className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"><Plus size={40} strokeWidth={3} /></button>
               </div>
-              <button onClick={() => { addEntry('bottle', tempAmount); setIsBottlePickerOpen(false); }} className="w-full py-7 bg-orange-500 text-white rounded-[2.5rem] font-black text-xl shadow-2xl shadow-orange-200 active:scale-95 transition-all uppercase tracking-widest">Confirm Log</button>
+              <button onClick={() => { addEntry('bottle', { amount: toMl(tempAmount, settings.unit), unit: settings.unit }); setIsBottlePickerOpen(false); }} className="w-full py-7 bg-orange-500 text-white rounded-[2.5rem] font-black text-xl shadow-2xl shadow-orange-200 active:scale-95 transition-all uppercase tracking-widest">Confirm Log</button>
             </div>
           </div>
         </div>
@@ -655,7 +1066,7 @@ const App: React.FC = () => {
         
         {/* Floating Voice/Action Center */}
         <div className="relative -mt-20">
-          <button className="w-22 h-22 bg-indigo-600 rounded-[2.5rem] shadow-[0_20px_50px_rgba(79,70,229,0.3)] flex items-center justify-center text-white active:scale-90 transition-all ring-8 ring-white/50 backdrop-blur-md">
+          <button onClick={() => setIsNaturalLogOpen(true)} className="w-22 h-22 bg-indigo-600 rounded-[2.5rem] shadow-[0_20px_50px_rgba(79,70,229,0.3)] flex items-center justify-center text-white active:scale-90 transition-all ring-8 ring-white/50 backdrop-blur-md">
             <Mic size={36} strokeWidth={3} />
           </button>
         </div>
@@ -664,25 +1075,38 @@ const App: React.FC = () => {
           <TrendingUp size={28} strokeWidth={3} />
           <span className="text-[10px] font-black uppercase tracking-[0.1em]">Data</span>
         </button>
-        <button className="flex flex-col items-center gap-1.5 text-slate-300 active:text-slate-900 transition-colors">
+        <button onClick={() => setIsSettingsOpen(true)} className="flex flex-col items-center gap-1.5 text-slate-300 active:text-slate-900 transition-colors">
           <Settings size={28} strokeWidth={3} />
           <span className="text-[10px] font-black uppercase tracking-[0.1em]">More</span>
         </button>
       </nav>
 
+      {/* Undo Deletion Toast */}
+      {lastDeleted && (
+        <div className="fixed top-12 left-6 right-6 max-w-sm mx-auto z-[110] bg-slate-900/90 backdrop-blur-2xl px-6 py-4 rounded-[2rem] flex items-center justify-between text-white shadow-2xl animate-in slide-in-from-top">
+          <span className="text-xs font-black">{getTypeLabel(lastDeleted.entry.type)} deleted</span>
+          <button onClick={undoDelete} className="text-xs font-black uppercase tracking-widest text-indigo-300 active:scale-90 transition-transform">Undo</button>
+        </div>
+      )}
+
       {/* Active Session Timer Component */}
-      {activeTimer && (
-        <div className="fixed bottom-32 left-6 right-6 bg-slate-900/90 backdrop-blur-2xl p-6 rounded-[2.5rem] flex items-center justify-between text-white shadow-[0_30px_60px_-15px_rgba(0,0,0,0.5)] animate-in slide-in-from-bottom-12 max-w-sm mx-auto z-30 ring-4 ring-indigo-500/50">
-          <div className="flex items-center gap-5">
-            <div className="w-14 h-14 bg-indigo-500 rounded-3xl flex items-center justify-center animate-pulse shadow-xl shadow-indigo-500/30">
-              <Clock size={28} />
-            </div>
-            <div>
-              <p className="text-[10px] font-black uppercase tracking-widest opacity-50">Active Session</p>
-              <p className="font-black text-base">{getTypeLabel(activeTimer.type)}</p>
-            </div>
-          </div>
-          <button onClick={() => toggleTimer(activeTimer.type)} className="px-10 py-4 bg-rose-500 text-white rounded-[1.5rem] font-black text-xs active:scale-90 transition-all shadow-xl shadow-rose-500/20 uppercase tracking-widest">Done</button>
+      {Object.keys(sessions).length > 0 && (
+        <div className="fixed bottom-32 left-6 right-6 max-w-sm mx-auto z-30 space-y-3">
+          {Object.values(sessions).map(session => (
+            <SessionTimerBar
+              key={session.babyId}
+              session={session}
+              label={getTypeLabel(getSessionType(session))}
+              babyName={babies.length > 1 ? babies.find(b => b.id === session.babyId)?.name : undefined}
+              now={now}
+              onPause={() => updateSession(session.babyId, s => pauseSession(s))}
+              onResume={() => { updateSession(session.babyId, s => resumeSession(s)); setNow(Date.now()); }}
+              onSwitchSide={() => { updateSession(session.babyId, s => switchSide(s)); setNow(Date.now()); }}
+              onSetStart={(start) => { updateSession(session.babyId, s => setSessionStart(s, start)); setNow(Date.now()); }}
+              onDiscard={() => updateSession(session.babyId, () => null)}
+              onFinish={() => finishTimer(session)}
+            />
+          ))}
         </div>
       )}
     </div>
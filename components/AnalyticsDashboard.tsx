@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { BabyProfile, LogEntry, VolumeUnit } from '../types';
+import { getAnalytics, getCustomRange, getPresetRange, RangePreset, TimeRange, toDateKey } from '../services/analytics';
+import { getSchedule } from '../services/scheduler';
+import { formatDuration } from '../services/sessionTimer';
+import { formatAmount, fromMl } from '../services/units';
+
+interface Props {
+  baby: BabyProfile;
+  entries: LogEntry[];
+  unit: VolumeUnit;
+}
+
+const PRESETS: RangePreset[] = ['24h', '7d', '30d', 'custom'];
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const formatDay = (dateKey: string) =>
+  new Date(fromDateInput(dateKey)).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const tooltipStyle = { borderRadius: '24px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' };
+const tickStyle = { fontSize: 10, fontWeight: 900, fill: '#94a3b8' };
+
+const AnalyticsDashboard: React.FC<Props> = ({ baby, entries, unit }) => {
+  const [preset, setPreset] = useState<RangePreset>('7d');
+  const [customFrom, setCustomFrom] = useState(toDateKey(Date.now() - 13 * 24 * 60 * 60 * 1000));
+  const [customTo, setCustomTo] = useState(toDateKey(Date.now()));
+
+  const range: TimeRange = preset === 'custom'
+    ? getCustomRange(fromDateInput(customFrom), fromDateInput(customTo))
+    : getPresetRange(preset);
+  const analytics = getAnalytics(entries, range, getSchedule(baby));
+  const { feeds, breast, sleep, averageDiapersPerDay } = analytics;
+
+  const days = analytics.days.map(day => ({
+    name: formatDay(day.date),
+    feeds: day.feeds,
+    intake: fromMl(day.intakeMl, unit),
+    pumped: fromMl(day.pumpedMl, unit),
+    daySleep: Math.round(day.daySleepMinutes / 6) / 10,
+    nightSleep: Math.round(day.nightSleepMinutes / 6) / 10,
+    wet: day.wetDiapers,
+    dirty: day.dirtyDiapers
+  }));
+
+  const stats = [
+    { label: 'Bottle Intake', value: formatAmount(feeds.intakeMl, unit) },
+    { label: 'Avg Interval', value: feeds.averageIntervalMinutes !== null ? formatDuration(feeds.averageIntervalMinutes) : '--' },
+    { label: 'Left / Right', value: breast.leftShare !== null ? `${Math.round(breast.leftShare * 100)} / ${100 - Math.round(breast.leftShare * 100)}` : '--' },
+    { label: 'Total Sleep', value: sleep.totalMinutes > 0 ? formatDuration(sleep.totalMinutes) : '--' },
+    { label: 'Longest Sleep', value: sleep.longestMinutes > 0 ? formatDuration(sleep.longestMinutes) : '--' },
+    { label: 'Day / Night', value: sleep.totalMinutes > 0 ? `${formatDuration(sleep.dayMinutes)} / ${formatDuration(sleep.nightMinutes)}` : '--' },
+    { label: 'Wet / Day', value: averageDiapersPerDay.wet.toFixed(1) },
+    { label: 'Dirty / Day', value: averageDiapersPerDay.dirty.toFixed(1) }
+  ];
+
+  const chartCard = (title: string, chart: React.ReactNode) => (
+    <div className="h-64 bg-white/90 backdrop-blur-md p-6 pb-10 rounded-[3rem] border border-white shadow-2xl shadow-slate-200/30">
+      <p className="text-center text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">{title}</p>
+      <ResponsiveContainer width="100%" height="100%">{chart}</ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="grid grid-cols-4 gap-2 bg-white/70 p-2 rounded-[1.5rem] shadow-inner">
+          {PRESETS.map(p => (
+            <button
+              key={p}
+              onClick={() => setPreset(p)}
+              className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all ${preset === p ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+        {preset === 'custom' && (
+          <div className="flex items-center gap-3">
+            <input type="date" value={customFrom} onChange={(e) => e.target.value && setCustomFrom(e.target.value)} className="flex-1 min-w-0 bg-white/80 p-3 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner" />
+            <span className="text-xs font-black text-slate-400">to</span>
+            <input type="date" value={customTo} onChange={(e) => e.target.value && setCustomTo(e.target.value)} className="flex-1 min-w-0 bg-white/80 p-3 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner" />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white/90 backdrop-blur-md p-4 rounded-[2rem] border border-white shadow-xl shadow-slate-200/20">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</p>
+            <p className="text-lg font-black text-slate-900 tabular-nums">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {chartCard('Feeds per Day', (
+        <BarChart data={days}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={tickStyle} />
+          <YAxis hide allowDecimals={false} />
+          <Tooltip contentStyle={tooltipStyle} />
+          <Bar dataKey="feeds" name="Feeds" fill="#4f46e5" radius={[8, 8, 0, 0]} />
+        </BarChart>
+      ))}
+
+      {chartCard(`Intake per Day (${unit})`, (
+        <BarChart data={days}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={tickStyle} />
+          <YAxis hide />
+          <Tooltip contentStyle={tooltipStyle} />
+          <Legend wrapperStyle={{ fontSize: 10, fontWeight: 900 }} />
+          <Bar dataKey="intake" name="Bottle" fill="#f97316" radius={[8, 8, 0, 0]} />
+          <Bar dataKey="pumped" name="Pumped" fill="#0ea5e9" radius={[8, 8, 0, 0]} />
+        </BarChart>
+      ))}
+
+      {chartCard('Sleep per Day (hours)', (
+        <BarChart data={days}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={tickStyle} />
+          <YAxis hide />
+          <Tooltip contentStyle={tooltipStyle} />
+          <Legend wrapperStyle={{ fontSize: 10, fontWeight: 900 }} />
+          <Bar dataKey="nightSleep" name="Night" stackId="sleep" fill="#1e293b" />
+          <Bar dataKey="daySleep" name="Day" stackId="sleep" fill="#a5b4fc" radius={[8, 8, 0, 0]} />
+        </BarChart>
+      ))}
+
+      {chartCard('Diapers per Day', (
+        <BarChart data={days}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={tickStyle} />
+          <YAxis hide allowDecimals={false} />
+          <Tooltip contentStyle={tooltipStyle} />
+          <Legend wrapperStyle={{ fontSize: 10, fontWeight: 900 }} />
+          <Bar dataKey="wet" name="Wet" fill="#38bdf8" radius={[8, 8, 0, 0]} />
+          <Bar dataKey="dirty" name="Dirty" fill="#d97706" radius={[8, 8, 0, 0]} />
+        </BarChart>
+      ))}
+
+      <p className="text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        {feeds.feedCount} feeds from {new Date(range.start).toLocaleDateString()} to {new Date(range.end - 1).toLocaleDateString()}
+      </p>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
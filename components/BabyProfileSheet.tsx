@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Check, Plus, Upload, X } from 'lucide-react';
+import { BabyProfile, BabySex } from '../types';
+import { getAgeLabel } from '../services/babyProfiles';
+
+interface Props {
+  babies: BabyProfile[];
+  activeBabyId: string;
+  onSelect: (id: string) => void;
+  onAdd: (name: string, birthDate?: number) => void;
+  onUpdate: (id: string, patch: Partial<BabyProfile>) => void;
+  onClose: () => void;
+}
+
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const BabyProfileSheet: React.FC<Props> = ({ babies, activeBabyId, onSelect, onAdd, onUpdate, onClose }) => {
+  const active = babies.find(b => b.id === activeBabyId) || babies[0];
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newBirthDate, setNewBirthDate] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => onUpdate(active.id, { photo: reader.result as string });
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const submitNewBaby = () => {
+    if (!newName.trim()) return;
+    onAdd(newName, fromDateInput(newBirthDate));
+    setNewName('');
+    setNewBirthDate('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-xs max-h-[90vh] overflow-y-auto no-scrollbar rounded-[4rem] p-10 shadow-3xl animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">Baby Profile</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        {/* Profile Switcher */}
+        <div className="flex gap-3 overflow-x-auto no-scrollbar mb-8">
+          {babies.map(baby => (
+            <button
+              key={baby.id}
+              onClick={() => onSelect(baby.id)}
+              className={`flex flex-col items-center gap-2 shrink-0 active:scale-90 transition-transform ${baby.id === active.id ? 'text-indigo-600' : 'text-slate-400'}`}
+            >
+              <div className={`w-14 h-14 rounded-2xl overflow-hidden flex items-center justify-center bg-slate-50 ${baby.id === active.id ? 'ring-4 ring-indigo-200' : ''}`}>
+                {baby.photo ? (
+                  <img src={baby.photo} alt={baby.name} className="object-cover w-full h-full" />
+                ) : (
+                  <span className="text-xl font-black">{baby.name.charAt(0).toUpperCase()}</span>
+                )}
+              </div>
+              <span className="text-[10px] font-black uppercase tracking-wider max-w-14 truncate">{baby.name}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex flex-col items-center gap-2 shrink-0 text-slate-300 active:scale-90 transition-transform"
+          >
+            <div className="w-14 h-14 rounded-2xl border-2 border-dashed border-slate-200 flex items-center justify-center">
+              <Plus size={24} strokeWidth={3} />
+            </div>
+            <span className="text-[10px] font-black uppercase tracking-wider">Add</span>
+          </button>
+        </div>
+
+        {isAdding ? (
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner"
+              autoFocus
+            />
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Birth Date</label>
+            <input
+              type="date"
+              value={newBirthDate}
+              onChange={(e) => setNewBirthDate(e.target.value)}
+              className="w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner"
+            />
+            <div className="flex gap-3">
+              <button onClick={() => setIsAdding(false)} className="flex-1 py-4 bg-slate-100 text-slate-500 rounded-[2rem] font-black text-xs uppercase tracking-widest active:scale-95 transition-all">Cancel</button>
+              <button onClick={submitNewBaby} className="flex-1 py-4 bg-indigo-600 text-white rounded-[2rem] font-black text-xs uppercase tracking-widest shadow-xl shadow-indigo-200 active:scale-95 transition-all flex items-center justify-center gap-2">
+                <Check size={16} strokeWidth={3} /> Add
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <input
+              type="text"
+              value={active.name}
+              onChange={(e) => onUpdate(active.id, { name: e.target.value })}
+              onBlur={(e) => !e.target.value.trim() && onUpdate(active.id, { name: 'Baby' })}
+              className="w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner"
+            />
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">
+              Birth Date {getAgeLabel(active) && <span className="text-indigo-500">· {getAgeLabel(active)}</span>}
+            </label>
+            <input
+              type="date"
+              value={toDateInput(active.birthDate)}
+              onChange={(e) => onUpdate(active.id, { birthDate: fromDateInput(e.target.value) })}
+              className="w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner"
+            />
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Sex · for growth charts</label>
+            <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+              {(['female', 'male'] as BabySex[]).map(sex => (
+                <button
+                  key={sex}
+                  onClick={() => onUpdate(active.id, { sex: active.sex === sex ? undefined : sex })}
+                  className={`py-3 rounded-2xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all ${active.sex === sex ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+                >
+                  {sex === 'female' ? 'Girl' : 'Boy'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-6 pt-4">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex flex-col items-center justify-center aspect-square bg-indigo-50 border-2 border-indigo-100 rounded-[2.5rem] text-indigo-600 active:scale-90 transition-all shadow-lg shadow-indigo-100/50"
+              >
+                <Upload size={36} strokeWidth={3} />
+                <span className="text-[11px] font-black uppercase mt-3">Upload</span>
+              </button>
+              <button
+                onClick={() => {
+                  if (fileInputRef.current) {
+                    fileInputRef.current.setAttribute('capture', 'user');
+                    fileInputRef.current.click();
+                  }
+                }}
+                className="flex flex-col items-center justify-center aspect-square bg-rose-50 border-2 border-rose-100 rounded-[2.5rem] text-rose-600 active:scale-90 transition-all shadow-lg shadow-rose-100/50"
+              >
+                <Camera size={36} strokeWidth={3} />
+                <span className="text-[11px] font-black uppercase mt-3">Camera</span>
+              </button>
+            </div>
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept="image/*"
+              onChange={handlePhotoUpload}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BabyProfileSheet;
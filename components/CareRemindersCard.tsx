@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlarmClock, Check, Settings } from 'lucide-react';
+import { CareReminderStatus, getCareReminderLabel } from '../services/careReminders';
+import { formatDuration } from '../services/sessionTimer';
+
+interface Props {
+  statuses: CareReminderStatus[];
+  now: number;
+  onLog: (status: CareReminderStatus) => void;
+  onConfigure: () => void;
+}
+
+const describe = (status: CareReminderStatus, now: number) => {
+  if (status.limitReached) return `Max ${status.reminder.maxPerDay}/day given · next ${new Date(status.dueAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  if (status.dueAt === null) return status.reminder.kind === 'medication' ? 'Starts from the first logged dose' : 'Waiting for the first entry';
+  const minutes = (status.dueAt - now) / 60000;
+  return minutes > 0 ? `Due in ${formatDuration(minutes)}` : `Overdue ${formatDuration(-minutes)}`;
+};
+
+const CareRemindersCard: React.FC<Props> = ({ statuses, now, onLog, onConfigure }) => (
+  <section className="bg-white/80 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-xl shadow-slate-200/20 space-y-3">
+    <div className="flex justify-between items-center px-2">
+      <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <AlarmClock size={14} strokeWidth={3} /> Reminders
+      </h2>
+      <button onClick={onConfigure} className="p-2 text-slate-300 bg-white/50 rounded-full shadow-sm hover:text-slate-600 active:scale-90 transition-all">
+        <Settings size={16} strokeWidth={3} />
+      </button>
+    </div>
+    {statuses.length === 0 ? (
+      <p className="text-xs font-bold text-slate-400 px-2">Set up diaper, vitamin D, medicine or tummy time reminders.</p>
+    ) : (
+      statuses.map(status => {
+        const isDue = status.dueAt !== null && status.dueAt <= now && !status.limitReached;
+        return (
+          <div key={status.reminder.id} className={`flex items-center justify-between p-4 rounded-2xl ${isDue ? 'bg-amber-100' : 'bg-slate-50'}`}>
+            <div className="min-w-0">
+              <p className="font-black text-slate-900 text-sm truncate">{getCareReminderLabel(status.reminder)}</p>
+              <p className={`text-[10px] font-black uppercase tracking-wider ${isDue ? 'text-amber-700' : 'text-slate-400'}`}>{describe(status, now)}</p>
+            </div>
+            <button
+              onClick={() => onLog(status)}
+              disabled={status.limitReached}
+              className="flex items-center gap-1 px-4 py-2 bg-white text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest shadow-sm active:scale-90 transition-all disabled:opacity-40"
+            >
+              <Check size={12} strokeWidth={3} /> Log
+            </button>
+          </div>
+        );
+      })
+    )}
+  </section>
+);
+
+export default CareRemindersCard;
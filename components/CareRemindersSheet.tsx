@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Minus, Plus, Trash2, X } from 'lucide-react';
+import { BabyProfile, CareReminder } from '../types';
+import { createMedicationReminder, getCareReminderLabel, getCareReminders } from '../services/careReminders';
+
+interface Props {
+  baby: BabyProfile;
+  onChange: (reminders: CareReminder[]) => void;
+  onClose: () => void;
+}
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+
+const CareRemindersSheet: React.FC<Props> = ({ baby, onChange, onClose }) => {
+  const reminders = getCareReminders(baby);
+  const [medicine, setMedicine] = useState('');
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+
+  const update = (id: string, patch: Partial<CareReminder>) =>
+    onChange(reminders.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addMedication = () => {
+    if (!medicine.trim()) return;
+    onChange([...reminders, createMedicationReminder(medicine)]);
+    setMedicine('');
+  };
+
+  const stepper = (reminder: CareReminder, key: 'everyHours' | 'maxPerDay', label: string, min: number, max: number) => (
+    <div className="flex items-center justify-between">
+      <span className="text-[11px] font-black uppercase tracking-wider text-slate-500">{label}</span>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => update(reminder.id, { [key]: Math.max(min, (reminder[key] ?? min) - 1) })}
+          className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"
+        >
+          <Minus size={14} strokeWidth={3} />
+        </button>
+        <span className="w-10 text-center font-black text-slate-900 tabular-nums">{reminder[key] ?? min}</span>
+        <button
+          onClick={() => update(reminder.id, { [key]: Math.min(max, (reminder[key] ?? min) + 1) })}
+          className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"
+        >
+          <Plus size={14} strokeWidth={3} />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">{baby.name}'s Reminders</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div className="space-y-3">
+          {reminders.map(reminder => (
+            <div key={reminder.id} className="bg-slate-50 p-4 rounded-[1.5rem] shadow-inner space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-black text-slate-900 text-sm">{getCareReminderLabel(reminder)}</span>
+                <div className="flex items-center gap-2">
+                  {reminder.kind === 'medication' && (
+                    <button onClick={() => onChange(reminders.filter(r => r.id !== reminder.id))} className="text-slate-300 hover:text-rose-500 active:scale-75 transition-all p-1">
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => update(reminder.id, { enabled: !reminder.enabled })}
+                    className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-all ${reminder.enabled ? 'bg-indigo-600 text-white' : 'bg-white text-slate-400'}`}
+                  >
+                    {reminder.enabled ? 'On' : 'Off'}
+                  </button>
+                </div>
+              </div>
+              {reminder.enabled && reminder.kind === 'diaper-gap' && stepper(reminder, 'everyHours', 'Alert after (hours)', 2, 12)}
+              {reminder.enabled && reminder.kind === 'tummy-time' && stepper(reminder, 'everyHours', 'Every (hours)', 1, 8)}
+              {reminder.enabled && reminder.kind === 'medication' && (
+                <>
+                  {stepper(reminder, 'everyHours', 'Every (hours)', 1, 24)}
+                  {stepper(reminder, 'maxPerDay', 'Max per day', 1, 12)}
+                </>
+              )}
+              {reminder.enabled && reminder.kind === 'vitamin-d' && (
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-black uppercase tracking-wider text-slate-500">Daily at</span>
+                  <select
+                    value={reminder.atHour ?? 9}
+                    onChange={(e) => update(reminder.id, { atHour: Number(e.target.value) })}
+                    className="bg-white px-4 py-2 rounded-2xl font-black text-slate-900 outline-none shadow-sm"
+                  >
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <option key={hour} value={hour}>{formatHour(hour)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <label className={labelClass}>Add a Medicine</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={medicine}
+              onChange={(e) => setMedicine(e.target.value)}
+              placeholder="e.g. Paracetamol"
+              className="flex-1 min-w-0 bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner"
+            />
+            <button
+              onClick={addMedication}
+              disabled={!medicine.trim()}
+              className="px-5 bg-indigo-600 text-white rounded-2xl active:scale-90 transition-all shadow-lg disabled:opacity-50"
+            >
+              <Plus size={20} strokeWidth={3} />
+            </button>
+          </div>
+          <p className="text-xs font-bold text-slate-400 px-2 mt-2">Log each dose as a Medication entry with the same name.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CareRemindersSheet;
@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { LogEntry } from '../types';
+import {
+  applyImport, ConflictResolution, downloadFile, exportCsv, exportJson, getExportFileName, ImportPlan, parseBackup, planImport,
+  toIncomingData
+} from '../services/dataTransfer';
+import { getDeviceTimeZone, importTrackerFile, IMPORTERS, UnmappedRow } from '../services/importers';
+import { describeEntry, getEntryTitle } from '../services/entryFormat';
+import { PersistedData, QuarantinedRecord } from '../services/storage';
+
+interface Props {
+  data: PersistedData;
+  onImport: (next: PersistedData) => void;
+  onClose: () => void;
+}
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Falls back to the device's zone alone where the list isn't available
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : [getDeviceTimeZone()];
+
+const readText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const DataTransferSheet: React.FC<Props> = ({ data, onImport, onClose }) => {
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const trackerInputRef = useRef<HTMLInputElement>(null);
+  const activeBaby = data.babies.find(baby => baby.id === data.activeBabyId) || data.babies[0];
+  const [source, setSource] = useState<'backup' | 'tracker'>('backup');
+  const [importerId, setImporterId] = useState('auto');
+  const [timeZone, setTimeZone] = useState(getDeviceTimeZone());
+  const [unmapped, setUnmapped] = useState<UnmappedRow[]>([]);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [rejected, setRejected] = useState<QuarantinedRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [includeSettings, setIncludeSettings] = useState(false);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const parsed = parseBackup(String(reader.result));
+      setSource('backup');
+      setError(parsed.error ?? null);
+      setRejected(parsed.rejected);
+      setUnmapped([]);
+      setPlan(parsed.data ? planImport(data, parsed.data) : null);
+      setResolutions({});
+    };
+    reader.readAsText(file);
+  };
+
+  // Some apps export one file per activity, so several files can be picked at once
+  const handleTrackerFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const ctx = { timeZone, volumeUnit: data.settings.unit, measurement: data.settings.measurement };
+    const results = await Promise.all(files.map(async file =>
+      importTrackerFile(file.name, await readText(file), ctx, importerId === 'auto' ? undefined : importerId)));
+    const entries = results.flatMap(result => result.entries);
+    const errors = results.map(result => result.error).filter(Boolean);
+
+    setSource('tracker');
+    setError(errors.length > 0 ? errors.join(' ') : null);
+    setRejected([]);
+    setUnmapped(results.flatMap(result => result.unmapped));
+    setPlan(entries.length > 0 ? planImport(data, toIncomingData(data, activeBaby.id, entries)) : null);
+    setResolutions({});
+  };
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map(conflict => [conflict.incoming.id, resolution])));
+  };
+
+  const confirmImport = () => {
+    if (!plan) return;
+    onImport(applyImport(data, plan, { resolutions, includeSettings: source === 'backup' && includeSettings }));
+    onClose();
+  };
+
+  const summarize = (entry: LogEntry) => {
+    const detail = describeEntry(entry, data.settings);
+    return `${getEntryTitle(entry)} · ${formatWhen(entry.timestamp)}${entry.duration ? ` · ${entry.duration}m` : ''}${detail ? ` · ${detail}` : ''}`;
+  };
+
+  const hasChanges = plan !== null
+    && (plan.newBabies.length > 0 || plan.newEntries.length > 0 || plan.conflicts.length > 0 || (source === 'backup' && includeSettings));
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">Backup & Export</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Export</label>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => downloadFile(getExportFileName('json'), exportJson(data), 'application/json')}
+              className="flex flex-col items-center gap-2 bg-indigo-50 text-indigo-600 p-5 rounded-[2rem] active:scale-95 transition-all"
+            >
+              <Download size={24} strokeWidth={3} />
+              <span className="text-[10px] font-black uppercase tracking-widest">Full Backup</span>
+            </button>
+            <button
+              onClick={() => downloadFile(getExportFileName('csv'), exportCsv(data), 'text/csv')}
+              className="flex flex-col items-center gap-2 bg-slate-50 text-slate-600 p-5 rounded-[2rem] active:scale-95 transition-all"
+            >
+              <Download size={24} strokeWidth={3} />
+              <span className="text-[10px] font-black uppercase tracking-widest">Spreadsheet</span>
+            </button>
+          </div>
+          <p className="text-xs font-bold text-slate-400 px-2 mt-2">The backup (JSON) keeps everything, photos and settings included. The spreadsheet (CSV) has one row per entry.</p>
+        </div>
+
+        <div>
+          <label className={labelClass}>Import a Backup</label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-3 bg-slate-50 text-slate-600 p-5 rounded-[2rem] active:scale-95 transition-all"
+          >
+            <Upload size={20} strokeWidth={3} />
+            <span className="text-[10px] font-black uppercase tracking-widest">Choose File</span>
+          </button>
+          <input type="file" ref={fileInputRef} className="hidden" accept="application/json,.json" onChange={handleFile} />
+        </div>
+
+        <div className="space-y-3">
+          <label className={labelClass}>Import from Another App</label>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={importerId}
+              onChange={(e) => setImporterId(e.target.value)}
+              className="bg-slate-50 p-4 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner"
+            >
+              <option value="auto">Detect App</option>
+              {IMPORTERS.map(importer => <option key={importer.id} value={importer.id}>{importer.name}</option>)}
+            </select>
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="bg-slate-50 p-4 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner min-w-0"
+            >
+              {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => trackerInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-3 bg-slate-50 text-slate-600 p-5 rounded-[2rem] active:scale-95 transition-all"
+          >
+            <Upload size={20} strokeWidth={3} />
+            <span className="text-[10px] font-black uppercase tracking-widest">Choose CSV Files</span>
+          </button>
+          <input type="file" ref={trackerInputRef} className="hidden" accept="text/csv,.csv" multiple onChange={handleTrackerFiles} />
+          <p className="text-xs font-bold text-slate-400 px-2">Entries are added to {activeBaby.name}. Times are read in the zone the other app was used in; amounts without a unit are taken as {data.settings.unit}.</p>
+        </div>
+
+        {error && <p className="text-xs font-bold text-rose-600 bg-rose-50 p-4 rounded-2xl">{error}</p>}
+
+        {unmapped.length > 0 && (
+          <div className="bg-amber-50 p-4 rounded-2xl space-y-1">
+            <p className="text-xs font-black text-amber-900">{unmapped.length} row{unmapped.length === 1 ? '' : 's'} couldn't be mapped and will be skipped</p>
+            {unmapped.slice(0, 5).map((row, i) => (
+              <p key={i} className="text-[11px] font-bold text-amber-800">{row.fileName} line {row.line}: {row.reason}</p>
+            ))}
+            {unmapped.length > 5 && <p className="text-[11px] font-bold text-amber-800">…and {unmapped.length - 5} more</p>}
+          </div>
+        )}
+
+        {plan && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { label: 'New Babies', value: plan.newBabies.length },
+                { label: 'New Entries', value: plan.newEntries.length },
+                { label: 'Already Here', value: plan.duplicates },
+                { label: 'Conflicts', value: plan.conflicts.length }
+              ].map(stat => (
+                <div key={stat.label} className="bg-slate-50 p-4 rounded-2xl">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</p>
+                  <p className="text-lg font-black text-slate-900 tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {rejected.length > 0 && (
+              <div className="bg-amber-50 p-4 rounded-2xl space-y-1">
+                <p className="text-xs font-black text-amber-900">{rejected.length} invalid record{rejected.length === 1 ? '' : 's'} will be skipped</p>
+                {rejected.slice(0, 3).map((record, i) => (
+                  <p key={i} className="text-[11px] font-bold text-amber-800">{record.reason}</p>
+                ))}
+              </div>
+            )}
+
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between px-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Changed Entries</label>
+                  <div className="flex gap-2">
+                    <button onClick={() => resolveAll('keep')} className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Keep All</button>
+                    <button onClick={() => resolveAll('replace')} className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Use All</button>
+                  </div>
+                </div>
+                {plan.conflicts.map(conflict => {
+                  const resolution = resolutions[conflict.incoming.id] ?? 'keep';
+                  return (
+                    <div key={conflict.incoming.id} className="grid grid-cols-2 gap-2">
+                      {([['keep', 'On this device', conflict.current], ['replace', 'In the backup', conflict.incoming]] as const).map(([value, label, entry]) => (
+                        <button
+                          key={value}
+                          onClick={() => setResolutions((prev: Record<string, ConflictResolution>) => ({ ...prev, [conflict.incoming.id]: value }))}
+                          className={`text-left p-3 rounded-2xl active:scale-95 transition-all ${resolution === value ? 'bg-indigo-50 ring-2 ring-indigo-500' : 'bg-slate-50'}`}
+                        >
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+                          <p className="text-[11px] font-bold text-slate-700">{summarize(entry)}</p>
+                          {entry.note && <p className="text-[11px] font-medium text-slate-400 italic">"{entry.note}"</p>}
+                        </button>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {source === 'backup' && (
+              <div className="flex items-center justify-between px-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Use Backup's Settings</label>
+                <button
+                  onClick={() => setIncludeSettings(!includeSettings)}
+                  className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-all ${includeSettings ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}
+                >
+                  {includeSettings ? 'On' : 'Off'}
+                </button>
+              </div>
+            )}
+
+            <button
+              onClick={confirmImport}
+              disabled={!hasChanges}
+              className="w-full bg-indigo-600 text-white py-5 rounded-[2rem] font-black text-sm uppercase tracking-widest shadow-xl shadow-indigo-200 active:scale-95 transition-all disabled:opacity-40"
+            >
+              {hasChanges ? 'Merge Into This Device' : 'Nothing New to Import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataTransferSheet;
@@ -0,0 +1,157 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { LogEntry } from '../types';
+import { getDayColumns, TimelineBlock } from '../services/timeline';
+import { getEntryTitle } from '../services/entryFormat';
+
+interface Props {
+  entries: LogEntry[];
+  onSelect: (entry: LogEntry) => void;
+}
+
+const BASE_HOUR_HEIGHT = 20;
+const BASE_COLUMN_WIDTH = 44;
+const MIN_ZOOM = 0.6;
+const MAX_ZOOM = 2.5;
+const INITIAL_DAYS = 14;
+const DAYS_PER_LOAD = 7;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const BLOCK_COLORS: Record<TimelineBlock['kind'], string> = {
+  sleep: 'bg-slate-800/80',
+  feed: 'bg-rose-500',
+  diaper: 'bg-sky-400',
+  other: 'bg-indigo-400'
+};
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+// One column per day, midnight at the top. Scrolls sideways across days (loading earlier weeks
+// at the left edge) and zooms with a two-finger pinch or the buttons.
+const DayStripTimeline: React.FC<Props> = ({ entries, onSelect }) => {
+  const [days, setDays] = useState(INITIAL_DAYS);
+  const [zoom, setZoom] = useState(1);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const widthBeforeLoadRef = useRef<number | null>(null);
+
+  const hourHeight = BASE_HOUR_HEIGHT * zoom;
+  const columnWidth = BASE_COLUMN_WIDTH * zoom;
+  const columns = getDayColumns(entries, Date.now(), days);
+  const entriesById = new Map<string, LogEntry>(entries.map(entry => [entry.id, entry] as [string, LogEntry]));
+
+  // Start at today, scrolled to the current hour
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    el.scrollLeft = el.scrollWidth;
+    el.scrollTop = Math.max(0, (new Date().getHours() - 4) * hourHeight);
+  }, []);
+
+  // Earlier days are prepended, so keep the visible columns in place
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || widthBeforeLoadRef.current === null) return;
+    el.scrollLeft += el.scrollWidth - widthBeforeLoadRef.current;
+    widthBeforeLoadRef.current = null;
+  }, [days]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el || widthBeforeLoadRef.current !== null || el.scrollLeft > columnWidth) return;
+    widthBeforeLoadRef.current = el.scrollWidth;
+    setDays((d: number) => d + DAYS_PER_LOAD);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length === 2) pinchRef.current = { distance: touchDistance(e.touches), zoom };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length !== 2 || !pinchRef.current) return;
+    setZoom(clampZoom(pinchRef.current.zoom * touchDistance(e.touches) / pinchRef.current.distance));
+  };
+
+  const handleTouchEnd = () => { pinchRef.current = null; };
+
+  const renderBlock = (block: TimelineBlock, columnDate: string) => {
+    const entry = entriesById.get(block.entryId);
+    if (!entry) return null;
+    const top = block.startMinute / 60 * hourHeight;
+    const isInstant = block.endMinute === block.startMinute;
+    const height = Math.max(isInstant ? 6 : 3, (block.endMinute - block.startMinute) / 60 * hourHeight);
+    const inset = block.kind === 'sleep' ? 'left-1 right-1' : block.kind === 'diaper' ? 'right-1 w-2' : 'left-1 right-3';
+    return (
+      <button
+        key={`${columnDate}-${block.entryId}`}
+        onClick={() => onSelect(entry)}
+        title={`${getEntryTitle(entry)} · ${new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+        className={`absolute ${inset} ${BLOCK_COLORS[block.kind]} ${isInstant ? 'rounded-full' : 'rounded-md'} ${block.continued ? 'rounded-t-none' : ''}`}
+        style={{ top, height }}
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-md rounded-[2.5rem] border border-white shadow-xl shadow-slate-200/20 overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-3">
+        <div className="flex gap-3 text-[9px] font-black uppercase tracking-widest text-slate-400">
+          {(['sleep', 'feed', 'diaper', 'other'] as const).map(kind => (
+            <span key={kind} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${BLOCK_COLORS[kind]}`} />{kind}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setZoom(clampZoom(zoom / 1.25))} className="p-2 text-slate-400 active:scale-90 transition-all"><ZoomOut size={16} /></button>
+          <button onClick={() => setZoom(clampZoom(zoom * 1.25))} className="p-2 text-slate-400 active:scale-90 transition-all"><ZoomIn size={16} /></button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        className="overflow-auto no-scrollbar max-h-[60vh] relative"
+        style={{ touchAction: 'pan-x pan-y' }}
+      >
+        <div className="flex" style={{ width: 32 + columns.length * columnWidth }}>
+          {/* Hour axis */}
+          <div className="sticky left-0 z-20 bg-white/95 shrink-0 w-8">
+            <div className="h-8 sticky top-0 bg-white/95" />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="text-[8px] font-black text-slate-300 text-right pr-1 tabular-nums" style={{ height: hourHeight }}>
+                {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+              </div>
+            ))}
+          </div>
+
+          {columns.map(column => {
+            const date = new Date(column.start);
+            const isToday = column.date === columns[columns.length - 1].date;
+            return (
+              <div key={column.date} className="shrink-0 border-l border-slate-100" style={{ width: columnWidth }}>
+                <div className={`h-8 sticky top-0 z-10 bg-white/95 flex flex-col items-center justify-center text-[8px] font-black uppercase ${isToday ? 'text-indigo-600' : 'text-slate-400'}`}>
+                  <span>{date.toLocaleDateString([], { weekday: 'short' })}</span>
+                  <span className="tabular-nums">{date.getDate()}</span>
+                </div>
+                <div className="relative" style={{ height: 24 * hourHeight }}>
+                  {Array.from({ length: 8 }, (_, i) => (
+                    <div key={i} className="absolute inset-x-0 border-t border-dashed border-slate-100" style={{ top: i * 3 * hourHeight }} />
+                  ))}
+                  {column.blocks.map(block => renderBlock(block, column.date))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayStripTimeline;
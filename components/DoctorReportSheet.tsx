@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { AppSettings, BabyProfile, LogEntry } from '../types';
+import { getCustomRange, getEntriesInRange, getPresetRange, TimeRange, toDateKey } from '../services/analytics';
+import { buildDoctorReport, openDoctorReport, renderDoctorReportHtml } from '../services/doctorReport';
+
+interface Props {
+  baby: BabyProfile;
+  entries: LogEntry[];
+  settings: AppSettings;
+  onClose: () => void;
+}
+
+type ReportPreset = '7d' | '30d' | 'custom';
+
+const PRESETS: ReportPreset[] = ['7d', '30d', 'custom'];
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const DoctorReportSheet: React.FC<Props> = ({ baby, entries, settings, onClose }) => {
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+  const [preset, setPreset] = useState<ReportPreset>('7d');
+  const [customFrom, setCustomFrom] = useState(toDateKey(Date.now() - 13 * 24 * 60 * 60 * 1000));
+  const [customTo, setCustomTo] = useState(toDateKey(Date.now()));
+
+  const range: TimeRange = preset === 'custom'
+    ? getCustomRange(fromDateInput(customFrom), fromDateInput(customTo))
+    : getPresetRange(preset);
+  const entryCount = getEntriesInRange(entries, range).length;
+
+  const openReport = () => openDoctorReport(renderDoctorReportHtml(buildDoctorReport(baby, entries, range), settings));
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">Doctor Report</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div className="space-y-3">
+          <label className={labelClass}>Period</label>
+          <div className="grid grid-cols-3 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {PRESETS.map(p => (
+              <button
+                key={p}
+                onClick={() => setPreset(p)}
+                className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all ${preset === p ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center gap-3">
+              <input type="date" value={customFrom} onChange={(e) => e.target.value && setCustomFrom(e.target.value)} className="flex-1 min-w-0 bg-slate-50 p-3 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner" />
+              <span className="text-xs font-black text-slate-400">to</span>
+              <input type="date" value={customTo} onChange={(e) => e.target.value && setCustomTo(e.target.value)} className="flex-1 min-w-0 bg-slate-50 p-3 rounded-2xl font-black text-slate-900 text-xs outline-none shadow-inner" />
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs font-bold text-slate-400 px-2">
+          {entryCount} entries from {new Date(range.start).toLocaleDateString()} to {new Date(range.end - 1).toLocaleDateString()}: feeding, diapers, sleep, growth, medication and notes. Everything is put together on this device.
+        </p>
+
+        <button
+          onClick={openReport}
+          className="w-full flex items-center justify-center gap-3 bg-indigo-600 text-white py-5 rounded-[2rem] font-black text-sm uppercase tracking-widest shadow-xl shadow-indigo-200 active:scale-95 transition-all"
+        >
+          <FileText size={18} strokeWidth={3} /> Open Printable Report
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DoctorReportSheet;
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Check, Trash2, X } from 'lucide-react';
+import { DoseUnit, EntryType, LogEntry, MeasurementSystem, SolidsReaction, VolumeUnit } from '../types';
+import { DOSE_UNITS, ENTRY_TYPES, SOLIDS_REACTIONS } from '../services/storage';
+import { getReactionLabel, getTypeLabel } from '../services/entryFormat';
+import { isNursing } from '../services/sessionTimer';
+import { fromMetric, fromMl, MeasureKind, MEASURE_UNITS, toMetric, toMl, UNIT_STEPS } from '../services/units';
+
+interface Props {
+  entry: Partial<LogEntry>; // without an id this is a new entry, possibly backdated
+  unit: VolumeUnit;
+  measurement: MeasurementSystem;
+  onSave: (fields: Partial<LogEntry>) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const toDateTimeInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const fromDateTimeInput = (value: string) => new Date(value).getTime();
+
+const hasDuration = (type: EntryType) => isNursing(type) || type === 'sleep' || type === 'tummy_time';
+
+const hasVolume = (type: EntryType) => type === 'bottle' || type === 'pumping';
+
+// Number fields are edited in the display unit. An untouched field keeps its stored value so
+// opening and saving an entry doesn't drift it through a unit round trip.
+const useNumberField = (stored: number | undefined, toDisplay: (value: number) => number) => {
+  const initial = stored !== undefined ? String(toDisplay(stored)) : '';
+  const [value, setValue] = useState(initial);
+  const read = (toStored: (value: number) => number) =>
+    Number(value) > 0 ? (value === initial ? stored : toStored(Number(value))) : undefined;
+  return { value, setValue, read, changed: value !== initial };
+};
+
+const EntryEditSheet: React.FC<Props> = ({ entry, unit, measurement, onSave, onDelete, onClose }) => {
+  const [type, setType] = useState<EntryType>(entry.type || 'bottle');
+  const [time, setTime] = useState(toDateTimeInput(entry.timestamp ?? Date.now()));
+  const initialDuration = entry.duration !== undefined ? String(Math.round(entry.duration * 10) / 10) : '';
+  const [duration, setDuration] = useState(initialDuration);
+  const initialAmount = entry.amount !== undefined ? String(fromMl(entry.amount, unit)) : '';
+  const [amount, setAmount] = useState(initialAmount);
+  const [note, setNote] = useState(entry.note || '');
+  const [medicine, setMedicine] = useState(entry.medicine || '');
+  const dose = useNumberField(entry.dose, v => v);
+  const [doseUnit, setDoseUnit] = useState<DoseUnit>(entry.doseUnit || 'ml');
+  const [food, setFood] = useState(entry.food || '');
+  const [reaction, setReaction] = useState<SolidsReaction | undefined>(entry.reaction);
+  const pumpedLeft = useNumberField(entry.pumped?.left, v => fromMl(v, unit));
+  const pumpedRight = useNumberField(entry.pumped?.right, v => fromMl(v, unit));
+  const measures = {
+    temperature: useNumberField(entry.temperature, v => fromMetric(v, 'temperature', measurement)),
+    weight: useNumberField(entry.weight, v => fromMetric(v, 'weight', measurement)),
+    length: useNumberField(entry.length, v => fromMetric(v, 'length', measurement)),
+    head: useNumberField(entry.head, v => fromMetric(v, 'length', measurement))
+  };
+  const readMeasure = (key: keyof typeof measures, kind: MeasureKind) =>
+    measures[key].read(v => toMetric(v, kind, measurement));
+
+  const timestamp = fromDateTimeInput(time);
+  const isValid = Number.isFinite(timestamp) && timestamp <= Date.now() + 60 * 1000;
+
+  const save = () => {
+    if (!isValid) return;
+    const left = pumpedLeft.read(v => toMl(v, unit));
+    const right = pumpedRight.read(v => toMl(v, unit));
+    const pumped = type === 'pumping' && (left !== undefined || right !== undefined)
+      ? { left: left ?? 0, right: right ?? 0 }
+      : undefined;
+    const fields: Partial<LogEntry> = {
+      type,
+      timestamp,
+      duration: hasDuration(type) && Number(duration) > 0
+        ? (duration === initialDuration ? entry.duration : Number(duration))
+        : undefined,
+      amount: hasVolume(type) && Number(amount) > 0
+        ? (amount === initialAmount ? entry.amount : toMl(Number(amount), unit))
+        : undefined,
+      unit: hasVolume(type) && Number(amount) > 0
+        ? (amount === initialAmount ? entry.unit : unit)
+        : undefined,
+      // Per-side minutes no longer add up once the total or the type is changed by hand
+      sides: isNursing(type) && type === entry.type && duration === initialDuration ? entry.sides : undefined,
+      endSide: isNursing(type) && type === entry.type ? entry.endSide : undefined,
+      pumped,
+      medicine: type === 'medication' ? medicine.trim() || undefined : undefined,
+      dose: type === 'medication' ? dose.read(v => v) : undefined,
+      doseUnit: type === 'medication' && dose.value ? doseUnit : undefined,
+      food: type === 'solids' ? food.trim() || undefined : undefined,
+      reaction: type === 'solids' ? reaction : undefined,
+      temperature: type === 'temperature' ? readMeasure('temperature', 'temperature') : undefined,
+      weight: type === 'growth' ? readMeasure('weight', 'weight') : undefined,
+      length: type === 'growth' ? readMeasure('length', 'length') : undefined,
+      head: type === 'growth' ? readMeasure('head', 'length') : undefined,
+      note: note.trim() || undefined
+    };
+    if (pumped) {
+      // The total follows the sides; an unchanged pair keeps the stored total and unit
+      const sidesChanged = pumpedLeft.changed || pumpedRight.changed || type !== entry.type;
+      fields.amount = sidesChanged ? pumped.left + pumped.right : entry.amount;
+      fields.unit = sidesChanged ? unit : entry.unit;
+    }
+    onSave(fields);
+  };
+
+  const inputClass = 'w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner';
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-5">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-400 font-black uppercase tracking-[0.2em] text-[10px]">{entry.id ? 'Edit Entry' : entry.timestamp && entry.timestamp < Date.now() - 60 * 1000 ? 'Log a Past Event' : `Log ${getTypeLabel(type)}`}</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Type</label>
+          <div className="grid grid-cols-3 gap-2">
+            {ENTRY_TYPES.map(t => (
+              <button
+                key={t}
+                onClick={() => setType(t)}
+                className={`py-3 px-1 rounded-2xl text-[10px] font-black uppercase tracking-wider active:scale-95 transition-all ${type === t ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200' : 'bg-slate-50 text-slate-500'}`}
+              >
+                {getTypeLabel(t)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>{hasDuration(type) ? 'Started' : 'Time'}</label>
+          <input type="datetime-local" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} />
+          {!isValid && <p className="text-xs font-bold text-rose-500 px-2 mt-2">Pick a time that isn't in the future.</p>}
+        </div>
+
+        {hasDuration(type) && (
+          <div>
+            <label className={labelClass}>Duration (minutes)</label>
+            <input type="number" min={0} step={1} value={duration} onChange={(e) => setDuration(e.target.value)} className={inputClass} />
+          </div>
+        )}
+
+        {type === 'bottle' && (
+          <div>
+            <label className={labelClass}>Amount ({unit})</label>
+            <input type="number" min={0} step={UNIT_STEPS[unit].step} value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+          </div>
+        )}
+
+        {type === 'pumping' && (
+          <div>
+            <label className={labelClass}>Volume per side ({unit})</label>
+            <div className="grid grid-cols-2 gap-3">
+              {([['Left', pumpedLeft], ['Right', pumpedRight]] as const).map(([side, field]) => (
+                <input
+                  key={side}
+                  type="number"
+                  min={0}
+                  step={UNIT_STEPS[unit].step}
+                  placeholder={side}
+                  value={field.value}
+                  onChange={(e) => field.setValue(e.target.value)}
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {type === 'medication' && (
+          <>
+            <div>
+              <label className={labelClass}>Medicine</label>
+              <input type="text" value={medicine} onChange={(e) => setMedicine(e.target.value)} placeholder="e.g. Vitamin D" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Dose</label>
+              <div className="flex gap-3">
+                <input type="number" min={0} step="any" value={dose.value} onChange={(e) => dose.setValue(e.target.value)} className={inputClass} />
+                <select value={doseUnit} onChange={(e) => setDoseUnit(e.target.value as DoseUnit)} className="bg-slate-50 px-4 rounded-2xl font-black text-slate-900 outline-none shadow-inner">
+                  {DOSE_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+              </div>
+            </div>
+          </>
+        )}
+
+        {type === 'solids' && (
+          <>
+            <div>
+              <label className={labelClass}>Food</label>
+              <input type="text" value={food} onChange={(e) => setFood(e.target.value)} placeholder="e.g. Mashed carrot" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Reaction</label>
+              <div className="grid grid-cols-4 gap-2">
+                {SOLIDS_REACTIONS.map(r => (
+                  <button
+                    key={r}
+                    onClick={() => setReaction(reaction === r ? undefined : r)}
+                    className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-wider active:scale-95 transition-all ${reaction === r ? (r === 'allergy' ? 'bg-rose-500 text-white' : 'bg-indigo-600 text-white') : 'bg-slate-50 text-slate-500'}`}
+                  >
+                    {getReactionLabel(r)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {type === 'temperature' && (
+          <div>
+            <label className={labelClass}>Temperature ({MEASURE_UNITS.temperature[measurement]})</label>
+            <input type="number" min={0} step={0.1} value={measures.temperature.value} onChange={(e) => measures.temperature.setValue(e.target.value)} className={inputClass} />
+          </div>
+        )}
+
+        {type === 'growth' && (
+          ([['weight', 'Weight', 'weight'], ['length', 'Length', 'length'], ['head', 'Head Circumference', 'length']] as const).map(([key, label, kind]) => (
+            <div key={key}>
+              <label className={labelClass}>{label} ({MEASURE_UNITS[kind][measurement]})</label>
+              <input type="number" min={0} step="any" value={measures[key].value} onChange={(e) => measures[key].setValue(e.target.value)} className={inputClass} />
+            </div>
+          ))
+        )}
+
+        <div>
+          <label className={labelClass}>Note</label>
+          <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className={`${inputClass} resize-none font-bold`} />
+        </div>
+
+        <div className="flex gap-3">
+          {onDelete && (
+            <button onClick={onDelete} className="p-5 bg-rose-50 text-rose-500 rounded-[2rem] active:scale-90 transition-all">
+              <Trash2 size={20} />
+            </button>
+          )}
+          <button
+            onClick={save}
+            disabled={!isValid}
+            className="flex-1 py-5 bg-indigo-600 text-white rounded-[2rem] font-black text-sm shadow-2xl shadow-indigo-200 active:scale-95 transition-all uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Check size={18} strokeWidth={3} /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryEditSheet;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Ruler } from 'lucide-react';
+import { CartesianGrid, ComposedChart, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from 'recharts';
+import { BabyProfile, LogEntry, MeasurementSystem } from '../types';
+import {
+  detectPercentileCrossing,
+  formatPercentile,
+  getGrowthPoints,
+  getPercentileCurves,
+  GROWTH_MEASURES,
+  GrowthMeasure,
+  MAJOR_PERCENTILES
+} from '../services/growth';
+import { fromMetric, MEASURE_UNITS } from '../services/units';
+
+interface Props {
+  baby: BabyProfile;
+  entries: LogEntry[];
+  measurement: MeasurementSystem;
+  onAddMeasurement: () => void;
+}
+
+const MEASURE_LABELS: Record<GrowthMeasure, string> = {
+  weight: 'Weight',
+  length: 'Length',
+  head: 'Head'
+};
+
+const GrowthChart: React.FC<Props> = ({ baby, entries, measurement, onAddMeasurement }) => {
+  const [measure, setMeasure] = useState<GrowthMeasure>('weight');
+  const kind = measure === 'weight' ? 'weight' : 'length';
+  const unitLabel = MEASURE_UNITS[kind][measurement];
+  const display = (value: number) => fromMetric(value, kind, measurement);
+
+  if (baby.birthDate === undefined || !baby.sex) {
+    return (
+      <div className="bg-white/90 backdrop-blur-md p-8 rounded-[3rem] border border-white shadow-2xl shadow-slate-200/30 text-center space-y-2">
+        <Ruler size={32} className="mx-auto text-slate-200" />
+        <p className="text-sm font-bold text-slate-500">Add {baby.name}'s birth date and sex in the profile to compare growth with the WHO charts.</p>
+      </div>
+    );
+  }
+
+  const points = getGrowthPoints(baby, entries, measure);
+  const curves = getPercentileCurves(measure, baby.sex).map(point => {
+    const row: Record<string, number> = { month: point.month };
+    MAJOR_PERCENTILES.forEach(p => { row[`p${p}`] = display(point[`p${p}`]); });
+    return row;
+  });
+  const scatter = points.map(point => ({ month: point.ageMonths, value: display(point.value) }));
+  const crossings = GROWTH_MEASURES
+    .map(m => detectPercentileCrossing(m, getGrowthPoints(baby, entries, m)))
+    .filter(crossing => crossing !== null);
+
+  return (
+    <div className="bg-white/90 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-2xl shadow-slate-200/30 space-y-4">
+      <div className="flex justify-between items-center px-2">
+        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Ruler size={14} strokeWidth={3} /> Growth · WHO
+        </h3>
+        <button onClick={onAddMeasurement} className="text-[10px] font-black text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full uppercase tracking-widest active:scale-90 transition-all">
+          + Measure
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+        {GROWTH_MEASURES.map(m => (
+          <button
+            key={m}
+            onClick={() => setMeasure(m)}
+            className={`py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all ${measure === m ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+          >
+            {MEASURE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {crossings.map(crossing => (
+        <div key={crossing.measure} className="flex items-start gap-3 bg-amber-50 p-4 rounded-2xl">
+          <AlertTriangle size={18} className="text-amber-600 shrink-0 mt-0.5" />
+          <p className="text-xs font-bold text-amber-900">
+            {MEASURE_LABELS[crossing.measure]} has moved {crossing.direction} across {crossing.linesCrossed} percentile lines
+            ({formatPercentile(crossing.from.percentile)} → {formatPercentile(crossing.to.percentile)}). Worth mentioning at the next check-up.
+          </p>
+        </div>
+      ))}
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={curves} margin={{ left: -20, right: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="month" type="number" domain={[0, 24]} ticks={[0, 3, 6, 9, 12, 15, 18, 21, 24]} axisLine={false} tickLine={false} tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }} />
+            <YAxis domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }} />
+            <Tooltip contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }} />
+            {MAJOR_PERCENTILES.map(p => (
+              <Line
+                key={p}
+                dataKey={`p${p}`}
+                name={`${formatPercentile(p)} (${unitLabel})`}
+                dot={false}
+                stroke={p === 50 ? '#4f46e5' : '#c7d2fe'}
+                strokeWidth={p === 50 ? 2 : 1}
+                strokeDasharray={p === 50 ? undefined : '4 4'}
+                isAnimationActive={false}
+              />
+            ))}
+            <Scatter data={scatter} dataKey="value" name={`${baby.name} (${unitLabel})`} fill="#f43f5e" line={{ stroke: '#f43f5e', strokeWidth: 2 }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-center text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">Age in months</p>
+
+      {points.length > 0 ? (
+        <div className="space-y-2">
+          {[...points].reverse().map(point => (
+            <div key={point.entryId} className="flex items-center justify-between bg-slate-50 px-4 py-3 rounded-2xl">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-wider">{new Date(point.timestamp).toLocaleDateString()}</span>
+              <span className="text-sm font-black text-slate-900 tabular-nums">{display(point.value)} {unitLabel}</span>
+              <span className="text-xs font-black text-indigo-600 w-16 text-right">{formatPercentile(point.percentile)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs font-bold text-slate-400 px-2">No {MEASURE_LABELS[measure].toLowerCase()} measurements from the first 24 months yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default GrowthChart;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Minus, Plus, X } from 'lucide-react';
+import { BabyProfile, HealthThresholdOverrides, HealthThresholds, MeasurementSystem } from '../types';
+import { getHealthAgeBand, getHealthThresholds } from '../services/healthFlags';
+import { formatMeasure } from '../services/units';
+
+interface Props {
+  baby: BabyProfile;
+  measurement: MeasurementSystem;
+  onChange: (overrides: HealthThresholdOverrides | undefined) => void;
+  onClose: () => void;
+}
+
+interface LimitRow {
+  key: keyof HealthThresholds;
+  label: string;
+  step: number;
+  min: number;
+  max: number;
+  format?: (value: number) => string;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Edits the limits for the baby's current age band only; other bands keep their own
+const HealthChecksSheet: React.FC<Props> = ({ baby, measurement, onChange, onClose }) => {
+  const now = Date.now();
+  const band = getHealthAgeBand(baby, now);
+  const limits = getHealthThresholds(baby, now);
+  const isCustom = !!baby.healthThresholds?.[band.band];
+  const temperature = (celsius: number) => formatMeasure(celsius, 'temperature', measurement);
+
+  const rows: LimitRow[] = [
+    { key: 'minWetDiapers', label: 'Wet diapers a day, at least', step: 1, min: 0, max: 12 },
+    { key: 'maxHoursWithoutDirty', label: 'Hours without a dirty diaper', step: 12, min: 0, max: 168 },
+    { key: 'maxFeedGapHours', label: 'Hours between feeds, at most', step: 1, min: 0, max: 12 },
+    { key: 'minFeedMinutes', label: 'Nursing minutes a feed', step: 1, min: 0, max: 30 },
+    { key: 'feverCelsius', label: 'Watch a fever from', step: 0.1, min: 37.5, max: 40, format: temperature },
+    { key: 'highFeverCelsius', label: 'Call the doctor from', step: 0.1, min: 37.5, max: 41, format: temperature }
+  ];
+
+  const update = (key: keyof HealthThresholds, value: number) =>
+    onChange({ ...baby.healthThresholds, [band.band]: { ...baby.healthThresholds?.[band.band], [key]: value } });
+
+  const reset = () => {
+    const { [band.band]: _, ...rest } = baby.healthThresholds ?? {};
+    onChange(Object.keys(rest).length > 0 ? rest : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">{baby.name}'s Health Checks</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <p className="text-xs font-bold text-slate-400 px-2">
+          Limits for {band.label.toLowerCase()}{baby.birthDate === undefined ? ', used until a birth date is added to the profile' : ''}. Set one to 0 to turn its check off.
+        </p>
+
+        <div className="bg-slate-50 p-4 rounded-[1.5rem] shadow-inner space-y-3">
+          {rows.map(row => {
+            const value = limits[row.key];
+            const isOff = value === 0;
+            const next = (direction: number) => {
+              const stepped = round(value + direction * row.step);
+              // The temperature limits can't be turned off below their minimum
+              return row.min > 0 ? Math.min(row.max, Math.max(row.min, stepped)) : Math.min(row.max, Math.max(0, stepped));
+            };
+            return (
+              <div key={row.key} className="flex items-center justify-between">
+                <span className="text-[11px] font-black uppercase tracking-wider text-slate-500">{row.label}</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => update(row.key, next(-1))}
+                    className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"
+                  >
+                    <Minus size={14} strokeWidth={3} />
+                  </button>
+                  <span className="w-16 text-center font-black text-slate-900 tabular-nums text-sm">
+                    {isOff ? 'Off' : row.format ? row.format(value) : value}
+                  </span>
+                  <button
+                    onClick={() => update(row.key, next(1))}
+                    className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md"
+                  >
+                    <Plus size={14} strokeWidth={3} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {isCustom && (
+          <button onClick={reset} className="w-full py-4 bg-slate-50 text-slate-500 rounded-2xl font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform">
+            Use the Defaults for This Age
+          </button>
+        )}
+        <p className="text-xs font-bold text-slate-400 px-2">These checks only read the log. They don't replace advice from your doctor.</p>
+      </div>
+    </div>
+  );
+};
+
+export default HealthChecksSheet;
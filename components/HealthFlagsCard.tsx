@@ -0,0 +1,75 @@
+import React from 'react';
+import { AlertTriangle, Info, Settings, ShieldCheck } from 'lucide-react';
+import { LogEntry } from '../types';
+import { HealthFlag, HealthFlagSeverity } from '../services/healthFlags';
+import { getEntryTitle } from '../services/entryFormat';
+
+interface Props {
+  babyName: string;
+  flags: HealthFlag[];
+  entries: LogEntry[];
+  onSelectEntry: (entry: LogEntry) => void;
+  onConfigure: () => void;
+}
+
+const MAX_CHIPS = 3;
+
+const SEVERITY_STYLES: Record<HealthFlagSeverity, { box: string; text: string; label: string }> = {
+  concern: { box: 'bg-rose-50 border-rose-100', text: 'text-rose-900', label: 'Call the doctor' },
+  watch: { box: 'bg-amber-50 border-amber-100', text: 'text-amber-900', label: 'Watch' },
+  info: { box: 'bg-slate-50 border-slate-100', text: 'text-slate-700', label: 'Note' }
+};
+
+const HealthFlagsCard: React.FC<Props> = ({ babyName, flags, entries, onSelectEntry, onConfigure }) => {
+  const entriesById = new Map<string, LogEntry>(entries.map(entry => [entry.id, entry] as [string, LogEntry]));
+
+  return (
+    <section className="bg-white/80 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-xl shadow-slate-200/20 space-y-3">
+      <div className="flex justify-between items-center px-2">
+        <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <ShieldCheck size={14} strokeWidth={3} /> Health Checks
+        </h2>
+        <button onClick={onConfigure} className="p-2 text-slate-300 bg-white/50 rounded-full shadow-sm hover:text-slate-600 active:scale-90 transition-all">
+          <Settings size={16} strokeWidth={3} />
+        </button>
+      </div>
+      {flags.length === 0 ? (
+        <p className="text-xs font-bold text-slate-400 px-2">Nothing unusual in {babyName}'s log.</p>
+      ) : (
+        flags.map(flag => {
+          const style = SEVERITY_STYLES[flag.severity];
+          const cited = flag.entryIds.map(id => entriesById.get(id)).filter((entry): entry is LogEntry => entry !== undefined);
+          return (
+            <div key={flag.rule} className={`p-4 rounded-2xl border-2 space-y-2 ${style.box}`}>
+              <div className={`flex items-start gap-2 ${style.text}`}>
+                {flag.severity === 'info' ? <Info size={16} className="shrink-0 mt-0.5" /> : <AlertTriangle size={16} className="shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <p className="font-black text-sm">{flag.title} <span className="text-[9px] uppercase tracking-widest opacity-60">· {style.label}</span></p>
+                  <p className="text-xs font-bold opacity-80">{flag.explanation}</p>
+                </div>
+              </div>
+              {cited.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {cited.slice(0, MAX_CHIPS).map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => onSelectEntry(entry)}
+                      className="px-3 py-1 bg-white rounded-full text-[10px] font-black uppercase tracking-wider text-slate-600 shadow-sm active:scale-90 transition-transform"
+                    >
+                      {getEntryTitle(entry)} · {new Date(entry.timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </button>
+                  ))}
+                  {cited.length > MAX_CHIPS && (
+                    <span className="px-2 py-1 text-[10px] font-black text-slate-400">+{cited.length - MAX_CHIPS}</span>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </section>
+  );
+};
+
+export default HealthFlagsCard;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AlertTriangle, ArrowDownRight, ArrowRight, ArrowUpRight, MessageCircle, Zap } from 'lucide-react';
+import { AIInsight, InsightAnomaly, InsightTrend, LogEntry } from '../types';
+import { getEntryTitle } from '../services/entryFormat';
+
+interface Props {
+  insight: AIInsight;
+  entries: LogEntry[];
+  onSelectEntry: (entry: LogEntry) => void;
+}
+
+const TREND_ICONS: Record<InsightTrend['direction'], React.ReactNode> = {
+  up: <ArrowUpRight size={14} strokeWidth={3} />,
+  down: <ArrowDownRight size={14} strokeWidth={3} />,
+  steady: <ArrowRight size={14} strokeWidth={3} />
+};
+
+const SEVERITY_STYLES: Record<InsightAnomaly['severity'], string> = {
+  info: 'bg-indigo-500/40',
+  watch: 'bg-amber-400/30',
+  concern: 'bg-rose-500/50'
+};
+
+const InsightsCard: React.FC<Props> = ({ insight, entries, onSelectEntry }) => {
+  const entriesById = new Map<string, LogEntry>(entries.map(entry => [entry.id, entry] as [string, LogEntry]));
+
+  return (
+    <div className="bg-indigo-600 p-6 rounded-[2.5rem] text-white shadow-2xl shadow-indigo-200/50 animate-in zoom-in-95 duration-500 space-y-4">
+      <div className="flex items-center gap-2">
+        <Zap size={18} className="text-yellow-300 fill-yellow-300" />
+        <span className="text-xs font-black uppercase tracking-widest opacity-80">Parenting Insight</span>
+      </div>
+      <p className="text-sm font-bold leading-relaxed">{insight.summary}</p>
+
+      {insight.trends.length > 0 && (
+        <div className="space-y-2">
+          {insight.trends.map((trend, i) => (
+            <div key={i} className="flex items-start gap-2 text-xs">
+              <span className="mt-0.5 shrink-0 opacity-80">{TREND_ICONS[trend.direction]}</span>
+              <p><span className="font-black uppercase tracking-wider">{trend.metric}</span> <span className="font-bold opacity-80">{trend.detail}</span></p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {insight.anomalies.map((anomaly, i) => (
+        <div key={i} className={`p-4 rounded-2xl space-y-2 ${SEVERITY_STYLES[anomaly.severity]}`}>
+          <div className="flex items-start gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <p className="text-xs font-bold">{anomaly.detail}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {anomaly.entryIds.map(id => entriesById.get(id)).filter((entry): entry is LogEntry => entry !== undefined).map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => onSelectEntry(entry)}
+                className="px-3 py-1 bg-white/20 rounded-full text-[10px] font-black uppercase tracking-wider active:scale-90 transition-transform"
+              >
+                {getEntryTitle(entry)} · {new Date(entry.timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {insight.tip && (
+        <p className="text-xs font-bold opacity-90 pt-4 border-t border-indigo-500/50">{insight.tip}</p>
+      )}
+
+      {insight.followUpQuestions.length > 0 && (
+        <div className="space-y-2">
+          {insight.followUpQuestions.map(question => (
+            <p key={question} className="flex items-center gap-2 text-[11px] font-bold opacity-80">
+              <MessageCircle size={12} className="shrink-0" /> {question}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightsCard;
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, ArrowUp, MessageCircle, Search, WifiOff } from 'lucide-react';
+import { BabyProfile, LogEntry, VolumeUnit } from '../types';
+import { askAboutLog, ChatItem, InsightsProvider } from '../services/ai';
+import { onAiQueueChange, runWhenOnline } from '../services/aiQueue';
+
+interface Props {
+  provider: InsightsProvider | null;
+  baby: BabyProfile;
+  entries: LogEntry[];
+  unit: VolumeUnit;
+  suggestions: string[]; // e.g. the follow-up questions of the latest insight
+  onOpenSettings: () => void;
+}
+
+interface Exchange {
+  question: string;
+  answer?: string;
+  toolsUsed: string[];
+  error?: string;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  get_daily_totals: 'Daily totals',
+  find_entries: 'Entries',
+  get_last_entry: 'Last entry',
+  get_feed_prediction: 'Feed prediction',
+  get_baby_profile: 'Profile'
+};
+
+const DEFAULT_SUGGESTIONS = ['How much did she eat yesterday?', 'When was the last dirty diaper?', 'How long did she sleep last night?'];
+
+// Questions about the log in plain words. The model looks the answers up in the entries on this
+// device, and each answer shows which lookups it used. The conversation lasts until the tab or
+// the baby changes.
+const LogChat: React.FC<Props> = ({ provider, baby, entries, unit, suggestions, onOpenSettings }) => {
+  const [exchanges, setExchanges] = useState<Exchange[]>([]);
+  const [history, setHistory] = useState<ChatItem[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const queueKey = `chat:${baby.id}`;
+
+  useEffect(() => onAiQueueChange((keys: string[]) => setIsQueued(keys.includes(queueKey))), [queueKey]);
+
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [exchanges]);
+
+  const ask = async (text: string) => {
+    const asked = text.trim();
+    if (!asked || !provider || isAsking) return;
+    setQuestion('');
+    setIsAsking(true);
+    setExchanges((prev: Exchange[]) => [...prev, { question: asked, toolsUsed: [] }]);
+    const update = (patch: Partial<Exchange>) =>
+      setExchanges((prev: Exchange[]) => prev.map((exchange, i) => i === prev.length - 1 ? { ...exchange, ...patch } : exchange));
+    try {
+      const result = await runWhenOnline(queueKey, () =>
+        askAboutLog(provider, asked, history, { baby, entries, now: Date.now() }, unit));
+      setHistory(result.items);
+      update({ answer: result.text, toolsUsed: result.toolsUsed });
+    } catch (error) {
+      console.error('Chat Error:', error);
+      update({ error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const chips = [...new Set([...suggestions, ...DEFAULT_SUGGESTIONS.map(s => s.replace('she', baby.name))])].slice(0, 4);
+
+  return (
+    <div className="bg-white/90 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-2xl shadow-slate-200/30 space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageCircle size={18} className="text-indigo-500" />
+        <h4 className="font-black text-slate-900 text-base">Ask about {baby.name}'s log</h4>
+      </div>
+
+      {!provider ? (
+        <div className="bg-indigo-50 p-5 rounded-[2.5rem] border-2 border-indigo-100 flex items-center gap-4">
+          <p className="flex-1 text-xs font-bold text-indigo-900">Turn on an AI assistant in Settings to ask questions about the log.</p>
+          <button onClick={onOpenSettings} className="px-4 py-2 bg-indigo-600 text-white rounded-full font-black text-[10px] uppercase tracking-widest active:scale-95 transition-transform">
+            Settings
+          </button>
+        </div>
+      ) : (
+        <>
+          {exchanges.length > 0 && (
+            <div ref={listRef} className="max-h-[50vh] overflow-y-auto no-scrollbar space-y-3">
+              {exchanges.map((exchange, i) => (
+                <div key={i} className="space-y-2">
+                  <p className="ml-8 bg-indigo-600 text-white text-sm font-bold px-4 py-3 rounded-[1.5rem] rounded-br-md">{exchange.question}</p>
+                  {exchange.answer && (
+                    <div className="mr-8 bg-slate-50 px-4 py-3 rounded-[1.5rem] rounded-bl-md space-y-2">
+                      <p className="text-sm font-bold text-slate-800 leading-relaxed">{exchange.answer}</p>
+                      {exchange.toolsUsed.length > 0 && (
+                        <p className="flex items-center gap-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                          <Search size={10} strokeWidth={3} /> {exchange.toolsUsed.map(name => TOOL_LABELS[name] ?? name).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {exchange.error && (
+                    <p className="mr-8 flex items-start gap-2 bg-rose-50 text-rose-800 text-xs font-bold px-4 py-3 rounded-[1.5rem] break-words">
+                      <AlertTriangle size={14} className="text-rose-500 shrink-0 mt-0.5" /> Couldn't answer: {exchange.error}
+                    </p>
+                  )}
+                  {!exchange.answer && !exchange.error && (
+                    <p className="mr-8 flex items-center gap-2 text-xs font-bold text-slate-400 px-4 py-2">
+                      {isQueued ? <><WifiOff size={14} /> Waiting for a connection…</> : 'Looking it up…'}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {exchanges.length === 0 && (
+            <div className="flex flex-wrap gap-2">
+              {chips.map(chip => (
+                <button key={chip} onClick={() => ask(chip)} className="text-left text-[11px] font-bold text-indigo-700 bg-indigo-50 px-3 py-2 rounded-2xl active:scale-95 transition-transform">
+                  {chip}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={(e) => { e.preventDefault(); ask(question); }} className="flex items-center gap-2">
+            <input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="When was the last feed?"
+              className="flex-1 min-w-0 bg-slate-50 rounded-[1.5rem] px-4 py-3 text-sm font-bold text-slate-800 placeholder:text-slate-300 outline-none focus:ring-4 focus:ring-indigo-100"
+            />
+            <button
+              type="submit"
+              disabled={!question.trim() || isAsking}
+              className="p-3 bg-indigo-600 text-white rounded-full disabled:opacity-30 active:scale-90 transition-all"
+            >
+              <ArrowUp size={18} strokeWidth={3} />
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LogChat;
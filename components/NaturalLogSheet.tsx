@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Mic, MicOff, Sparkles, Trash2, X } from 'lucide-react';
+import { LogEntry, VolumeUnit } from '../types';
+import { getTypeLabel } from '../services/entryFormat';
+import { formatDuration } from '../services/sessionTimer';
+import { formatAmount } from '../services/units';
+
+interface Props {
+  unit: VolumeUnit;
+  onParse: (text: string) => Promise<Partial<LogEntry>[]>;
+  onConfirm: (entries: Partial<LogEntry>[]) => void;
+  onClose: () => void;
+}
+
+// Web Speech API is still prefixed in Chrome and Safari and, apart from its result types,
+// missing from the DOM typings. Only the parts used here are declared.
+interface SpeechRecognition {
+  lang: string;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+declare global {
+  interface Window {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  }
+}
+
+const SpeechRecognitionImpl: SpeechRecognitionConstructor | undefined = typeof window !== 'undefined'
+  ? window.SpeechRecognition || window.webkitSpeechRecognition
+  : undefined;
+
+const NaturalLogSheet: React.FC<Props> = ({ unit, onParse, onConfirm, onClose }) => {
+  const [text, setText] = useState('');
+  const [isListening, setIsListening] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parsed, setParsed] = useState<Partial<LogEntry>[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  const toggleListening = () => {
+    if (isListening) {
+      recognitionRef.current?.stop();
+      return;
+    }
+    if (!SpeechRecognitionImpl) return;
+    const recognition = new SpeechRecognitionImpl();
+    recognition.lang = navigator.language;
+    recognition.interimResults = true;
+    recognition.onresult = (event) => {
+      setText(Array.from(event.results).map(result => result[0].transcript).join(' '));
+    };
+    recognition.onerror = (event) => {
+      if (event.error !== 'aborted') setError('Could not hear that. Try again or type it instead.');
+    };
+    recognition.onend = () => setIsListening(false);
+    recognitionRef.current = recognition;
+    setError(null);
+    setParsed(null);
+    setIsListening(true);
+    recognition.start();
+  };
+
+  const parse = async () => {
+    if (!text.trim()) return;
+    recognitionRef.current?.stop();
+    setIsParsing(true);
+    setError(null);
+    const result = await onParse(text);
+    setIsParsing(false);
+    if (result.length === 0) {
+      setError('Nothing to log found in that. Try "120 ml bottle at 3:10, then wet diaper".');
+    }
+    setParsed(result.length > 0 ? result : null);
+  };
+
+  const describe = (entry: Partial<LogEntry>) => {
+    if (entry.amount !== undefined) return formatAmount(entry.amount, unit);
+    if (entry.duration !== undefined) return formatDuration(entry.duration);
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-400 font-black uppercase tracking-[0.2em] text-[10px]">Say it or type it</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setParsed(null); }}
+            placeholder="120 ml bottle at 3:10, then wet diaper"
+            rows={3}
+            className="flex-1 bg-slate-50 p-4 rounded-[1.5rem] font-bold text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner resize-none"
+          />
+          {SpeechRecognitionImpl && (
+            <button
+              onClick={toggleListening}
+              className={`w-14 h-14 shrink-0 rounded-2xl flex items-center justify-center active:scale-90 transition-all shadow-lg ${isListening ? 'bg-rose-500 text-white animate-pulse' : 'bg-indigo-50 text-indigo-600'}`}
+            >
+              {isListening ? <MicOff size={24} strokeWidth={3} /> : <Mic size={24} strokeWidth={3} />}
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-xs font-bold text-rose-500 px-2">{error}</p>}
+
+        {parsed && (
+          <div className="space-y-2">
+            {parsed.map((entry, index) => (
+              <div key={index} className="flex items-center justify-between bg-slate-50 p-4 rounded-2xl">
+                <div className="flex items-center gap-4">
+                  <span className="text-[10px] font-black text-slate-500 tabular-nums">
+                    {new Date(entry.timestamp!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className="font-black text-slate-900 text-sm">{getTypeLabel(entry.type!)}</span>
+                  {describe(entry) && <span className="text-xs font-black text-slate-400">{describe(entry)}</span>}
+                </div>
+                <button onClick={() => setParsed(parsed.filter((_, i) => i !== index))} className="text-slate-300 hover:text-rose-500 active:scale-75 transition-all">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {parsed && parsed.length > 0 ? (
+          <button
+            onClick={() => onConfirm(parsed)}
+            className="w-full py-6 bg-emerald-500 text-white rounded-[2.5rem] font-black text-base shadow-2xl shadow-emerald-200 active:scale-95 transition-all uppercase tracking-widest flex items-center justify-center gap-2"
+          >
+            <Check size={20} strokeWidth={3} /> Log {parsed.length} {parsed.length === 1 ? 'Entry' : 'Entries'}
+          </button>
+        ) : (
+          <button
+            onClick={parse}
+            disabled={isParsing || !text.trim()}
+            className="w-full py-6 bg-indigo-600 text-white rounded-[2.5rem] font-black text-base shadow-2xl shadow-indigo-200 active:scale-95 transition-all uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Sparkles size={20} strokeWidth={3} className={isParsing ? 'animate-spin' : ''} /> {isParsing ? 'Reading...' : 'Review'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NaturalLogSheet;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Droplet, Repeat, Undo2 } from 'lucide-react';
+import { BreastBalance } from '../services/analytics';
+import { SideBalances, SideSuggestion } from '../services/breastSides';
+import { formatDuration } from '../services/sessionTimer';
+
+interface Props {
+  suggestion: SideSuggestion;
+  balances: SideBalances;
+  onStart: () => void;
+  onSameSide: () => void;
+  onClearOverride: () => void;
+}
+
+const formatMinutes = (minutes: number) => minutes > 0 ? formatDuration(minutes) : '0m';
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const describe = ({ reason, lastFeed }: SideSuggestion) => {
+  if (reason === 'same-side') return 'Same side again, for cluster feeding';
+  if (!lastFeed) return '';
+  return reason === 'finished-on'
+    ? `Last feed at ${formatTime(lastFeed.start)} finished on the ${lastFeed.endSide}`
+    : `Last feed at ${formatTime(lastFeed.start)} was ${lastFeed.startSide} only`;
+};
+
+const BalanceBar: React.FC<{ label: string; balance: BreastBalance }> = ({ label, balance }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[10px] font-black uppercase tracking-wider text-slate-400">
+      <span>L {formatMinutes(balance.leftMinutes)}</span>
+      <span className="text-slate-300">{label}</span>
+      <span>R {formatMinutes(balance.rightMinutes)}</span>
+    </div>
+    <div className="h-2 rounded-full bg-slate-100 overflow-hidden flex">
+      {balance.leftShare !== null && (
+        <>
+          <div className="bg-rose-500" style={{ width: `${balance.leftShare * 100}%` }} />
+          <div className="bg-rose-300 flex-1" />
+        </>
+      )}
+    </div>
+  </div>
+);
+
+// Which breast to start on next, with a shortcut to start it, and the left/right time today
+// and this week
+const NextSideCard: React.FC<Props> = ({ suggestion, balances, onStart, onSameSide, onClearOverride }) => (
+  <section className="bg-white/80 backdrop-blur-md p-6 rounded-[3rem] border border-white shadow-xl shadow-slate-200/20 space-y-4">
+    <div className="flex items-center gap-4">
+      <button onClick={onStart} className="p-4 rounded-[1.5rem] bg-rose-500 text-white shadow-lg shadow-rose-200 active:scale-90 transition-transform">
+        <Droplet size={24} />
+      </button>
+      <div className="flex-1 min-w-0">
+        <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest leading-none mb-1">Next Feed</h2>
+        <p className="text-xl font-black text-slate-800">Start on <span className="text-rose-500 uppercase">{suggestion.side}</span></p>
+        <p className="text-[10px] font-bold text-slate-400 truncate">{describe(suggestion)}</p>
+      </div>
+      {suggestion.reason === 'same-side' ? (
+        <button onClick={onClearOverride} className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-transform">
+          <Undo2 size={12} strokeWidth={3} /> Undo
+        </button>
+      ) : (
+        <button onClick={onSameSide} className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-transform">
+          <Repeat size={12} strokeWidth={3} /> Same Side
+        </button>
+      )}
+    </div>
+    <div className="space-y-3">
+      <BalanceBar label="Today" balance={balances.today} />
+      <BalanceBar label="7 Days" balance={balances.week} />
+    </div>
+  </section>
+);
+
+export default NextSideCard;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { Minus, Plus, Sparkles, Target, X } from 'lucide-react';
+import { BabyProfile, FeedingSchedule, LogEntry } from '../types';
+import { getSchedule, suggestInterval } from '../services/scheduler';
+import { backtestPredictions, predictNextFeed } from '../services/feedPrediction';
+import { formatDuration } from '../services/sessionTimer';
+
+interface Props {
+  baby: BabyProfile;
+  entries: LogEntry[];
+  onChange: (schedule: FeedingSchedule) => void;
+  onClose: () => void;
+}
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+
+const ScheduleSheet: React.FC<Props> = ({ baby, entries, onChange, onClose }) => {
+  const schedule = getSchedule(baby);
+  const suggestion = suggestInterval(entries, baby);
+  const prediction = predictNextFeed(entries, schedule);
+  const backtest = backtestPredictions(baby, entries);
+  const formatMinutes = (minutes: number | null) => minutes === null ? '--' : formatDuration(Math.round(minutes));
+  const update = (patch: Partial<FeedingSchedule>) => onChange({ ...schedule, ...patch });
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+
+  const stepper = (key: 'dayIntervalMinutes' | 'nightIntervalMinutes', label: string) => (
+    <div className="flex items-center justify-between bg-slate-50 p-3 rounded-[1.5rem] shadow-inner">
+      <span className="text-[11px] font-black uppercase tracking-wider text-slate-500 px-2">{label}</span>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => update({ [key]: Math.max(60, schedule[key] - 15) })}
+          disabled={schedule.autoAdjust}
+          className="w-10 h-10 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md disabled:opacity-40"
+        >
+          <Minus size={18} strokeWidth={3} />
+        </button>
+        <span className="w-16 text-center font-black text-slate-900 tabular-nums">{formatDuration(schedule[key])}</span>
+        <button
+          onClick={() => update({ [key]: Math.min(8 * 60, schedule[key] + 15) })}
+          disabled={schedule.autoAdjust}
+          className="w-10 h-10 bg-white rounded-full flex items-center justify-center text-slate-700 active:scale-75 transition-all shadow-md disabled:opacity-40"
+        >
+          <Plus size={18} strokeWidth={3} />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">{baby.name}'s Schedule</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div className="space-y-3">
+          <label className={labelClass}>Feed Every</label>
+          {stepper('dayIntervalMinutes', 'Daytime')}
+          {stepper('nightIntervalMinutes', 'Night')}
+        </div>
+
+        <div>
+          <label className={labelClass}>Night Hours</label>
+          <div className="flex items-center gap-3">
+            {(['nightStartHour', 'nightEndHour'] as const).map((key, index) => (
+              <React.Fragment key={key}>
+                {index === 1 && <span className="text-xs font-black text-slate-400">to</span>}
+                <select
+                  value={schedule[key]}
+                  onChange={(e) => update({ [key]: Number(e.target.value) })}
+                  className="flex-1 bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none shadow-inner"
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>{formatHour(hour)}</option>
+                  ))}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Count From</label>
+          <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {(['start', 'end'] as const).map(anchor => (
+              <button
+                key={anchor}
+                onClick={() => update({ anchor })}
+                className={`py-3 rounded-2xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all ${schedule.anchor === anchor ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {anchor === 'start' ? 'Start of Feed' : 'End of Feed'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-indigo-50 p-5 rounded-[2rem] space-y-3">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <Sparkles size={16} strokeWidth={3} />
+            <span className="text-[10px] font-black uppercase tracking-widest">Suggested</span>
+          </div>
+          <p className="text-sm font-bold text-indigo-900">
+            Every {formatDuration(suggestion.dayIntervalMinutes)} by day, {formatDuration(suggestion.nightIntervalMinutes)} at night
+            <span className="block text-xs text-indigo-500 mt-1">
+              {suggestion.basis === 'history'
+                ? `Based on age and ${suggestion.observedFeeds} feeds in the last 3 days`
+                : baby.birthDate === undefined ? 'Add a birth date for an age-based suggestion' : 'Based on age; log more feeds to refine'}
+            </span>
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => update({ dayIntervalMinutes: suggestion.dayIntervalMinutes, nightIntervalMinutes: suggestion.nightIntervalMinutes, autoAdjust: false })}
+              className="flex-1 py-3 bg-white text-indigo-600 rounded-2xl text-[11px] font-black uppercase tracking-widest shadow-sm active:scale-95 transition-all"
+            >
+              Apply Once
+            </button>
+            <button
+              onClick={() => update({ autoAdjust: !schedule.autoAdjust })}
+              className={`flex-1 py-3 rounded-2xl text-[11px] font-black uppercase tracking-widest shadow-sm active:scale-95 transition-all ${schedule.autoAdjust ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-600'}`}
+            >
+              {schedule.autoAdjust ? 'Following' : 'Keep Adjusting'}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 p-5 rounded-[2rem] space-y-3">
+          <div className="flex items-center gap-2 text-slate-500">
+            <Target size={16} strokeWidth={3} />
+            <span className="text-[10px] font-black uppercase tracking-widest">Predicted from {baby.name}'s Rhythm</span>
+          </div>
+          {prediction ? (
+            <p className="text-sm font-bold text-slate-900">
+              Next feed around {new Date(prediction.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}, likely
+              {' '}{new Date(prediction.windowStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}–{new Date(prediction.windowEnd).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              <span className="block text-xs text-slate-400 mt-1">
+                Learned from time of day and feed size over the last 2 weeks · {prediction.confidence} confidence
+              </span>
+            </p>
+          ) : (
+            <p className="text-sm font-bold text-slate-400">Log a few more feeds to get a prediction.</p>
+          )}
+          {backtest.predictions > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: 'Typical Miss', value: formatMinutes(backtest.medianAbsErrorMinutes) },
+                { label: 'Average Miss', value: formatMinutes(backtest.meanAbsErrorMinutes) },
+                { label: 'In Window', value: `${Math.round((backtest.withinWindowShare ?? 0) * 100)}%` }
+              ].map(stat => (
+                <div key={stat.label} className="bg-white p-3 rounded-2xl text-center shadow-sm">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</p>
+                  <p className="text-sm font-black text-slate-900 tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {backtest.predictions > 0 && (
+            <p className="text-xs font-bold text-slate-400">
+              Checked against {backtest.predictions} past feeds. The schedule alone missed by {formatMinutes(backtest.scheduleMeanAbsErrorMinutes)} on average.
+            </p>
+          )}
+          <button
+            onClick={() => update({ predictive: !schedule.predictive })}
+            className={`w-full py-3 rounded-2xl text-[11px] font-black uppercase tracking-widest shadow-sm active:scale-95 transition-all ${schedule.predictive ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-600'}`}
+          >
+            {schedule.predictive ? 'Using Prediction' : 'Use for Reminders'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSheet;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Clock, Pause, Play, Repeat, X } from 'lucide-react';
+import { EntryType, TimerSession } from '../types';
+import {
+  formatClock,
+  getElapsedMs,
+  getSessionStart,
+  getSessionType,
+  getTypeMs,
+  isNursing,
+  isPaused
+} from '../services/sessionTimer';
+
+interface Props {
+  session: TimerSession;
+  label: string;
+  babyName?: string;
+  now: number;
+  onPause: () => void;
+  onResume: () => void;
+  onSwitchSide: () => void;
+  onSetStart: (start: number) => void;
+  onDiscard: () => void;
+  onFinish: () => void;
+}
+
+const toTimeInput = (timestamp: number) => new Date(timestamp).toTimeString().slice(0, 5);
+
+// Resolves an HH:MM pick to the most recent matching time at or before now
+const fromTimeInput = (value: string, now: number) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() > now) date.setDate(date.getDate() - 1);
+  return date.getTime();
+};
+
+const SessionTimerBar: React.FC<Props> = ({
+  session, label, babyName, now, onPause, onResume, onSwitchSide, onSetStart, onDiscard, onFinish
+}) => {
+  const [isEditingStart, setIsEditingStart] = useState(false);
+  const paused = isPaused(session);
+  const type = getSessionType(session);
+  const sideTime = (side: EntryType) => formatClock(getTypeMs(session, side, now));
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-2xl p-6 rounded-[2.5rem] text-white shadow-[0_30px_60px_-15px_rgba(0,0,0,0.5)] animate-in slide-in-from-bottom-12 ring-4 ring-indigo-500/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-5">
+          <div className={`w-14 h-14 rounded-3xl flex items-center justify-center shadow-xl ${paused ? 'bg-slate-700' : 'bg-indigo-500 animate-pulse shadow-indigo-500/30'}`}>
+            <Clock size={28} />
+          </div>
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest opacity-50">{paused ? 'Paused' : 'Active Session'}</p>
+            <p className="font-black text-base">{label}</p>
+            {babyName && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-indigo-300">{babyName}</p>
+            )}
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-black tabular-nums">{formatClock(getElapsedMs(session, now))}</p>
+          {isEditingStart ? (
+            <input
+              type="time"
+              defaultValue={toTimeInput(getSessionStart(session))}
+              onBlur={(e) => { if (e.target.value) onSetStart(fromTimeInput(e.target.value, now)); setIsEditingStart(false); }}
+              className="bg-slate-800 text-white text-xs font-black rounded-xl px-2 py-1 outline-none tabular-nums"
+              autoFocus
+            />
+          ) : (
+            <button onClick={() => setIsEditingStart(true)} className="text-[10px] font-black uppercase tracking-widest opacity-50 active:scale-90 transition-transform">
+              Started {new Date(getSessionStart(session)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isNursing(type) && (
+        <div className="grid grid-cols-2 gap-3 text-center">
+          {(['breast_left', 'breast_right'] as EntryType[]).map(side => (
+            <div key={side} className={`py-2 rounded-2xl ${type === side && !paused ? 'bg-rose-500/30 text-white' : 'bg-slate-800 text-slate-400'}`}>
+              <p className="text-[9px] font-black uppercase tracking-widest">{side === 'breast_left' ? 'Left' : 'Right'}</p>
+              <p className="text-sm font-black tabular-nums">{sideTime(side)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button onClick={onDiscard} className="p-4 bg-slate-800 text-slate-400 rounded-[1.5rem] active:scale-90 transition-all">
+          <X size={18} strokeWidth={3} />
+        </button>
+        <button onClick={paused ? onResume : onPause} className="flex-1 py-4 bg-slate-700 text-white rounded-[1.5rem] font-black text-xs active:scale-90 transition-all uppercase tracking-widest flex items-center justify-center gap-2">
+          {paused ? <Play size={14} strokeWidth={3} /> : <Pause size={14} strokeWidth={3} />}
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        {isNursing(type) && (
+          <button onClick={onSwitchSide} className="flex-1 py-4 bg-slate-700 text-white rounded-[1.5rem] font-black text-xs active:scale-90 transition-all uppercase tracking-widest flex items-center justify-center gap-2">
+            <Repeat size={14} strokeWidth={3} /> Switch
+          </button>
+        )}
+        <button onClick={onFinish} className="flex-1 py-4 bg-rose-500 text-white rounded-[1.5rem] font-black text-xs active:scale-90 transition-all shadow-xl shadow-rose-500/20 uppercase tracking-widest">Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimerBar;
@@ -0,0 +1,197 @@
+import React from 'react';
+import { ChevronRight, X } from 'lucide-react';
+import { AIProviderId, AISettings, AppSettings, MeasurementSystem, ReminderSettings, VolumeUnit } from '../types';
+import { AI_PROVIDERS, GEMINI_DEFAULT_MODELS, OPENAI_DEFAULT_MODEL, sendsDataOffDevice, updateAISettings } from '../services/ai';
+import { supportsTriggeredNotifications } from '../services/notifications';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+  onOpenData: () => void;
+  onOpenSync: () => void;
+  onClose: () => void;
+}
+
+const LEAD_OPTIONS = [0, 5, 10, 15];
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+
+const SettingsSheet: React.FC<Props> = ({ settings, onChange, onOpenData, onOpenSync, onClose }) => {
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+  const { reminders } = settings;
+  const updateReminders = (patch: Partial<ReminderSettings>) => onChange({ reminders: { ...reminders, ...patch } });
+  const { ai } = settings;
+  const updateAI = (patch: Partial<AISettings>) => onChange({ ai: updateAISettings(ai, patch) });
+  const inputClass = 'w-full bg-slate-50 p-4 rounded-2xl font-bold text-slate-900 text-sm outline-none shadow-inner';
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">Settings</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Bottle Volume</label>
+          <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {(['oz', 'ml'] as VolumeUnit[]).map(unit => (
+              <button
+                key={unit}
+                onClick={() => onChange({ unit })}
+                className={`py-3 rounded-2xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all ${settings.unit === unit ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {unit === 'oz' ? 'Ounces (oz)' : 'Milliliters (ml)'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Weight, Length & Temperature</label>
+          <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {(['metric', 'imperial'] as MeasurementSystem[]).map(measurement => (
+              <button
+                key={measurement}
+                onClick={() => onChange({ measurement })}
+                className={`py-3 rounded-2xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all ${settings.measurement === measurement ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {measurement === 'metric' ? 'kg · cm · °C' : 'lb · in · °F'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Remind Me Before a Feed</label>
+          <div className="grid grid-cols-4 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {LEAD_OPTIONS.map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => updateReminders({ leadMinutes: minutes })}
+                className={`py-3 rounded-2xl text-xs font-black uppercase tracking-widest active:scale-95 transition-all ${reminders.leadMinutes === minutes ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {minutes === 0 ? 'Off' : `${minutes}m`}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs font-bold text-slate-400 px-2 mt-2">
+            {supportsTriggeredNotifications()
+              ? 'Reminders arrive even when NurtureTrack is closed.'
+              : "Reminders only arrive while NurtureTrack is open, in a tab or as an installed app. This browser can't schedule them for when it's closed."}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between px-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Quiet Hours</label>
+            <button
+              onClick={() => updateReminders({ quietHoursEnabled: !reminders.quietHoursEnabled })}
+              className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-all ${reminders.quietHoursEnabled ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}
+            >
+              {reminders.quietHoursEnabled ? 'On' : 'Off'}
+            </button>
+          </div>
+          {reminders.quietHoursEnabled && (
+            <>
+              <div className="flex items-center gap-3">
+                {(['quietStartHour', 'quietEndHour'] as const).map((key, index) => (
+                  <React.Fragment key={key}>
+                    {index === 1 && <span className="text-xs font-black text-slate-400">to</span>}
+                    <select
+                      value={reminders[key]}
+                      onChange={(e) => updateReminders({ [key]: Number(e.target.value) })}
+                      className="flex-1 bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none shadow-inner"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{formatHour(hour)}</option>
+                      ))}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="text-xs font-bold text-slate-400 px-2">No early reminders, and feed alerts arrive silently.</p>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <label className={labelClass}>AI Assistant</label>
+          <div className="grid grid-cols-3 gap-2 bg-slate-50 p-2 rounded-[1.5rem] shadow-inner">
+            {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(provider => (
+              <button
+                key={provider}
+                onClick={() => updateAI({ provider })}
+                className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all ${ai.provider === provider ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400'}`}
+              >
+                {AI_PROVIDERS[provider].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs font-bold text-slate-400 px-2">{AI_PROVIDERS[ai.provider].description}</p>
+
+          {ai.provider === 'openai' && (
+            <input value={ai.baseUrl} onChange={(e) => updateAI({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+          )}
+          {ai.provider !== 'mock' && (
+            <>
+              <input
+                value={ai.model}
+                onChange={(e) => updateAI({ model: e.target.value })}
+                placeholder={`Model (default ${ai.provider === 'gemini' ? GEMINI_DEFAULT_MODELS.insights : OPENAI_DEFAULT_MODEL})`}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={ai.apiKey}
+                onChange={(e) => updateAI({ apiKey: e.target.value })}
+                placeholder={ai.provider === 'gemini' ? 'API key (optional if the app has one)' : 'API key (if the server needs one)'}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </>
+          )}
+
+          {sendsDataOffDevice(ai) ? (
+            <div className="bg-slate-50 p-4 rounded-2xl space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-black text-slate-900 uppercase tracking-widest">Share Logs</span>
+                <button
+                  onClick={() => updateAI({ shareData: !ai.shareData })}
+                  className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest active:scale-90 transition-all ${ai.shareData ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-400'}`}
+                >
+                  {ai.shareData ? 'On' : 'Off'}
+                </button>
+              </div>
+              <p className="text-xs font-bold text-slate-400">
+                {ai.shareData
+                  ? `Insights and text logging send recent entries and your baby's name to ${AI_PROVIDERS[ai.provider].label}.`
+                  : 'Nothing leaves this device. Insights are off, and text logging uses the built-in parser.'}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs font-bold text-emerald-600 px-2">Requests stay on this device.</p>
+          )}
+        </div>
+
+        <button
+          onClick={onOpenSync}
+          className="w-full flex items-center justify-between bg-slate-50 p-5 rounded-[2rem] active:scale-95 transition-all"
+        >
+          <span className="text-xs font-black text-slate-900 uppercase tracking-widest">Sync with Partner</span>
+          <ChevronRight size={18} className="text-slate-400" />
+        </button>
+
+        <button
+          onClick={onOpenData}
+          className="w-full flex items-center justify-between bg-slate-50 p-5 rounded-[2rem] active:scale-95 transition-all"
+        >
+          <span className="text-xs font-black text-slate-900 uppercase tracking-widest">Backup & Export</span>
+          <ChevronRight size={18} className="text-slate-400" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsSheet;
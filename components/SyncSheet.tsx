@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, X } from 'lucide-react';
+import { SyncConfig, SyncState } from '../types';
+import { createHouseholdId, SyncStatus } from '../services/sync';
+
+interface Props {
+  sync: SyncState;
+  status: SyncStatus;
+  statusMessage: string | null;
+  onConnect: (config: SyncConfig) => void;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline, changes are queued',
+  error: 'Sync failed'
+};
+
+const SyncSheet: React.FC<Props> = ({ sync, status, statusMessage, onConnect, onDisconnect, onSyncNow, onClose }) => {
+  const labelClass = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 mb-2';
+  const inputClass = 'w-full bg-slate-50 p-4 rounded-2xl font-black text-slate-900 outline-none focus:ring-4 focus:ring-indigo-100 shadow-inner';
+  const [serverUrl, setServerUrl] = useState(sync.config?.serverUrl ?? 'http://localhost:8787');
+  const [caregiverName, setCaregiverName] = useState(sync.config?.caregiverName ?? '');
+  const [householdId, setHouseholdId] = useState('');
+  const canConnect = /^https?:\/\/\S+$/.test(serverUrl.trim()) && caregiverName.trim() !== '';
+
+  const connect = (id: string) => onConnect({ serverUrl: serverUrl.trim(), householdId: id, caregiverName: caregiverName.trim() });
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-end justify-center p-6 bg-black/70 backdrop-blur-xl animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar rounded-[3rem] p-8 shadow-3xl animate-in slide-in-from-bottom-12 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-900 text-xl font-black tracking-tight">Sync with Partner</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-900 active:scale-75 transition-all"><X size={32} /></button>
+        </div>
+
+        {sync.config ? (
+          <>
+            <div className={`flex items-start gap-3 p-4 rounded-2xl ${status === 'error' ? 'bg-rose-50' : status === 'offline' ? 'bg-amber-50' : 'bg-emerald-50'}`}>
+              {status === 'offline' || status === 'error' ? <CloudOff size={20} className="shrink-0 text-slate-500" /> : <Cloud size={20} className="shrink-0 text-emerald-600" />}
+              <div className="min-w-0">
+                <p className="text-sm font-black text-slate-900">{STATUS_LABELS[status]}</p>
+                <p className="text-xs font-bold text-slate-500">
+                  {sync.pending.length > 0 ? `${sync.pending.length} change${sync.pending.length === 1 ? '' : 's'} waiting · ` : ''}
+                  {sync.lastSyncedAt ? `last synced ${new Date(sync.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'not synced yet'}
+                </p>
+                {status === 'error' && statusMessage && <p className="text-xs font-bold text-rose-600">{statusMessage}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Household Code</label>
+              <p className="bg-slate-50 p-4 rounded-2xl font-black text-slate-900 tracking-widest text-center select-all shadow-inner">{sync.config.householdId}</p>
+              <p className="text-xs font-bold text-slate-400 px-2 mt-2">Enter this code and {sync.config.serverUrl} on your partner's phone. Anyone with the code can see the log.</p>
+            </div>
+
+            <p className="text-xs font-bold text-slate-500 px-2">Logging as <span className="text-slate-900">{sync.config.caregiverName}</span></p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={onSyncNow} className="flex items-center justify-center gap-2 bg-indigo-50 text-indigo-600 py-4 rounded-[2rem] text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all">
+                <RefreshCw size={14} strokeWidth={3} className={status === 'syncing' ? 'animate-spin' : ''} /> Sync Now
+              </button>
+              <button onClick={onDisconnect} className="bg-slate-50 text-rose-500 py-4 rounded-[2rem] text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all">
+                Disconnect
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm font-bold text-slate-500 px-2">Share one log between two phones through a server you run yourself (see the README). Entries keep working offline and sync when the server is reachable.</p>
+            <div>
+              <label className={labelClass}>Server Address</label>
+              <input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder="https://sync.example.com" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Your Name</label>
+              <input value={caregiverName} onChange={(e) => setCaregiverName(e.target.value)} placeholder="e.g. Sam" className={inputClass} />
+            </div>
+            <button
+              disabled={!canConnect}
+              onClick={() => connect(createHouseholdId())}
+              className="w-full bg-indigo-600 text-white py-5 rounded-[2rem] font-black text-sm uppercase tracking-widest shadow-xl shadow-indigo-200 active:scale-95 transition-all disabled:opacity-40"
+            >
+              Create Household
+            </button>
+            <div>
+              <label className={labelClass}>Or Join with a Code</label>
+              <div className="flex gap-2">
+                <input value={householdId} onChange={(e) => setHouseholdId(e.target.value.trim())} placeholder="Household code" className={inputClass} />
+                <button
+                  disabled={!canConnect || householdId.length < 8}
+                  onClick={() => connect(householdId)}
+                  className="bg-indigo-50 text-indigo-600 px-5 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all disabled:opacity-40"
+                >
+                  Join
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncSheet;
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadPersistedData } from './services/storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,10 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+loadPersistedData().then(({ data }) => {
+  root.render(
+    <React.StrictMode>
+      <App initialData={data} />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,126 @@
+// NurtureTrack service worker: the offline app shell, scheduled reminders and their snooze actions.
+
+// The build replaces the placeholder with { version, files } (see vite.config.ts). Under the
+// dev server it stays undefined and the worker leaves every request to the network.
+const PRECACHE = self.__PRECACHE_MANIFEST__ || { version: 'dev', files: [] };
+const PRECACHE_NAME = `nurture-precache-${PRECACHE.version}`;
+const RUNTIME_NAME = 'nurture-runtime';
+const PRECACHED_PATHS = new Set(PRECACHE.files);
+
+// Styles, fonts and modules loaded from CDNs are cached as they are used, so the app still
+// renders offline after one online visit. Anything else, Gemini and the sync server included,
+// always goes to the network.
+const RUNTIME_ORIGINS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+  'https://esm.sh'
+];
+
+// A new version installs next to the running one and waits until the page asks it to take over
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(PRECACHE_NAME).then((cache) => cache.addAll(PRECACHE.files)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('nurture-precache-') && name !== PRECACHE_NAME)
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages come from the network when it answers so a deploy shows up, else from the precache
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match('/index.html', { cacheName: PRECACHE_NAME });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request, { cacheName: PRECACHE_NAME });
+  return cached || fetch(request);
+};
+
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(RUNTIME_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request).then((response) => {
+    // CDN scripts load without CORS, so their responses are opaque; cache those too
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => {}));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || PRECACHE.version === 'dev') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && PRECACHED_PATHS.has(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+// Replaces the set of pending triggered notifications with the plan sent by the page
+const scheduleReminders = async (reminders) => {
+  if (!('TimestampTrigger' in self)) return;
+  const now = Date.now();
+  const wanted = new Set(reminders.map((r) => r.id));
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+
+  pending.forEach((notification) => {
+    const data = notification.data || {};
+    if (data.reminderId && data.fireAt > now && !wanted.has(data.reminderId)) notification.close();
+  });
+
+  const scheduled = new Set(pending.map((n) => n.data && n.data.reminderId));
+  for (const reminder of reminders) {
+    if (scheduled.has(reminder.id) || reminder.fireAt <= now) continue;
+    await self.registration.showNotification(reminder.title, {
+      ...reminder.options,
+      showTrigger: new TimestampTrigger(reminder.fireAt)
+    });
+  }
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SCHEDULE_REMINDERS') {
+    event.waitUntil(scheduleReminders(event.data.reminders || []));
+  }
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Snoozes are applied by the app, which owns the schedule. Open windows get a message;
+// otherwise the app is opened with the action in its URL.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  if (!data.babyId) return;
+  const action = event.action || 'open';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach((client) => client.postMessage({ type: 'REMINDER_CLICK', action, babyId: data.babyId }));
+      if (action === 'open') await windows[0].focus();
+      return;
+    }
+    await self.clients.openWindow(`/?reminderAction=${encodeURIComponent(action)}&baby=${encodeURIComponent(data.babyId)}`);
+  })());
+});
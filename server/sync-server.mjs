@@ -0,0 +1,171 @@
+// Self-hostable sync server for NurtureTrack. No dependencies: `npm run sync-server`, or
+// `node server/sync-server.mjs`. Settings come from the environment:
+//   PORT      port to listen on (default 8787)
+//   DATA_DIR  where each household's records are kept as JSON (default ./sync-data)
+//
+// A household is identified by a long random id the app generates; knowing the id is what
+// grants access, so put the server behind HTTPS when it is reachable from the internet.
+//
+//   GET  /households/:id/records?since=<seq>  changes after a sequence number, oldest first
+//   POST /households/:id/records              { records: SyncRecord[] }, last writer wins per record
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const PAGE_SIZE = 500;
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // profile photos travel as data URLs
+const HOUSEHOLD_ID = /^[A-Za-z0-9_-]{8,64}$/;
+const ROUTE = /^\/households\/([^/]+)\/records\/?$/;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+// Same rule as the app: later updatedAt wins, an exact tie goes to the larger serialised value
+const wins = (a, b) =>
+  a.updatedAt !== b.updatedAt
+    ? a.updatedAt > b.updatedAt
+    : JSON.stringify(a.deleted ? null : a.data ?? null) > JSON.stringify(b.deleted ? null : b.data ?? null);
+
+const isValidRecord = (record) =>
+  record !== null && typeof record === 'object'
+  && (record.kind === 'baby' || record.kind === 'entry')
+  && typeof record.id === 'string' && record.id.length > 0
+  && Number.isFinite(record.updatedAt)
+  && typeof record.deviceId === 'string'
+  && (record.deleted === true || (record.data !== null && typeof record.data === 'object'));
+
+export const createSyncServer = ({ dataDir = './sync-data' } = {}) => {
+  const households = new Map(); // id -> { seq, records: Map<key, record> }
+  let writes = Promise.resolve();
+
+  const load = async (id) => {
+    if (households.has(id)) return households.get(id);
+    let household = { seq: 0, records: new Map() };
+    try {
+      const saved = JSON.parse(await readFile(join(dataDir, `${id}.json`), 'utf8'));
+      household = { seq: saved.seq, records: new Map(saved.records.map(record => [`${record.kind}:${record.id}`, record])) };
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    households.set(id, household);
+    return household;
+  };
+
+  // Written to a temporary file and renamed so a crash never leaves half a file behind
+  const save = async (id, seq, records) => {
+    await mkdir(dataDir, { recursive: true });
+    const file = join(dataDir, `${id}.json`);
+    await writeFile(`${file}.tmp`, JSON.stringify({ seq, records: [...records.values()] }));
+    await rename(`${file}.tmp`, file);
+  };
+
+  // Merges pushed records one push at a time. The household in memory only changes once the file
+  // is written, so a failed write leaves both as they were and the client's retry is accepted.
+  // A failure doesn't block the pushes queued behind it.
+  const merge = (id, household, pushed) => {
+    const task = writes.catch(() => {}).then(async () => {
+      const records = new Map(household.records);
+      let seq = household.seq;
+      let accepted = 0;
+      pushed.forEach(record => {
+        const key = `${record.kind}:${record.id}`;
+        const existing = records.get(key);
+        if (existing && !wins(record, existing)) return;
+        seq += 1;
+        records.set(key, { ...record, seq });
+        accepted++;
+      });
+      if (accepted > 0) {
+        await save(id, seq, records);
+        household.seq = seq;
+        household.records = records;
+      }
+      return accepted;
+    });
+    writes = task;
+    return task;
+  };
+
+  const readBody = (req) => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('payload too large'), { status: 413 }));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const handle = async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      return res.end();
+    }
+    const url = new URL(req.url, 'http://localhost');
+    const match = ROUTE.exec(url.pathname);
+    if (!match) return send(res, 404, { error: 'not found' });
+    const id = decodeURIComponent(match[1]);
+    if (!HOUSEHOLD_ID.test(id)) return send(res, 400, { error: 'invalid household id' });
+    const household = await load(id);
+
+    if (req.method === 'GET') {
+      const requested = Number(url.searchParams.get('since') ?? 0);
+      const since = Number.isFinite(requested) && requested > 0 ? requested : 0;
+      const changes = [...household.records.values()]
+        .filter(record => record.seq > since)
+        .sort((a, b) => a.seq - b.seq);
+      const page = changes.slice(0, PAGE_SIZE);
+      return send(res, 200, {
+        records: page,
+        // A cursor from before a server reset is pulled back so no later change is skipped
+        cursor: page.length > 0 ? page[page.length - 1].seq : Math.min(since, household.seq),
+        hasMore: changes.length > PAGE_SIZE
+      });
+    }
+
+    if (req.method === 'POST') {
+      let body;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (error) {
+        return send(res, error.status ?? 400, { error: error.status ? error.message : 'invalid JSON' });
+      }
+      if (!Array.isArray(body?.records) || !body.records.every(isValidRecord)) return send(res, 400, { error: 'invalid records' });
+
+      const accepted = await merge(id, household, body.records);
+      return send(res, 200, { accepted, cursor: household.seq });
+    }
+
+    return send(res, 405, { error: 'method not allowed' });
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error(error);
+      send(res, 500, { error: 'internal error' });
+    });
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const port = Number(process.env.PORT ?? 8787);
+  createSyncServer({ dataDir: process.env.DATA_DIR ?? './sync-data' }).listen(port, () => {
+    console.log(`NurtureTrack sync server listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSyncServer } from './sync-server.mjs';
+
+const HOUSEHOLD = 'household-test-1';
+
+const entry = (id, updatedAt, amount = 90) =>
+  ({ kind: 'entry', id, babyId: 'baby', updatedAt, deviceId: 'a', data: { id, type: 'bottle', timestamp: 500, amount } });
+
+describe('sync server', () => {
+  let dir;
+  let servers;
+
+  const start = async (dataDir = join(dir, 'data')) => {
+    const server = createSyncServer({ dataDir });
+    servers.push(server);
+    await new Promise(resolve => server.listen(0, resolve));
+    const base = `http://localhost:${server.address().port}/households/${HOUSEHOLD}/records`;
+    return {
+      push: async (records) => {
+        const response = await fetch(base, { method: 'POST', body: JSON.stringify({ records }) });
+        return { status: response.status, body: await response.json() };
+      },
+      pull: async (since) => (await fetch(`${base}?since=${since}`)).json()
+    };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sync-server-'));
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns changes after the cursor, a page at a time', async () => {
+    const { push, pull } = await start();
+    const records = Array.from({ length: 501 }, (_, i) => entry(`e${i}`, 1000 + i));
+    expect(await push(records)).toEqual({ status: 200, body: { accepted: 501, cursor: 501 } });
+
+    const first = await pull(0);
+    expect(first).toMatchObject({ cursor: 500, hasMore: true });
+    expect(first.records).toHaveLength(500);
+    expect(first.records[0]).toMatchObject({ id: 'e0', seq: 1 });
+
+    const second = await pull(first.cursor);
+    expect(second).toMatchObject({ cursor: 501, hasMore: false });
+    expect(second.records.map(r => r.id)).toEqual(['e500']);
+
+    expect(await pull(501)).toEqual({ records: [], cursor: 501, hasMore: false });
+  });
+
+  it('pulls a cursor from before a reset back to the last change', async () => {
+    const { push, pull } = await start();
+    await push([entry('e1', 1000)]);
+    expect(await pull(40)).toEqual({ records: [], cursor: 1, hasMore: false });
+  });
+
+  it('keeps the later write of each record', async () => {
+    const { push, pull } = await start();
+    await push([entry('e1', 2000, 90)]);
+    expect((await push([entry('e1', 1000, 120)])).body.accepted).toBe(0);
+    expect((await push([entry('e1', 3000, 150)])).body).toEqual({ accepted: 1, cursor: 2 });
+    expect((await push([{ ...entry('e1', 4000), data: undefined, deleted: true }])).body.accepted).toBe(1);
+
+    const { records } = await pull(0);
+    expect(records).toEqual([expect.objectContaining({ id: 'e1', updatedAt: 4000, deleted: true, seq: 3 })]);
+  });
+
+  it('keeps records across restarts', async () => {
+    await (await start()).push([entry('e1', 1000)]);
+    const { pull } = await start();
+    expect((await pull(0)).records.map(r => r.id)).toEqual(['e1']);
+  });
+
+  it('accepts a push again after a write failed', async () => {
+    // A directory where the temporary file goes makes the first write fail
+    const dataDir = join(dir, 'data');
+    const blocker = join(dataDir, `${HOUSEHOLD}.json.tmp`);
+    await mkdir(blocker, { recursive: true });
+    const { push, pull } = await start(dataDir);
+    expect((await push([entry('e1', 1000)])).status).toBe(500);
+    expect(await pull(0)).toEqual({ records: [], cursor: 0, hasMore: false });
+
+    await rm(blocker, { recursive: true });
+    expect(await push([entry('e1', 1000)])).toEqual({ status: 200, body: { accepted: 1, cursor: 1 } });
+    expect((await pull(0)).records.map(r => r.id)).toEqual(['e1']);
+  });
+
+  it('rejects malformed pushes', async () => {
+    const { push } = await start();
+    expect((await push([{ kind: 'entry', id: 'e1' }])).status).toBe(400);
+  });
+});
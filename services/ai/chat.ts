@@ -0,0 +1,55 @@
+import { VolumeUnit } from '../../types';
+import { getAgeLabel } from '../babyProfiles';
+import { formatLocal } from './context';
+import { LOG_TOOLS, runTool, ToolContext } from './tools';
+import { ChatItem, InsightsProvider } from './types';
+
+// Questions about the log, answered by a model that looks the facts up through LOG_TOOLS. The
+// model decides which lookups it needs; the lookups themselves run here.
+
+const MAX_STEPS = 5; // model turns per question, so a model stuck calling tools still ends
+
+export interface ChatAnswer {
+  text: string;
+  items: ChatItem[]; // the whole transcript, to pass back as history for a follow-up
+  toolsUsed: string[];
+}
+
+export const buildChatSystemPrompt = ({ baby, now }: ToolContext, unit: VolumeUnit) => {
+  const current = new Date(now);
+  return `You answer questions from the parents of a baby named ${baby.name} (${getAgeLabel(baby, now) ?? 'age unknown'}) about their care log.
+  It is now ${formatLocal(now)} local time, a ${current.toLocaleDateString('en-US', { weekday: 'long' })}.
+  Look up every fact with the tools; never guess or count from memory. Work out dates like "yesterday" or "Monday" from today's date.
+  Tools give volumes in ml; the parents use ${unit}, so give amounts in ${unit === 'oz' ? 'oz (30 ml to the oz)' : 'ml'}.
+  Answer in one to three short, plain sentences with the numbers that matter. If the log doesn't have the answer, say so.
+  Don't diagnose. For a fever or anything that could need a doctor, say so plainly.`;
+};
+
+// Asks one question, running tool calls until the model answers in text. `history` is the
+// transcript of earlier questions in the same conversation.
+export const askAboutLog = async (
+  provider: InsightsProvider,
+  question: string,
+  history: ChatItem[],
+  context: ToolContext,
+  unit: VolumeUnit
+): Promise<ChatAnswer> => {
+  const system = buildChatSystemPrompt(context, unit);
+  const items: ChatItem[] = [...history, { role: 'user', text: question }];
+  const toolsUsed: string[] = [];
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const turn = await provider.chat({ system, items, tools: LOG_TOOLS });
+    const toolCalls = turn.toolCalls ?? [];
+    items.push({ role: 'assistant', text: turn.text, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, raw: turn.raw });
+    if (toolCalls.length === 0) {
+      if (!turn.text?.trim()) throw new Error('The model replied without an answer');
+      return { text: turn.text.trim(), items, toolsUsed };
+    }
+    toolCalls.forEach(call => {
+      if (!toolsUsed.includes(call.name)) toolsUsed.push(call.name);
+      items.push({ role: 'tool', callId: call.id, name: call.name, result: runTool(call, context) });
+    });
+  }
+  throw new Error('The model kept looking things up without answering');
+};
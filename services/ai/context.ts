@@ -0,0 +1,143 @@
+import { BabyProfile, FeedingSchedule, LogEntry } from '../../types';
+import { getBreastBalance, getDailyStats, TimeRange } from '../analytics';
+import { getAgeInDays, getAgeLabel } from '../babyProfiles';
+import { predictNextFeed } from '../feedPrediction';
+import { getHealthThresholds } from '../healthFlags';
+import { getSchedule } from '../scheduler';
+
+// What an insight request sends: per-day aggregates worked out here, so the model reasons over
+// totals instead of counting raw rows, plus the individual entries it may point at. Anything
+// the model says about a specific event has to cite one of these ids.
+
+const RECENT_HOURS = 48;
+const MAX_ENTRIES = 80;
+
+export interface DailySummary {
+  date: string; // YYYY-MM-DD, local
+  feeds: number;
+  bottleMl: number;
+  breastMinutes: { left: number; right: number };
+  pumpedMl: number;
+  sleepMinutes: { day: number; night: number };
+  wetDiapers: number;
+  dirtyDiapers: number;
+  medications: string[];
+  maxTemperatureC: number | null;
+}
+
+// An entry the model can cite; times are local and volumes in ml
+export interface ContextEntry {
+  id: string;
+  type: string;
+  time: string; // YYYY-MM-DD HH:MM
+  durationMinutes?: number;
+  amountMl?: number;
+  sidesMinutes?: { left: number; right: number };
+  medicine?: string;
+  food?: string;
+  reaction?: string;
+  temperatureC?: number;
+  weightKg?: number;
+  lengthCm?: number;
+  note?: string;
+}
+
+export interface InsightsContext {
+  babyName: string;
+  ageDays: number | null;
+  ageLabel: string | null;
+  today: string;
+  days: DailySummary[]; // oldest first, today last and partial
+  entries: ContextEntry[]; // newest first
+  predictedNextFeed: { time: string; windowStart: string; windowEnd: string; confidence: string } | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatLocal = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const round = (value: number) => Math.round(value);
+
+export const toContextEntry = (entry: LogEntry): ContextEntry => ({
+  id: entry.id,
+  type: entry.type,
+  time: formatLocal(entry.timestamp),
+  durationMinutes: entry.duration !== undefined ? round(entry.duration) : undefined,
+  amountMl: entry.amount !== undefined ? round(entry.amount) : undefined,
+  sidesMinutes: entry.sides,
+  medicine: entry.medicine,
+  food: entry.food,
+  reaction: entry.reaction,
+  temperatureC: entry.temperature,
+  weightKg: entry.weight,
+  lengthCm: entry.length,
+  note: entry.note
+});
+
+// Worth citing even when older than the recent window
+const isNotable = (entry: LogEntry, feverCelsius: number) =>
+  entry.type === 'medication' || entry.type === 'growth' || entry.note !== undefined
+  || entry.reaction === 'allergy' || (entry.temperature !== undefined && entry.temperature >= feverCelsius);
+
+const getDayRange = (date: string): TimeRange => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { start: new Date(year, month - 1, day).getTime(), end: new Date(year, month - 1, day + 1).getTime() };
+};
+
+export const getDailySummaries = (entries: LogEntry[], range: TimeRange, schedule: FeedingSchedule): DailySummary[] =>
+  getDailyStats(entries, range, schedule).map(stats => {
+    const dayRange = getDayRange(stats.date);
+    const dayEntries = entries.filter(e => e.timestamp >= dayRange.start && e.timestamp < dayRange.end);
+    const breast = getBreastBalance(entries, dayRange);
+    const temperatures = dayEntries.filter(e => e.temperature !== undefined).map(e => e.temperature!);
+    return {
+      date: stats.date,
+      feeds: stats.feeds,
+      bottleMl: round(stats.intakeMl),
+      breastMinutes: { left: round(breast.leftMinutes), right: round(breast.rightMinutes) },
+      pumpedMl: round(stats.pumpedMl),
+      sleepMinutes: { day: round(stats.daySleepMinutes), night: round(stats.nightSleepMinutes) },
+      wetDiapers: stats.wetDiapers,
+      dirtyDiapers: stats.dirtyDiapers,
+      medications: [...new Set(dayEntries.filter(e => e.medicine).map(e => e.medicine!))],
+      maxTemperatureC: temperatures.length > 0 ? Math.max(...temperatures) : null
+    };
+  });
+
+// The last `days` calendar days, today included. Built only from the data and the date, so an
+// unchanged log gives an identical context and a cached answer can be reused.
+export const buildInsightsContext = (baby: BabyProfile, entries: LogEntry[], now = Date.now(), days = 7): InsightsContext => {
+  const schedule = getSchedule(baby);
+  const firstDay = new Date(now);
+  firstDay.setHours(0, 0, 0, 0);
+  firstDay.setDate(firstDay.getDate() - (days - 1));
+  const windowStart = firstDay.getTime();
+  const summaries = getDailySummaries(entries, { start: windowStart, end: now }, schedule);
+
+  // Everything from the last two days, and older entries only when notable
+  const recentFrom = now - RECENT_HOURS * 60 * 60 * 1000;
+  const { feverCelsius } = getHealthThresholds(baby, now);
+  const cited = entries
+    .filter(e => e.timestamp <= now && e.timestamp >= windowStart && (e.timestamp >= recentFrom || isNotable(e, feverCelsius)))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_ENTRIES);
+
+  const prediction = predictNextFeed(entries, schedule, now);
+  return {
+    babyName: baby.name,
+    ageDays: getAgeInDays(baby, now),
+    ageLabel: getAgeLabel(baby, now),
+    today: formatLocal(now).slice(0, 10),
+    days: summaries,
+    entries: cited.map(toContextEntry),
+    predictedNextFeed: prediction && {
+      time: formatLocal(prediction.time),
+      windowStart: formatLocal(prediction.windowStart),
+      windowEnd: formatLocal(prediction.windowEnd),
+      confidence: prediction.confidence
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { Content, GoogleGenAI } from '@google/genai';
+import { createPromptedProvider } from './prompts';
+import { ChatItem, InsightsProvider, JsonTask } from './types';
+
+// Pro for insights, which need reasoning over the logs; Flash for quick log parsing and for
+// chat, where the tools do the counting
+export const GEMINI_DEFAULT_MODELS: Record<JsonTask | 'chat', string> = {
+  insights: 'gemini-3-pro-preview',
+  parse: 'gemini-3-flash-preview',
+  chat: 'gemini-3-flash-preview'
+};
+
+// Model turns are replayed as Gemini returned them, thought signatures included, which
+// function calling needs across turns
+const toContent = (item: ChatItem): Content => {
+  if (item.role === 'user') return { role: 'user', parts: [{ text: item.text }] };
+  if (item.role === 'tool') {
+    return { role: 'user', parts: [{ functionResponse: { id: item.callId, name: item.name, response: { result: item.result } } }] };
+  }
+  if (item.raw) return item.raw as Content;
+  return {
+    role: 'model',
+    parts: [
+      ...(item.text ? [{ text: item.text }] : []),
+      ...(item.toolCalls ?? []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+    ]
+  };
+};
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string; // empty for the defaults above
+}
+
+// The client is created on the first request, so a missing key only fails the AI features
+export const createGeminiProvider = (config: GeminiConfig): InsightsProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error('Add a Gemini API key in Settings to use AI features');
+    client = client ?? new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return createPromptedProvider('gemini', async (task, prompt, schema) => {
+    const response = await getClient().models.generateContent({
+      model: config.model || GEMINI_DEFAULT_MODELS[task],
+      contents: prompt,
+      config: { responseMimeType: 'application/json', responseJsonSchema: schema }
+    });
+    return JSON.parse(response.text || '{}');
+  }, async ({ system, items, tools }) => {
+    const response = await getClient().models.generateContent({
+      model: config.model || GEMINI_DEFAULT_MODELS.chat,
+      contents: items.map(toContent),
+      config: {
+        systemInstruction: system,
+        tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+      }
+    });
+    const calls = response.functionCalls ?? [];
+    return {
+      text: calls.length > 0 ? undefined : response.text,
+      toolCalls: calls.map((call, i) => ({ id: call.id ?? `${call.name}-${i}`, name: call.name ?? '', args: call.args ?? {} })),
+      raw: response.candidates?.[0]?.content
+    };
+  });
+};
@@ -0,0 +1,93 @@
+import { AIInsight, AIProviderId, AISettings, LogEntry, VolumeUnit } from '../../types';
+import { InsightsContext } from './context';
+import { isOffline } from '../aiQueue';
+import { parseLocally } from '../naturalLanguage';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiProvider } from './openai';
+import { InsightsProvider } from './types';
+
+export * from './types';
+export * from './context';
+export * from './tools';
+export * from './chat';
+export { createGeminiProvider, GEMINI_DEFAULT_MODELS } from './gemini';
+export { createMockProvider } from './mock';
+export { createOpenAiProvider, OPENAI_DEFAULT_MODEL } from './openai';
+
+export const AI_PROVIDERS: Record<AIProviderId, { label: string; description: string }> = {
+  gemini: { label: 'Gemini', description: "Google's Gemini API, with your key or the app's." },
+  openai: { label: 'OpenAI API', description: 'Any OpenAI-compatible server, such as Ollama running on this device.' },
+  mock: { label: 'Demo', description: 'Simple answers worked out on this device, without a model.' }
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Whether requests would carry logs off this device. An OpenAI-compatible server on localhost,
+// such as Ollama, keeps them here.
+export const sendsDataOffDevice = (ai: AISettings) => {
+  if (ai.provider === 'mock') return false;
+  if (ai.provider === 'gemini') return true;
+  try {
+    return !LOCAL_HOSTS.includes(new URL(ai.baseUrl).hostname);
+  } catch {
+    return true;
+  }
+};
+
+export const isAIAllowed = (ai: AISettings) => ai.shareData || !sendsDataOffDevice(ai);
+
+// Null when the settings don't allow logs to reach the chosen provider
+export const createInsightsProvider = (ai: AISettings): InsightsProvider | null => {
+  if (!isAIAllowed(ai)) return null;
+  if (ai.provider === 'openai') return createOpenAiProvider({ baseUrl: ai.baseUrl, apiKey: ai.apiKey, model: ai.model });
+  if (ai.provider === 'mock') return createMockProvider();
+  return createGeminiProvider({ apiKey: ai.apiKey, model: ai.model });
+};
+
+// Consent is given for one destination, so pointing the settings elsewhere withdraws it
+export const updateAISettings = (current: AISettings, patch: Partial<AISettings>): AISettings => {
+  const next = { ...current, ...patch };
+  const moved = next.provider !== current.provider || next.baseUrl !== current.baseUrl;
+  return moved && patch.shareData === undefined ? { ...next, shareData: false } : next;
+};
+
+// Answers per provider, keyed by the exact context sent. An unchanged log gets the same answer
+// back without another request; a new provider (or model) starts with an empty cache.
+const MAX_CACHED_INSIGHTS = 20;
+const insightsCache = new WeakMap<InsightsProvider, Map<string, AIInsight>>();
+
+export const getCachedInsights = (provider: InsightsProvider, context: InsightsContext): AIInsight | null =>
+  insightsCache.get(provider)?.get(JSON.stringify(context)) ?? null;
+
+// Failures are thrown, never papered over: connection errors so the caller can queue the
+// request, anything else so it can show what went wrong
+export const getSmartInsights = async (provider: InsightsProvider, context: InsightsContext): Promise<AIInsight> => {
+  const key = JSON.stringify(context);
+  const cache = insightsCache.get(provider) ?? new Map<string, AIInsight>();
+  insightsCache.set(provider, cache);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const insight = await provider.getInsights({ context });
+  cache.set(key, insight);
+  if (cache.size > MAX_CACHED_INSIGHTS) cache.delete(cache.keys().next().value);
+  return insight;
+};
+
+// Falls back to the offline rule-based parser without a provider or a connection, or when the
+// call fails
+export const parseNaturalLanguage = async (
+  provider: InsightsProvider | null,
+  text: string,
+  now = Date.now(),
+  unit: VolumeUnit = 'oz'
+): Promise<Partial<LogEntry>[]> => {
+  if (!provider || isOffline()) return parseLocally(text, now, unit);
+  try {
+    return await provider.parseLog({ text, now, unit });
+  } catch (error) {
+    console.error('Parsing Error, using offline parser:', error);
+    return parseLocally(text, now, unit);
+  }
+};
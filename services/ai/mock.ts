@@ -0,0 +1,132 @@
+import { AIInsight, EntryType, InsightTrend, LogEntry } from '../../types';
+import { toDateKey } from '../analytics';
+import { FEVER_CELSIUS, getTypeLabel } from '../entryFormat';
+import { parseLocally } from '../naturalLanguage';
+import { ContextEntry, DailySummary } from './context';
+import { toInsight } from './prompts';
+import { DailyTotalsResult, FeedPredictionResult, FindEntriesResult, isToolError, LastEntryResult } from './tools';
+import { ChatItem, ChatRequest, ChatTurn, InsightsProvider } from './types';
+
+export interface MockFixtures {
+  insights?: AIInsight;
+  events?: Partial<LogEntry>[];
+  chatTurns?: ChatTurn[]; // replies in order, one per model turn of a question
+  now?: number; // what "today" and "yesterday" mean to the chat
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Keywords to entry types, most specific first
+const TYPE_WORDS: [RegExp, EntryType[]][] = [
+  [/dirty|poo/, ['diaper_dirty', 'diaper_both']],
+  [/wet|pee/, ['diaper_wet', 'diaper_both']],
+  [/diaper|nappy/, ['diaper_wet', 'diaper_dirty', 'diaper_both']],
+  [/bottle/, ['bottle']],
+  [/nurs|breast/, ['breast_left', 'breast_right']],
+  [/feed|fed|eat|ate/, ['breast_left', 'breast_right', 'bottle']],
+  [/sleep|nap/, ['sleep']],
+  [/medic|vitamin|dose/, ['medication']],
+  [/temp|fever/, ['temperature']],
+  [/pump/, ['pumping']],
+  [/solid|food/, ['solids']]
+];
+
+const getTypes = (question: string) => TYPE_WORDS.find(([pattern]) => pattern.test(question))?.[1];
+
+const describeEntry = (entry: ContextEntry) =>
+  [getTypeLabel(entry.type as EntryType), entry.amountMl !== undefined ? `${entry.amountMl} ml` : null,
+    entry.durationMinutes !== undefined ? `${entry.durationMinutes} min` : null, entry.medicine, entry.food,
+    entry.temperatureC !== undefined ? `${entry.temperatureC} °C` : null]
+    .filter(Boolean).join(', ') + ` at ${entry.time}`;
+
+const describeDay = (day: DailySummary & { weekday: string }) =>
+  `${day.weekday} (${day.date}): ${day.feeds} feeds, ${day.bottleMl} ml by bottle, `
+  + `${day.breastMinutes.left + day.breastMinutes.right} min nursing, ${day.wetDiapers} wet and ${day.dirtyDiapers} dirty diapers.`;
+
+// Picks one lookup from keywords in the question, then answers from its result in a sentence
+const answerLocally = ({ items }: ChatRequest, now: number): ChatTurn => {
+  const last = items[items.length - 1];
+  const question = ([...items].reverse().find(item => item.role === 'user') as Extract<ChatItem, { role: 'user' }>).text.toLowerCase();
+
+  // The result is whatever runTool returned for the tool this provider called
+  if (last.role === 'tool') {
+    if (isToolError(last.result)) return { text: `I couldn't look that up: ${last.result.error}.` };
+    if (last.name === 'get_last_entry') {
+      const result = last.result as LastEntryResult;
+      return { text: result.entry ? `The last one was ${describeEntry(result.entry)}, ${result.minutesAgo} minutes ago.` : 'There is nothing like that in the log yet.' };
+    }
+    if (last.name === 'get_daily_totals') {
+      const result = last.result as DailyTotalsResult;
+      const asked = result.days.filter(day =>
+        question.includes(day.weekday.toLowerCase()) || question.includes(day.date)
+        || (question.includes('yesterday') && day.date === toDateKey(now - 24 * 60 * 60 * 1000)));
+      const days = asked.length > 0 ? asked : result.days.slice(-1);
+      return { text: days.map(describeDay).join(' ') };
+    }
+    if (last.name === 'get_feed_prediction') {
+      const result = last.result as FeedPredictionResult;
+      return { text: result.nextFeed ? `The next feed is expected around ${result.nextFeed.slice(11)}.` : 'There is not enough logged yet to expect the next feed.' };
+    }
+    const result = last.result as FindEntriesResult;
+    return { text: result.total > 0 ? `The latest: ${result.entries.slice(0, 3).map(describeEntry).join('; ')}.` : 'There is nothing like that in the log yet.' };
+  }
+
+  const call = (name: string, args: Record<string, unknown> = {}): ChatTurn => ({ toolCalls: [{ id: `mock-${items.length}`, name, args }] });
+  const types = getTypes(question);
+  if (/next feed|when should|hungry/.test(question)) return call('get_feed_prediction');
+  if (/\blast\b|when was|when did/.test(question) && types) return call('get_last_entry', { types });
+  if (/how (much|many|long)|yesterday|today|total|vs\.?|compare/.test(question) || WEEKDAYS.some(day => question.includes(day))) {
+    return call('get_daily_totals', { from: toDateKey(now - 6 * 24 * 60 * 60 * 1000), to: toDateKey(now) });
+  }
+  return call('find_entries', { types, limit: 3 });
+};
+
+// Answers from the context alone, without a model or the network, so the same input always gives
+// the same output. Fixtures replace the computed answers where a caller needs exact ones; fixture
+// insights still pass through the same checks as a model's reply.
+export const createMockProvider = (fixtures: MockFixtures = {}): InsightsProvider => ({
+  id: 'mock',
+  getInsights: async ({ context }) => {
+    if (fixtures.insights) return toInsight(fixtures.insights, context);
+    const { babyName, days, entries } = context;
+    const today = days[days.length - 1];
+    const earlier = days.slice(0, -1).filter(day => day.feeds > 0);
+
+    const trends: InsightTrend[] = [];
+    const yesterday = earlier[earlier.length - 1];
+    if (yesterday && earlier.length >= 2) {
+      const before = earlier.slice(0, -1);
+      const average = before.reduce((sum, day) => sum + day.feeds, 0) / before.length;
+      const diff = yesterday.feeds - average;
+      trends.push({
+        metric: 'feeds per day',
+        direction: Math.abs(diff) < 1 ? 'steady' : diff > 0 ? 'up' : 'down',
+        detail: `${yesterday.feeds} feeds on ${yesterday.date} against ${average.toFixed(1)} a day before that.`
+      });
+    }
+
+    const fevers = entries.filter(entry => entry.temperatureC !== undefined && entry.temperatureC >= FEVER_CELSIUS);
+    return toInsight({
+      summary: today
+        ? `${babyName} has had ${today.feeds} feeds, ${today.wetDiapers} wet and ${today.dirtyDiapers} dirty diapers so far today.`
+        : `Nothing is logged for ${babyName} yet.`,
+      trends,
+      anomalies: fevers.length > 0
+        ? [{ severity: 'concern', detail: `A temperature of ${fevers[0].temperatureC} °C was logged.`, entryIds: fevers.map(entry => entry.id) }]
+        : [],
+      tip: 'Keep logging to see patterns.',
+      followUpQuestions: ['How does this week compare with last week?']
+    }, context);
+  },
+  parseLog: async ({ text, now, unit }) => fixtures.events ?? parseLocally(text, now, unit),
+  chat: async (request) => {
+    if (fixtures.chatTurns) {
+      // Model turns since the latest question pick the scripted reply
+      const sinceQuestion = request.items.slice(request.items.map(item => item.role).lastIndexOf('user'));
+      const turn = fixtures.chatTurns[sinceQuestion.filter(item => item.role === 'assistant').length];
+      if (!turn) throw new Error('No scripted reply left');
+      return turn;
+    }
+    return answerLocally(request, fixtures.now ?? Date.now());
+  }
+});
@@ -0,0 +1,83 @@
+import { isRecord } from '../storage';
+import { createPromptedProvider } from './prompts';
+import { ChatItem, InsightsProvider } from './types';
+
+export const OPENAI_DEFAULT_MODEL = 'llama3.2';
+
+export interface OpenAiConfig {
+  baseUrl: string; // up to and including the version, e.g. http://localhost:11434/v1
+  apiKey: string; // optional; local servers such as Ollama don't check it
+  model: string;
+}
+
+const toMessage = (item: ChatItem) => {
+  if (item.role === 'user') return { role: 'user', content: item.text };
+  if (item.role === 'tool') return { role: 'tool', tool_call_id: item.callId, content: JSON.stringify(item.result) };
+  return {
+    role: 'assistant',
+    content: item.text ?? null,
+    ...(item.toolCalls ? {
+      tool_calls: item.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }))
+    } : {})
+  };
+};
+
+// Arguments arrive as a JSON string, which small local models sometimes get wrong
+const parseArguments = (value: unknown): Record<string, unknown> => {
+  try {
+    const args: unknown = typeof value === 'string' ? JSON.parse(value) : value;
+    return isRecord(args) ? args : {};
+  } catch {
+    return {};
+  }
+};
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, LM Studio,
+// llama.cpp's server. Structured output is requested with response_format json_schema, and
+// chat uses the tools parameter.
+export const createOpenAiProvider = (config: OpenAiConfig): InsightsProvider => {
+  // The first choice's message, or an empty one when the reply has none
+  const complete = async (request: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: config.model || OPENAI_DEFAULT_MODEL, temperature: 0.2, ...request })
+    });
+    if (!response.ok) throw new Error(`AI server replied ${response.status}`);
+    const body: unknown = await response.json();
+    const choice: unknown = isRecord(body) && Array.isArray(body.choices) ? body.choices[0] : undefined;
+    return isRecord(choice) && isRecord(choice.message) ? choice.message : {};
+  };
+
+  return createPromptedProvider('openai', async (task, prompt, schema) => {
+    const message = await complete({
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_schema', json_schema: { name: task, schema } }
+    });
+    return JSON.parse(typeof message.content === 'string' && message.content ? message.content : '{}');
+  }, async ({ system, items, tools }) => {
+    const message = await complete({
+      messages: [{ role: 'system', content: system }, ...items.map(toMessage)],
+      tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+    });
+    const calls = Array.isArray(message.tool_calls) ? message.tool_calls.filter(isRecord) : [];
+    return {
+      text: typeof message.content === 'string' ? message.content : undefined,
+      toolCalls: calls.map((call, i) => {
+        const fn = isRecord(call.function) ? call.function : {};
+        return {
+          id: typeof call.id === 'string' ? call.id : `call-${i}`,
+          name: typeof fn.name === 'string' ? fn.name : '',
+          args: parseArguments(fn.arguments)
+        };
+      })
+    };
+  });
+};
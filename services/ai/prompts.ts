@@ -0,0 +1,149 @@
+import { AIInsight, InsightAnomaly, InsightTrend } from '../../types';
+import { ENTRY_TYPES, isRecord } from '../storage';
+import { normalizeParsedEvents, RawParsedEvent } from '../naturalLanguage';
+import { InsightsContext } from './context';
+import { ChatRequest, ChatTurn, GenerateJson, InsightsProvider, ParseLogRequest } from './types';
+
+// JSON Schema understood by both Gemini (responseJsonSchema) and OpenAI-compatible servers
+export const INSIGHTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    trends: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          metric: { type: 'string' },
+          direction: { type: 'string', enum: ['up', 'down', 'steady'] },
+          detail: { type: 'string' }
+        },
+        required: ['metric', 'direction', 'detail']
+      }
+    },
+    anomalies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['info', 'watch', 'concern'] },
+          detail: { type: 'string' },
+          entryIds: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['severity', 'detail', 'entryIds']
+      }
+    },
+    tip: { type: 'string' },
+    followUpQuestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'trends', 'anomalies', 'tip', 'followUpQuestions']
+};
+
+export const PARSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    events: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ENTRY_TYPES },
+          time: { type: 'string' },
+          minutesAgo: { type: 'number' },
+          amount: { type: 'number' },
+          unit: { type: 'string', enum: ['ml', 'oz'] },
+          duration: { type: 'number' },
+          medicine: { type: 'string' },
+          dose: { type: 'number' },
+          food: { type: 'string' },
+          temperature: { type: 'number' },
+          note: { type: 'string' }
+        },
+        required: ['type']
+      }
+    }
+  },
+  required: ['events']
+};
+
+export const buildInsightsPrompt = (context: InsightsContext) =>
+  `You are helping the parents of a baby named ${context.babyName} (${context.ageLabel ?? 'age unknown'}) understand their care log.
+  Today is ${context.today}. All times are local; volumes are in ml, durations in minutes, temperatures in °C.
+  Daily totals, oldest first (today is partial): ${JSON.stringify(context.days)}
+  Individual entries, newest first: ${JSON.stringify(context.entries)}
+  Statistical next-feed prediction: ${JSON.stringify(context.predictedNextFeed)}
+
+  Return:
+  1. summary: one or two calm sentences on how the baby is doing, based only on the data above.
+  2. trends: changes across the days in feeding, sleep or diapers, each with its direction and the numbers behind it.
+  3. anomalies: anything unusual for this age, each citing the ids of the entries it is based on. Only use ids from the entries above; leave the list empty if nothing stands out.
+  4. tip: one practical, reassuring tip that follows from the data.
+  5. followUpQuestions: up to three short questions the parents might ask next about this data.
+  Don't diagnose. For a fever or anything that could need a doctor, say so plainly.`;
+
+const TREND_DIRECTIONS: InsightTrend['direction'][] = ['up', 'down', 'steady'];
+const ANOMALY_SEVERITIES: InsightAnomaly['severity'][] = ['info', 'watch', 'concern'];
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isOneOf = <T extends string>(value: unknown, options: T[]): value is T => options.includes(value as T);
+
+const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Keeps only well-formed parts of a reply. Anomalies must cite entries that were sent, so one
+// the model made up, or that points at nothing, never reaches the screen.
+export const toInsight = (reply: unknown, context: InsightsContext): AIInsight => {
+  if (!isRecord(reply) || !isText(reply.summary)) throw new Error('The model replied without a summary');
+  const knownIds = new Set(context.entries.map(entry => entry.id));
+
+  const trends: InsightTrend[] = list(reply.trends).filter(isRecord).flatMap(({ metric, direction, detail }) =>
+    isText(metric) && isText(detail) && isOneOf(direction, TREND_DIRECTIONS) ? [{ metric, direction, detail }] : []);
+  const anomalies: InsightAnomaly[] = list(reply.anomalies).filter(isRecord).flatMap(({ severity, detail, entryIds }) => {
+    const cited = list(entryIds).filter((id): id is string => typeof id === 'string' && knownIds.has(id));
+    return isText(detail) && isOneOf(severity, ANOMALY_SEVERITIES) && cited.length > 0 ? [{ severity, detail, entryIds: cited }] : [];
+  });
+
+  return {
+    summary: reply.summary,
+    trends,
+    anomalies,
+    tip: isText(reply.tip) ? reply.tip : '',
+    followUpQuestions: list(reply.followUpQuestions).filter(isText).slice(0, 3)
+  };
+};
+
+// A sentence may describe several events ("120 ml bottle at 3:10, then wet diaper"); each
+// comes back as its own entry
+export const buildParsePrompt = ({ text, now }: ParseLogRequest) => {
+  const current = new Date(now);
+  return `Convert this natural language baby care note into structured log events: "${text}"
+  The current local time is ${current.toTimeString().slice(0, 5)} on ${current.toDateString()}.
+  Types available: ${ENTRY_TYPES.join(', ')}.
+  Return one event per feeding, pumping, diaper, sleep, tummy time, medication, solids or temperature mentioned, in the order they happened.
+  For past events give "time" as a 24h local HH:MM clock time, or "minutesAgo" for relative times. Omit both for "now".
+  Give bottle amounts with their unit (ml or oz) as stated, and nursing, sleep or tummy time durations in minutes.
+  Give pumped amounts like bottle amounts. For medication give the medicine's name, e.g. "Vitamin D", and the dose if stated.
+  For solids give the food. For temperature give the reading as stated.
+  Return an empty list if nothing matches.`;
+};
+
+// Builds a provider from a function that sends one prompt and returns the parsed JSON reply.
+// Replies are checked here, so a model that ignores the schema can't produce bad entries.
+// Chat is passed through as is; askAboutLog checks its turns.
+export const createPromptedProvider = (
+  id: string,
+  generateJson: GenerateJson,
+  chat: (request: ChatRequest) => Promise<ChatTurn>
+): InsightsProvider => ({
+  id,
+  getInsights: async ({ context }) => {
+    const reply = await generateJson('insights', buildInsightsPrompt(context), INSIGHTS_SCHEMA);
+    return toInsight(reply, context);
+  },
+  parseLog: async (request) => {
+    const reply = await generateJson('parse', buildParsePrompt(request), PARSE_SCHEMA);
+    const events: RawParsedEvent[] = isRecord(reply) ? list(reply.events).filter(isRecord) : [];
+    return normalizeParsedEvents(events, request.now, request.unit);
+  },
+  chat
+});
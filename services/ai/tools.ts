@@ -0,0 +1,189 @@
+import { BabyProfile, EntryType, LogEntry } from '../../types';
+import { getCustomRange } from '../analytics';
+import { getAgeInDays, getAgeLabel } from '../babyProfiles';
+import { getNextFeed, NextFeed, PredictionConfidence } from '../feedPrediction';
+import { getSchedule } from '../scheduler';
+import { ENTRY_TYPES, isEntryType, isRecord } from '../storage';
+import { ContextEntry, DailySummary, formatLocal, getDailySummaries, toContextEntry } from './context';
+import { ToolCall, ToolDeclaration } from './types';
+
+// Functions the chat model calls to look things up in the log. They run here, over the entries
+// already on the device, so the model only ever sees the rows and totals it asked for and every
+// number in an answer comes from code rather than from the model counting.
+
+const MINUTE = 60 * 1000;
+const MAX_DAYS = 31;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export interface ToolContext {
+  baby: BabyProfile;
+  entries: LogEntry[];
+  now: number;
+}
+
+// What each tool returns; any of them can instead return a ToolError
+export interface ToolError {
+  error: string;
+}
+
+export interface DailyTotalsResult {
+  days: (DailySummary & { weekday: string; partial: boolean })[]; // partial: today, still going
+}
+
+export interface FindEntriesResult {
+  total: number; // matches before the limit
+  entries: ContextEntry[]; // newest first
+}
+
+export interface LastEntryResult {
+  entry: ContextEntry | null;
+  minutesAgo?: number;
+}
+
+export interface FeedPredictionResult {
+  nextFeed: string | null; // local time
+  source: NextFeed['source'];
+  window: { from: string; to: string } | null;
+  confidence: PredictionConfidence | null;
+}
+
+export const isToolError = (result: unknown): result is ToolError => isRecord(result) && typeof result.error === 'string';
+
+const DATE_PARAM = { type: 'string', description: 'Local date as YYYY-MM-DD' };
+const TYPES_PARAM = {
+  type: 'array',
+  items: { type: 'string', enum: ENTRY_TYPES },
+  description: 'Entry types to include. A diaper_both counts as both wet and dirty, so include it when asking about either.'
+};
+
+export const LOG_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'get_daily_totals',
+    description: 'Totals per calendar day: feeds, bottle ml, nursing minutes per side, pumped ml, day and night sleep minutes, wet and dirty diapers, medications and the highest temperature. Use it for any "how much" or "how many" question.',
+    parameters: {
+      type: 'object',
+      properties: { from: DATE_PARAM, to: DATE_PARAM },
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'find_entries',
+    description: 'Individual log entries, newest first, optionally filtered by type and by a range of days. Volumes are in ml, durations in minutes, temperatures in °C.',
+    parameters: {
+      type: 'object',
+      properties: {
+        types: TYPES_PARAM,
+        from: DATE_PARAM,
+        to: DATE_PARAM,
+        limit: { type: 'number', description: `At most this many entries, up to ${MAX_LIMIT}; ${DEFAULT_LIMIT} if omitted` }
+      }
+    }
+  },
+  {
+    name: 'get_last_entry',
+    description: 'The most recent entry of the given types and how many minutes ago it was.',
+    parameters: {
+      type: 'object',
+      properties: { types: TYPES_PARAM },
+      required: ['types']
+    }
+  },
+  {
+    name: 'get_feed_prediction',
+    description: 'When the next feed is expected, whether that comes from a time the parents set, the baby\'s own rhythm or the feeding schedule, and the likely window.',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'get_baby_profile',
+    description: 'The baby\'s name, birth date and age.',
+    parameters: { type: 'object', properties: {} }
+  }
+];
+
+// Start of the local day; null for anything that isn't a real YYYY-MM-DD date
+const parseDate = (value: unknown): number | null => {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : null;
+};
+
+const parseTypes = (value: unknown): EntryType[] | null => {
+  if (!Array.isArray(value)) return null;
+  const types = value.filter(isEntryType);
+  return types.length > 0 ? types : null;
+};
+
+const weekday = (date: string) => new Date(parseDate(date)!).toLocaleDateString('en-US', { weekday: 'long' });
+
+const getDailyTotals = ({ baby, entries, now }: ToolContext, args: Record<string, unknown>): DailyTotalsResult | ToolError => {
+  const from = parseDate(args.from);
+  const to = parseDate(args.to);
+  if (from === null || to === null) return { error: 'from and to must be dates as YYYY-MM-DD' };
+  if (from > to) return { error: 'from must not be after to' };
+  if (from > now) return { error: 'Those days are in the future' };
+  const range = getCustomRange(from, to);
+  const days = getDailySummaries(entries, { start: range.start, end: Math.min(range.end, now) }, getSchedule(baby));
+  if (days.length > MAX_DAYS) return { error: `Ask for at most ${MAX_DAYS} days at a time` };
+  return { days: days.map(day => ({ ...day, weekday: weekday(day.date), partial: day.date === formatLocal(now).slice(0, 10) })) };
+};
+
+const findEntries = ({ entries, now }: ToolContext, args: Record<string, unknown>): FindEntriesResult | ToolError => {
+  const types = parseTypes(args.types);
+  const from = args.from === undefined ? null : parseDate(args.from);
+  const to = args.to === undefined ? null : parseDate(args.to);
+  if ((args.from !== undefined && from === null) || (args.to !== undefined && to === null)) {
+    return { error: 'from and to must be dates as YYYY-MM-DD' };
+  }
+  const range = getCustomRange(from ?? 0, to ?? now);
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.min(Math.floor(args.limit), MAX_LIMIT) : DEFAULT_LIMIT;
+  const matches = entries
+    .filter(e => e.timestamp <= now && e.timestamp >= range.start && e.timestamp < range.end && (!types || types.includes(e.type)))
+    .sort((a, b) => b.timestamp - a.timestamp);
+  return { total: matches.length, entries: matches.slice(0, limit).map(toContextEntry) };
+};
+
+const getLastEntry = ({ entries, now }: ToolContext, args: Record<string, unknown>): LastEntryResult | ToolError => {
+  const types = parseTypes(args.types);
+  if (!types) return { error: `types must list at least one of: ${ENTRY_TYPES.join(', ')}` };
+  const last = entries
+    .filter(e => e.timestamp <= now && types.includes(e.type))
+    .reduce<LogEntry | null>((latest, e) => !latest || e.timestamp > latest.timestamp ? e : latest, null);
+  return last
+    ? { entry: toContextEntry(last), minutesAgo: Math.round((now - last.timestamp) / MINUTE) }
+    : { entry: null };
+};
+
+const getFeedPrediction = ({ baby, entries, now }: ToolContext): FeedPredictionResult => {
+  const next = getNextFeed(baby, entries, now);
+  const { prediction } = next;
+  return {
+    nextFeed: next.time !== null ? formatLocal(next.time) : null,
+    source: next.source,
+    window: prediction ? { from: formatLocal(prediction.windowStart), to: formatLocal(prediction.windowEnd) } : null,
+    confidence: prediction?.confidence ?? null
+  };
+};
+
+const getBabyProfile = ({ baby, now }: ToolContext) => ({
+  name: baby.name,
+  birthDate: baby.birthDate !== undefined ? formatLocal(baby.birthDate).slice(0, 10) : null,
+  ageDays: getAgeInDays(baby, now),
+  ageLabel: getAgeLabel(baby, now)
+});
+
+// Bad arguments and unknown tools come back as an error result rather than a throw, so the
+// model can correct itself on its next turn
+export const runTool = (call: ToolCall, context: ToolContext): unknown => {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'get_daily_totals': return getDailyTotals(context, args);
+    case 'find_entries': return findEntries(context, args);
+    case 'get_last_entry': return getLastEntry(context, args);
+    case 'get_feed_prediction': return getFeedPrediction(context);
+    case 'get_baby_profile': return getBabyProfile(context);
+    default: return { error: `There is no tool called ${call.name}` };
+  }
+};
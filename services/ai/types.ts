@@ -0,0 +1,59 @@
+import { AIInsight, LogEntry, VolumeUnit } from '../../types';
+import { InsightsContext } from './context';
+
+export interface InsightsRequest {
+  context: InsightsContext;
+}
+
+export interface ParseLogRequest {
+  text: string;
+  now: number;
+  unit: VolumeUnit; // for amounts given without one
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A function the model may call during a chat, described with JSON Schema parameters
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// A chat transcript as the providers see it. Assistant turns keep the provider's own message
+// in `raw` so it can be sent back unchanged, e.g. with Gemini's thought signatures.
+export type ChatItem =
+  | { role: 'user'; text: string }
+  | { role: 'assistant'; text?: string; toolCalls?: ToolCall[]; raw?: unknown }
+  | { role: 'tool'; callId: string; name: string; result: unknown };
+
+export interface ChatRequest {
+  system: string;
+  items: ChatItem[];
+  tools: ToolDeclaration[];
+}
+
+// One model turn: tool calls to run before asking again, or the final answer
+export interface ChatTurn {
+  text?: string;
+  toolCalls?: ToolCall[];
+  raw?: unknown;
+}
+
+// One AI backend. Providers only answer requests; whether a request may be sent at all is
+// decided before one is created (see createInsightsProvider).
+export interface InsightsProvider {
+  id: string;
+  getInsights: (request: InsightsRequest) => Promise<AIInsight>;
+  parseLog: (request: ParseLogRequest) => Promise<Partial<LogEntry>[]>;
+  chat: (request: ChatRequest) => Promise<ChatTurn>;
+}
+
+// The remote providers share prompts and schemas and differ only in how they ask for JSON
+export type JsonTask = 'insights' | 'parse';
+
+export type GenerateJson = (task: JsonTask, prompt: string, schema: Record<string, unknown>) => Promise<unknown>;
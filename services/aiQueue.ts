@@ -0,0 +1,86 @@
+// Gemini calls are the only part of the app that needs the network. A call made offline, or one
+// that fails for lack of a connection, is parked here and run again when the connection returns.
+// Requests share a key, so asking twice while offline makes one call and answers both.
+
+const RETRY_DELAY = 30 * 1000;
+
+interface Waiter {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface QueuedRequest {
+  task: () => Promise<unknown>;
+  waiters: Waiter[];
+}
+
+const queue = new Map<string, QueuedRequest>();
+const listeners = new Set<(keys: string[]) => void>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// fetch rejects with a TypeError when the request never reached a server
+export const isNetworkError = (error: unknown) =>
+  isOffline() || error instanceof TypeError || (error instanceof Error && /network|failed to fetch|offline/i.test(error.message));
+
+const notify = () => {
+  const keys = [...queue.keys()];
+  listeners.forEach(listener => listener(keys));
+};
+
+const flush = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (isOffline()) return;
+  const requests = [...queue.entries()];
+  queue.clear();
+  notify();
+  requests.forEach(([key, request]) => run(key, request));
+};
+
+const park = (key: string, request: QueuedRequest) => {
+  const queued = queue.get(key);
+  if (queued) {
+    queued.task = request.task;
+    queued.waiters.push(...request.waiters);
+  } else {
+    queue.set(key, request);
+  }
+  notify();
+  // The browser can report online while requests still fail, e.g. behind a captive portal
+  if (!isOffline() && !retryTimer) retryTimer = setTimeout(flush, RETRY_DELAY);
+};
+
+const run = async (key: string, request: QueuedRequest) => {
+  if (isOffline()) {
+    park(key, request);
+    return;
+  }
+  try {
+    const result = await request.task();
+    request.waiters.forEach(waiter => waiter.resolve(result));
+  } catch (error) {
+    if (isNetworkError(error)) park(key, request);
+    else request.waiters.forEach(waiter => waiter.reject(error));
+  }
+};
+
+if (typeof window !== 'undefined') window.addEventListener('online', flush);
+
+// Runs the task now or, without a connection, once one is back. A newer request under a queued
+// key replaces the queued task, and the earlier callers get its result.
+export const runWhenOnline = <T>(key: string, task: () => Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    // Every task queued under one key answers the same question, so its result is a T
+    const request: QueuedRequest = { task, waiters: [{ resolve: value => resolve(value as T), reject }] };
+    if (queue.has(key)) park(key, request);
+    else run(key, request);
+  });
+
+// Tells the listener which keys are waiting for a connection, now and whenever that changes
+export const onAiQueueChange = (listener: (keys: string[]) => void) => {
+  listeners.add(listener);
+  listener([...queue.keys()]);
+  return () => { listeners.delete(listener); };
+};
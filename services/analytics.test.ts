@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { getBreastBalance, getCustomRange, getDailyStats, getDateKeys, getPresetRange, summarizeSleep } from './analytics';
+
+const NIGHT = { nightStartHour: 20, nightEndHour: 6 };
+// Noon on 2026-10-19; all dates below are local time
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const on = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes).getTime();
+
+let nextId = 0;
+const entry = (type: LogEntry['type'], timestamp: number, fields: Partial<LogEntry> = {}): LogEntry =>
+  ({ id: String(nextId++), type, timestamp, ...fields });
+
+describe('getDateKeys', () => {
+  it('lists the 7 calendar days ending today', () => {
+    expect(getDateKeys(getPresetRange('7d', NOW))).toEqual([
+      '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18', '2026-10-19'
+    ]);
+  });
+
+  it('covers both dates a 24h window touches', () => {
+    expect(getDateKeys(getPresetRange('24h', NOW))).toEqual(['2026-10-18', '2026-10-19']);
+  });
+});
+
+describe('getDailyStats', () => {
+  it('keeps an entry from a week ago out of today', () => {
+    const entries = [
+      entry('diaper_wet', on(12, 9)), // the same weekday last week, just before the range
+      entry('diaper_wet', on(13, 9)),
+      entry('diaper_both', on(19, 9)),
+      entry('bottle', on(19, 10), { amount: 90 })
+    ];
+    const days = getDailyStats(entries, getPresetRange('7d', NOW), NIGHT);
+    expect(days).toHaveLength(7);
+    expect(days[0]).toMatchObject({ date: '2026-10-13', wetDiapers: 1, dirtyDiapers: 0 });
+    expect(days[6]).toMatchObject({ date: '2026-10-19', wetDiapers: 1, dirtyDiapers: 1, feeds: 1, intakeMl: 90 });
+    expect(days.reduce((sum, day) => sum + day.wetDiapers, 0)).toBe(2);
+  });
+
+  it('splits a sleep across midnight between the two days', () => {
+    const entries = [entry('sleep', on(18, 23), { duration: 120 })];
+    const days = getDailyStats(entries, getPresetRange('7d', NOW), NIGHT);
+    expect(days[5]).toMatchObject({ date: '2026-10-18', sleepMinutes: 60 });
+    expect(days[6]).toMatchObject({ date: '2026-10-19', sleepMinutes: 60 });
+  });
+});
+
+describe('summarizeSleep', () => {
+  it('counts only the part of a nap across midnight inside the range', () => {
+    const entries = [entry('sleep', on(18, 23, 30), { duration: 90 })];
+    const today = getCustomRange(NOW, NOW);
+    expect(summarizeSleep(entries, today, NIGHT)).toEqual({ totalMinutes: 60, longestMinutes: 90, dayMinutes: 0, nightMinutes: 60 });
+  });
+
+  it('splits a nap between day and night hours', () => {
+    const entries = [entry('sleep', on(19, 19, 30), { duration: 60 })];
+    const today = getCustomRange(NOW, NOW);
+    expect(summarizeSleep(entries, today, NIGHT)).toEqual({ totalMinutes: 60, longestMinutes: 60, dayMinutes: 30, nightMinutes: 30 });
+  });
+
+  it('splits a nap at the end of the night', () => {
+    const entries = [entry('sleep', on(19, 5), { duration: 90 })];
+    const today = getCustomRange(NOW, NOW);
+    expect(summarizeSleep(entries, today, NIGHT)).toMatchObject({ dayMinutes: 30, nightMinutes: 60 });
+  });
+});
+
+describe('getBreastBalance', () => {
+  const today = getCustomRange(NOW, NOW);
+
+  it('adds up single-side feeds by their type', () => {
+    const entries = [
+      entry('breast_left', on(19, 8), { duration: 12 }),
+      entry('breast_right', on(19, 10), { duration: 8 }),
+      entry('bottle', on(19, 11), { amount: 60 })
+    ];
+    expect(getBreastBalance(entries, today)).toEqual({ leftMinutes: 12, rightMinutes: 8, leftShare: 0.6 });
+  });
+
+  it('uses the minutes per side of a feed that switched', () => {
+    const entries = [
+      entry('breast_left', on(19, 8), { duration: 15, sides: { left: 10, right: 5 } }),
+      entry('breast_right', on(19, 10), { duration: 5 })
+    ];
+    expect(getBreastBalance(entries, today)).toEqual({ leftMinutes: 10, rightMinutes: 10, leftShare: 0.5 });
+  });
+
+  it('has no share without nursing', () => {
+    expect(getBreastBalance([entry('bottle', on(19, 8), { amount: 60 })], today)).toEqual({ leftMinutes: 0, rightMinutes: 0, leftShare: null });
+  });
+});
+
+describe('getCustomRange', () => {
+  it('covers whole days from the first date through the last', () => {
+    expect(getCustomRange(on(15, 14), on(17, 9))).toEqual({ start: on(15, 0), end: on(18, 0) });
+  });
+
+  it('accepts the dates in either order', () => {
+    expect(getCustomRange(on(17, 9), on(15, 14))).toEqual(getCustomRange(on(15, 14), on(17, 9)));
+  });
+});
@@ -0,0 +1,205 @@
+import { FeedingSchedule, LogEntry } from '../types';
+import { isFeed, isWithinHours } from './scheduler';
+
+// Pure aggregations behind the Insights charts. Everything takes the entries and a time range
+// and buckets by local calendar date, so a day a week ago never merges into today.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type RangePreset = '24h' | '7d' | '30d' | 'custom';
+
+export interface TimeRange {
+  start: number; // inclusive
+  end: number; // exclusive
+}
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const addDays = (timestamp: number, days: number) => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// 24h is a rolling window; 7d and 30d are whole calendar days ending today
+export const getPresetRange = (preset: Exclude<RangePreset, 'custom'>, now = Date.now()): TimeRange => {
+  if (preset === '24h') return { start: now - DAY, end: now };
+  const days = preset === '7d' ? 7 : 30;
+  return { start: addDays(startOfDay(now), 1 - days), end: now };
+};
+
+// Whole days from the first through the last date, in local time
+export const getCustomRange = (firstDay: number, lastDay: number): TimeRange => ({
+  start: startOfDay(Math.min(firstDay, lastDay)),
+  end: addDays(startOfDay(Math.max(firstDay, lastDay)), 1)
+});
+
+export const toDateKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const getDateKeys = (range: TimeRange): string[] => {
+  const keys: string[] = [];
+  for (let day = startOfDay(range.start); day < range.end; day = addDays(day, 1)) keys.push(toDateKey(day));
+  return keys;
+};
+
+export const getEntriesInRange = (entries: LogEntry[], range: TimeRange) =>
+  entries
+    .filter(entry => entry.timestamp >= range.start && entry.timestamp < range.end)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+const getEnd = (entry: LogEntry) => entry.timestamp + (entry.duration ?? 0) * MINUTE;
+
+// The part of [start, end) inside the range, in minutes
+const overlapMinutes = (start: number, end: number, range: TimeRange) =>
+  Math.max(0, Math.min(end, range.end) - Math.max(start, range.start)) / MINUTE;
+
+// --- Feeds ----------------------------------------------------------------------------------
+
+export interface FeedSummary {
+  feedCount: number;
+  intakeMl: number; // bottle volume
+  averageIntervalMinutes: number | null; // between feed starts; null with fewer than two feeds
+}
+
+export const summarizeFeeds = (entries: LogEntry[], range: TimeRange): FeedSummary => {
+  const feeds = getEntriesInRange(entries, range).filter(isFeed);
+  const intervals = feeds.slice(1).map((feed, i) => (feed.timestamp - feeds[i].timestamp) / MINUTE);
+  return {
+    feedCount: feeds.length,
+    intakeMl: feeds.reduce((sum, feed) => sum + (feed.type === 'bottle' ? feed.amount ?? 0 : 0), 0),
+    averageIntervalMinutes: intervals.length > 0 ? intervals.reduce((a, b) => a + b, 0) / intervals.length : null
+  };
+};
+
+export interface BreastBalance {
+  leftMinutes: number;
+  rightMinutes: number;
+  leftShare: number | null; // 0-1 of total nursing time, null without nursing
+}
+
+export const getBreastBalance = (entries: LogEntry[], range: TimeRange): BreastBalance => {
+  let leftMinutes = 0;
+  let rightMinutes = 0;
+  getEntriesInRange(entries, range).forEach(entry => {
+    if (entry.sides) {
+      leftMinutes += entry.sides.left;
+      rightMinutes += entry.sides.right;
+    } else if (entry.type === 'breast_left') {
+      leftMinutes += entry.duration ?? 0;
+    } else if (entry.type === 'breast_right') {
+      rightMinutes += entry.duration ?? 0;
+    }
+  });
+  const total = leftMinutes + rightMinutes;
+  return { leftMinutes, rightMinutes, leftShare: total > 0 ? leftMinutes / total : null };
+};
+
+// --- Sleep ----------------------------------------------------------------------------------
+
+export interface SleepSummary {
+  totalMinutes: number;
+  longestMinutes: number; // longest single sleep, whole length even if it started before the range
+  dayMinutes: number;
+  nightMinutes: number;
+}
+
+type NightHours = Pick<FeedingSchedule, 'nightStartHour' | 'nightEndHour'>;
+
+// Splits [start, end) at hour boundaries and sums the minutes that fall in night hours
+const nightMinutesBetween = (start: number, end: number, night: NightHours) => {
+  let minutes = 0;
+  for (let cursor = start; cursor < end;) {
+    const nextHour = new Date(cursor);
+    nextHour.setMinutes(60, 0, 0);
+    const sliceEnd = Math.min(end, nextHour.getTime());
+    if (isWithinHours(cursor, night.nightStartHour, night.nightEndHour)) minutes += (sliceEnd - cursor) / MINUTE;
+    cursor = sliceEnd;
+  }
+  return minutes;
+};
+
+// Sleeps are counted by the minutes that overlap the range, so a nap across midnight is split
+export const summarizeSleep = (entries: LogEntry[], range: TimeRange, night: NightHours): SleepSummary => {
+  const sleeps = entries.filter(entry => entry.type === 'sleep' && entry.duration && getEnd(entry) > range.start && entry.timestamp < range.end);
+  const summary: SleepSummary = { totalMinutes: 0, longestMinutes: 0, dayMinutes: 0, nightMinutes: 0 };
+  sleeps.forEach(sleep => {
+    const start = Math.max(sleep.timestamp, range.start);
+    const end = Math.min(getEnd(sleep), range.end);
+    const total = overlapMinutes(sleep.timestamp, getEnd(sleep), range);
+    const nightMinutes = nightMinutesBetween(start, end, night);
+    summary.totalMinutes += total;
+    summary.nightMinutes += nightMinutes;
+    summary.dayMinutes += total - nightMinutes;
+    summary.longestMinutes = Math.max(summary.longestMinutes, sleep.duration!);
+  });
+  return summary;
+};
+
+// --- Per day --------------------------------------------------------------------------------
+
+export interface DailyStats {
+  date: string; // YYYY-MM-DD, local
+  feeds: number;
+  intakeMl: number;
+  pumpedMl: number;
+  sleepMinutes: number;
+  daySleepMinutes: number;
+  nightSleepMinutes: number;
+  wetDiapers: number; // "both" counts as wet and dirty
+  dirtyDiapers: number;
+}
+
+export const getDailyStats = (entries: LogEntry[], range: TimeRange, night: NightHours): DailyStats[] =>
+  getDateKeys(range).map(date => {
+    const [year, month, day] = date.split('-').map(Number);
+    const dayStart = new Date(year, month - 1, day).getTime();
+    const dayRange = { start: Math.max(dayStart, range.start), end: Math.min(addDays(dayStart, 1), range.end) };
+    const dayEntries = getEntriesInRange(entries, dayRange);
+    const feeds = summarizeFeeds(entries, dayRange);
+    const sleep = summarizeSleep(entries, dayRange, night);
+    return {
+      date,
+      feeds: feeds.feedCount,
+      intakeMl: feeds.intakeMl,
+      pumpedMl: dayEntries.reduce((sum, e) => sum + (e.type === 'pumping' ? e.amount ?? 0 : 0), 0),
+      sleepMinutes: sleep.totalMinutes,
+      daySleepMinutes: sleep.dayMinutes,
+      nightSleepMinutes: sleep.nightMinutes,
+      wetDiapers: dayEntries.filter(e => e.type === 'diaper_wet' || e.type === 'diaper_both').length,
+      dirtyDiapers: dayEntries.filter(e => e.type === 'diaper_dirty' || e.type === 'diaper_both').length
+    };
+  });
+
+export interface AnalyticsSummary {
+  range: TimeRange;
+  feeds: FeedSummary;
+  breast: BreastBalance;
+  sleep: SleepSummary;
+  days: DailyStats[];
+  averageDiapersPerDay: { wet: number; dirty: number };
+}
+
+export const getAnalytics = (entries: LogEntry[], range: TimeRange, night: NightHours): AnalyticsSummary => {
+  const days = getDailyStats(entries, range, night);
+  const count = Math.max(1, days.length);
+  return {
+    range,
+    feeds: summarizeFeeds(entries, range),
+    breast: getBreastBalance(entries, range),
+    sleep: summarizeSleep(entries, range, night),
+    days,
+    averageDiapersPerDay: {
+      wet: days.reduce((sum, d) => sum + d.wetDiapers, 0) / count,
+      dirty: days.reduce((sum, d) => sum + d.dirtyDiapers, 0) / count
+    }
+  };
+};
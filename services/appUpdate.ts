@@ -0,0 +1,39 @@
+// A deploy ships a new sw.js, which installs beside the running worker and waits. The app asks
+// before switching so an update never reloads the page under someone halfway through an entry.
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Calls onUpdateReady when a new version is installed and waiting. The first install on a
+// device has no controller yet and takes over on its own, so it isn't reported.
+export const watchForUpdates = (registration: ServiceWorkerRegistration, onUpdateReady: () => void) => {
+  const reportWhenInstalled = (worker: ServiceWorker | null) => {
+    if (!worker) return;
+    const check = () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) onUpdateReady();
+    };
+    worker.addEventListener('statechange', check);
+    check();
+  };
+
+  if (registration.waiting) reportWhenInstalled(registration.waiting);
+  const onUpdateFound = () => reportWhenInstalled(registration.installing);
+  registration.addEventListener('updatefound', onUpdateFound);
+
+  // Installed apps can stay open for days; browsers only check for a new worker on navigation
+  const interval = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+  return () => {
+    clearInterval(interval);
+    registration.removeEventListener('updatefound', onUpdateFound);
+  };
+};
+
+// Lets the waiting worker take over, then reloads so the page runs the new build
+export const applyUpdate = (registration: ServiceWorkerRegistration) => {
+  const waiting = registration.waiting;
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+};
@@ -0,0 +1,30 @@
+import { BabyProfile, LogEntry } from '../types';
+
+export const createId = () => Math.random().toString(36).substr(2, 9);
+
+export const createBabyProfile = (name: string, birthDate?: number): BabyProfile => ({
+  id: createId(),
+  name: name.trim() || 'Baby',
+  birthDate,
+  photo: null,
+  nextFeedingTime: null
+});
+
+// A profile nobody has filled in yet, like the one a fresh install starts with
+export const isBlankProfile = (baby: BabyProfile, entries: LogEntry[]) =>
+  entries.length === 0 && baby.birthDate === undefined && !baby.photo;
+
+// Whole days since birth, or null when no birth date is recorded
+export const getAgeInDays = (baby: BabyProfile, now = Date.now()): number | null => {
+  if (baby.birthDate === undefined) return null;
+  return Math.max(0, Math.floor((now - baby.birthDate) / (24 * 60 * 60 * 1000)));
+};
+
+export const getAgeLabel = (baby: BabyProfile, now = Date.now()): string | null => {
+  const days = getAgeInDays(baby, now);
+  if (days === null) return null;
+  if (days < 14) return `${days} day${days === 1 ? '' : 's'} old`;
+  if (days < 91) return `${Math.floor(days / 7)} weeks old`;
+  const months = Math.floor(days / 30.44);
+  return `${months} month${months === 1 ? '' : 's'} old`;
+};
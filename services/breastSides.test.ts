@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { BabyProfile, BreastSide, LogEntry } from '../types';
+import { createSameSideOverride, getNursingFeeds, suggestNextSide } from './breastSides';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+
+const BABY: BabyProfile = { id: 'baby', name: 'Ada' };
+
+let nextId = 0;
+// A nursing entry that started `minutesAgo` and lasted `duration` minutes
+const nursed = (side: BreastSide, minutesAgo: number, duration: number, fields: Partial<LogEntry> = {}): LogEntry =>
+  ({ id: String(nextId++), type: side === 'left' ? 'breast_left' : 'breast_right', timestamp: NOW - minutesAgo * MINUTE, duration, ...fields });
+
+describe('getNursingFeeds', () => {
+  it('merges a side logged within 15 minutes of the other into one feed', () => {
+    const left = nursed('left', 60, 15);
+    const right = nursed('right', 30, 10); // 15 minutes after the left side ended
+    expect(getNursingFeeds([right, left])).toEqual([{
+      start: left.timestamp,
+      end: right.timestamp + 10 * MINUTE,
+      startSide: 'left',
+      endSide: 'right',
+      leftMinutes: 15,
+      rightMinutes: 10,
+      entryIds: [left.id, right.id]
+    }]);
+  });
+
+  it('starts a new feed after more than 15 minutes', () => {
+    const feeds = getNursingFeeds([nursed('left', 60, 15), nursed('right', 29, 10)]);
+    expect(feeds.map(feed => [feed.startSide, feed.endSide])).toEqual([['left', 'left'], ['right', 'right']]);
+  });
+
+  it('ignores entries that are not nursing', () => {
+    const bottle: LogEntry = { id: 'bottle', type: 'bottle', timestamp: NOW - 40 * MINUTE, amount: 60 };
+    expect(getNursingFeeds([nursed('left', 60, 15), bottle]).map(feed => feed.entryIds.length)).toEqual([1]);
+  });
+
+  it.each([
+    ['the recorded end side', { sides: { left: 8, right: 7 }, endSide: 'left' as const }, 'left'],
+    ['the other side when a timer used both', { sides: { left: 8, right: 7 } }, 'right'],
+    ['the start side when a timer used one', { sides: { left: 15, right: 0 } }, 'left']
+  ])('ends a timer session on %s', (_, fields, endSide) => {
+    expect(getNursingFeeds([nursed('left', 60, 15, fields)])[0].endSide).toBe(endSide);
+  });
+});
+
+describe('suggestNextSide', () => {
+  it('has nothing to suggest before any nursing feed', () => {
+    expect(suggestNextSide(BABY, [], NOW)).toBeNull();
+  });
+
+  it.each([
+    ['left only', [nursed('left', 60, 15)], 'right', 'other-side'],
+    ['right only', [nursed('right', 60, 15)], 'left', 'other-side'],
+    ['left then right', [nursed('left', 60, 15), nursed('right', 40, 10)], 'right', 'finished-on'],
+    ['a timer from right to left', [nursed('right', 60, 15, { sides: { left: 7, right: 8 } })], 'left', 'finished-on'],
+    ['a timer that switched and came back', [nursed('left', 60, 20, { sides: { left: 12, right: 8 }, endSide: 'left' })], 'left', 'finished-on']
+  ] as const)('after %s offers %s', (_, entries, side, reason) => {
+    expect(suggestNextSide(BABY, [...entries], NOW)).toMatchObject({ side, reason });
+  });
+
+  it('goes by the latest feed only', () => {
+    const entries = [nursed('left', 300, 15), nursed('right', 280, 10), nursed('right', 60, 15)];
+    expect(suggestNextSide(BABY, entries, NOW)).toMatchObject({ side: 'left', reason: 'other-side' });
+  });
+
+  it('ignores feeds logged after now', () => {
+    const entries = [nursed('left', 60, 15), nursed('left', -30, 15)];
+    expect(suggestNextSide(BABY, entries, NOW)!.lastFeed!.entryIds).toEqual([entries[0].id]);
+  });
+
+  describe('same side again', () => {
+    const last = nursed('left', 60, 15);
+    const baby: BabyProfile = { ...BABY, sideOverride: createSameSideOverride([last], NOW - 30 * MINUTE)! };
+
+    it('offers the side the last feed finished on', () => {
+      expect(baby.sideOverride).toEqual({ side: 'left', setAt: NOW - 30 * MINUTE });
+      expect(suggestNextSide(baby, [last], NOW)).toMatchObject({ side: 'left', reason: 'same-side' });
+    });
+
+    it('lapses once a nursing feed is logged after it', () => {
+      expect(suggestNextSide(baby, [last, nursed('left', 20, 15)], NOW)).toMatchObject({ side: 'right', reason: 'other-side' });
+    });
+
+    it('lapses even when that feed merges into the last one', () => {
+      const topUp = nursed('left', 30, 5);
+      expect(getNursingFeeds([last, topUp])).toHaveLength(1);
+      expect(suggestNextSide(baby, [last, topUp], NOW)!.reason).toBe('other-side');
+    });
+
+    it('holds through entries that are not nursing', () => {
+      const bottle: LogEntry = { id: 'bottle', type: 'bottle', timestamp: NOW - 10 * MINUTE, amount: 60 };
+      expect(suggestNextSide(baby, [last, bottle], NOW)!.reason).toBe('same-side');
+    });
+  });
+
+  it('needs a nursing feed to set the same side', () => {
+    expect(createSameSideOverride([], NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { BabyProfile, BreastSide, LogEntry, SideOverride } from '../types';
+import { BreastBalance, getBreastBalance, getPresetRange } from './analytics';
+import { isNursing } from './sessionTimer';
+
+// Which side to offer next, worked out from how the last nursing feed started and ended.
+// After a feed on one side only, the next starts on the other. After a feed that switched,
+// the next starts on the side it finished on, which was emptied less.
+
+const MINUTE = 60 * 1000;
+const FEED_MERGE_MINUTES = 15; // a side logged this soon after the other is the same feed
+
+// One nursing feed, from a timer session or from separate left and right entries close together
+export interface NursingFeed {
+  start: number;
+  end: number;
+  startSide: BreastSide;
+  endSide: BreastSide;
+  leftMinutes: number;
+  rightMinutes: number;
+  entryIds: string[]; // oldest first
+}
+
+export const getSide = (entry: LogEntry): BreastSide => entry.type === 'breast_left' ? 'left' : 'right';
+
+export const otherSide = (side: BreastSide): BreastSide => side === 'left' ? 'right' : 'left';
+
+const getMinutes = (entry: LogEntry) =>
+  entry.sides ?? (getSide(entry) === 'left' ? { left: entry.duration ?? 0, right: 0 } : { left: 0, right: entry.duration ?? 0 });
+
+// Entries logged before end sides were recorded: one that has time on both sides is taken to
+// have switched once
+const getEndSide = (entry: LogEntry): BreastSide => {
+  if (entry.endSide) return entry.endSide;
+  return entry.sides && entry.sides.left > 0 && entry.sides.right > 0 ? otherSide(getSide(entry)) : getSide(entry);
+};
+
+// Oldest first
+export const getNursingFeeds = (entries: LogEntry[]): NursingFeed[] => {
+  const feeds: NursingFeed[] = [];
+  entries
+    .filter(entry => isNursing(entry.type))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(entry => {
+      const end = entry.timestamp + (entry.duration ?? 0) * MINUTE;
+      const minutes = getMinutes(entry);
+      const current = feeds[feeds.length - 1];
+      if (current && entry.timestamp - current.end <= FEED_MERGE_MINUTES * MINUTE) {
+        current.end = Math.max(current.end, end);
+        current.endSide = getEndSide(entry);
+        current.leftMinutes += minutes.left;
+        current.rightMinutes += minutes.right;
+        current.entryIds.push(entry.id);
+      } else {
+        feeds.push({
+          start: entry.timestamp,
+          end,
+          startSide: getSide(entry),
+          endSide: getEndSide(entry),
+          leftMinutes: minutes.left,
+          rightMinutes: minutes.right,
+          entryIds: [entry.id]
+        });
+      }
+    });
+  return feeds;
+};
+
+export interface SideSuggestion {
+  side: BreastSide;
+  reason: 'other-side' | 'finished-on' | 'same-side';
+  lastFeed: NursingFeed | null;
+}
+
+// The override while it lasts, else the rule above; null before any nursing feed is logged
+export const suggestNextSide = (baby: BabyProfile, entries: LogEntry[], now = Date.now()): SideSuggestion | null => {
+  const logged = entries.filter(entry => entry.timestamp <= now);
+  const feeds = getNursingFeeds(logged);
+  const lastFeed = feeds[feeds.length - 1] ?? null;
+  // Checked per entry, since a cluster feed soon after the last one merges into it
+  const override = baby.sideOverride;
+  if (override && !logged.some(entry => isNursing(entry.type) && entry.timestamp >= override.setAt)) {
+    return { side: override.side, reason: 'same-side', lastFeed };
+  }
+  if (!lastFeed) return null;
+  const switched = lastFeed.startSide !== lastFeed.endSide || (lastFeed.leftMinutes > 0 && lastFeed.rightMinutes > 0);
+  return switched
+    ? { side: lastFeed.endSide, reason: 'finished-on', lastFeed }
+    : { side: otherSide(lastFeed.startSide), reason: 'other-side', lastFeed };
+};
+
+// For "same side again": the side the last feed finished on
+export const createSameSideOverride = (entries: LogEntry[], now = Date.now()): SideOverride | null => {
+  const feeds = getNursingFeeds(entries.filter(entry => entry.timestamp <= now));
+  const lastFeed = feeds[feeds.length - 1];
+  return lastFeed ? { side: lastFeed.endSide, setAt: now } : null;
+};
+
+export interface SideBalances {
+  today: BreastBalance;
+  week: BreastBalance; // the last 7 calendar days, today included
+}
+
+export const getSideBalances = (entries: LogEntry[], now = Date.now()): SideBalances => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  return {
+    today: getBreastBalance(entries, { start: startOfToday.getTime(), end: now }),
+    week: getBreastBalance(entries, getPresetRange('7d', now))
+  };
+};
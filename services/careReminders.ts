@@ -0,0 +1,133 @@
+import { BabyProfile, CareReminder, LogEntry } from '../types';
+import { createId } from './babyProfiles';
+import { getSchedule, isNightTime } from './scheduler';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const VITAMIN_D = 'Vitamin D';
+
+// Offered on every profile until the parent changes them; all start switched off
+export const DEFAULT_CARE_REMINDERS: CareReminder[] = [
+  { id: 'diaper-gap', kind: 'diaper-gap', enabled: false, everyHours: 6 },
+  { id: 'vitamin-d', kind: 'vitamin-d', enabled: false, atHour: 9 },
+  { id: 'tummy-time', kind: 'tummy-time', enabled: false, everyHours: 3 }
+];
+
+export const getCareReminders = (baby: BabyProfile): CareReminder[] => baby.careReminders ?? DEFAULT_CARE_REMINDERS;
+
+export const createMedicationReminder = (medicine: string, everyHours = 6, maxPerDay = 4): CareReminder => ({
+  id: createId(),
+  kind: 'medication',
+  enabled: true,
+  medicine: medicine.trim(),
+  everyHours,
+  maxPerDay
+});
+
+export const getCareReminderLabel = (reminder: CareReminder): string => {
+  switch (reminder.kind) {
+    case 'diaper-gap': return 'Wet Diaper Check';
+    case 'vitamin-d': return VITAMIN_D;
+    case 'medication': return reminder.medicine || 'Medication';
+    case 'tummy-time': return 'Tummy Time';
+  }
+};
+
+const sameMedicine = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Logging an entry this returns true for is what marks the reminder done
+export const matchesReminder = (reminder: CareReminder, entry: LogEntry): boolean => {
+  switch (reminder.kind) {
+    case 'diaper-gap': return entry.type === 'diaper_wet' || entry.type === 'diaper_both';
+    case 'vitamin-d': return entry.type === 'medication' && sameMedicine(entry.medicine, VITAMIN_D);
+    case 'medication': return entry.type === 'medication' && sameMedicine(entry.medicine, reminder.medicine);
+    case 'tummy-time': return entry.type === 'tummy_time';
+  }
+};
+
+// The entry logged from a reminder's "Log" button
+export const getMatchingEntry = (reminder: CareReminder): Partial<LogEntry> => {
+  switch (reminder.kind) {
+    case 'diaper-gap': return { type: 'diaper_wet' };
+    case 'vitamin-d': return { type: 'medication', medicine: VITAMIN_D };
+    case 'medication': return { type: 'medication', medicine: reminder.medicine };
+    case 'tummy-time': return { type: 'tummy_time' };
+  }
+};
+
+export interface CareReminderStatus {
+  reminder: CareReminder;
+  dueAt: number | null; // null when there is nothing to count from yet
+  lastDoneAt: number | null;
+  doneInLastDay: number;
+  limitReached: boolean; // medication only: the max per 24 hours has been given
+}
+
+const atHourOf = (timestamp: number, hour: number, dayOffset = 0) => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hour, 0, 0, 0);
+  return date.getTime();
+};
+
+// Moves a time that falls in the baby's night to the morning after it
+const skipNight = (timestamp: number, baby: BabyProfile) => {
+  const schedule = getSchedule(baby);
+  if (!isNightTime(timestamp, schedule)) return timestamp;
+  const morning = atHourOf(timestamp, schedule.nightEndHour);
+  return morning > timestamp ? morning : atHourOf(timestamp, schedule.nightEndHour, 1);
+};
+
+export const getCareReminderStatus = (
+  reminder: CareReminder,
+  baby: BabyProfile,
+  entries: LogEntry[],
+  now = Date.now()
+): CareReminderStatus => {
+  const done = entries
+    .filter(entry => matchesReminder(reminder, entry))
+    .map(entry => entry.timestamp)
+    .sort((a, b) => a - b);
+  const lastDoneAt = done.length > 0 ? done[done.length - 1] : null;
+  const inLastDay = done.filter(timestamp => timestamp > now - DAY);
+  const everyMs = (reminder.everyHours ?? 0) * HOUR;
+  const status: CareReminderStatus = { reminder, dueAt: null, lastDoneAt, doneInLastDay: inLastDay.length, limitReached: false };
+
+  switch (reminder.kind) {
+    case 'diaper-gap':
+      status.dueAt = lastDoneAt !== null && everyMs > 0 ? lastDoneAt + everyMs : null;
+      break;
+    case 'vitamin-d': {
+      const hour = reminder.atHour ?? 9;
+      const givenToday = lastDoneAt !== null && lastDoneAt >= atHourOf(now, 0);
+      status.dueAt = atHourOf(now, hour, givenToday ? 1 : 0);
+      break;
+    }
+    case 'medication': {
+      // Only counts from a logged dose; the reminder never prompts a first dose
+      if (lastDoneAt === null || everyMs <= 0) break;
+      status.dueAt = lastDoneAt + everyMs;
+      const max = reminder.maxPerDay;
+      if (max && inLastDay.length >= max) {
+        status.limitReached = true;
+        // The next dose is allowed once enough doses have dropped out of the 24-hour window
+        status.dueAt = Math.max(status.dueAt, inLastDay[inLastDay.length - max] + DAY);
+      }
+      break;
+    }
+    case 'tummy-time': {
+      if (everyMs <= 0) break;
+      const morning = atHourOf(now, getSchedule(baby).nightEndHour);
+      status.dueAt = skipNight(lastDoneAt !== null ? lastDoneAt + everyMs : morning, baby);
+      break;
+    }
+  }
+  return status;
+};
+
+export const getCareReminderStatuses = (baby: BabyProfile, entries: LogEntry[], now = Date.now()): CareReminderStatus[] =>
+  getCareReminders(baby)
+    .filter(reminder => reminder.enabled)
+    .map(reminder => getCareReminderStatus(reminder, baby, entries, now));
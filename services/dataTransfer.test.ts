@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { BabyProfile, LogEntry } from '../types';
+import { applyImport, exportJson, ImportOptions, parseBackup, planImport } from './dataTransfer';
+import { createSyncState, DEFAULT_SETTINGS, PersistedData } from './storage';
+
+const ADA: BabyProfile = { id: 'ada', name: 'Ada', birthDate: 1791000000000, photo: null, nextFeedingTime: null };
+const BEN: BabyProfile = { id: 'ben', name: 'Ben', birthDate: 1791000000000, photo: null, nextFeedingTime: null };
+
+const bottle = (id: string, timestamp: number, amount = 90): LogEntry => ({ id, type: 'bottle', timestamp, amount, unit: 'ml' });
+
+const persisted = (babies: BabyProfile[], entriesByBaby: Record<string, LogEntry[]>, apiKey = ''): PersistedData => ({
+  babies,
+  activeBabyId: babies[0].id,
+  entriesByBaby,
+  sessions: {},
+  settings: { ...DEFAULT_SETTINGS, ai: { ...DEFAULT_SETTINGS.ai, apiKey } },
+  sync: createSyncState()
+});
+
+const KEEP_ALL: ImportOptions = { resolutions: {}, includeSettings: false };
+
+describe('exportJson', () => {
+  it('leaves out the API key and the sync connection', () => {
+    const backup = JSON.parse(exportJson(persisted([ADA], { ada: [] }, 'sk-secret'), 5000));
+    expect(backup).toMatchObject({ format: 'nurturetrack-backup', schemaVersion: 2, exportedAt: 5000 });
+    expect(backup.data.settings.ai.apiKey).toBe('');
+    expect(backup.data).not.toHaveProperty('sync');
+  });
+});
+
+describe('parseBackup', () => {
+  it('reads back its own export', () => {
+    const data = persisted([ADA], { ada: [bottle('e1', 1000)] }, 'sk-secret');
+    const parsed = parseBackup(exportJson(data));
+    expect(parsed.error).toBeUndefined();
+    expect(parsed.rejected).toEqual([]);
+    expect(parsed.data).toMatchObject({ babies: [ADA], entriesByBaby: { ada: [bottle('e1', 1000)] } });
+  });
+
+  it.each([
+    ['not JSON', '{', 'This file is not valid JSON.'],
+    ['another format', JSON.stringify({ format: 'other', data: {} }), 'This file is not a NurtureTrack backup.'],
+    ['no profiles', JSON.stringify({ format: 'nurturetrack-backup', data: { babies: [] } }), 'This backup has no baby profiles.'],
+    ['only invalid profiles', JSON.stringify({ format: 'nurturetrack-backup', data: { babies: [{ name: 'Ada' }] } }), 'None of the baby profiles in this backup are valid.']
+  ])('refuses %s', (_, text, error) => {
+    expect(parseBackup(text)).toMatchObject({ error });
+  });
+
+  it('rejects invalid entries and keeps the rest', () => {
+    const text = JSON.stringify({
+      format: 'nurturetrack-backup',
+      schemaVersion: 2,
+      data: { babies: [ADA], entriesByBaby: { ada: [bottle('e1', 1000), { id: 'e2', type: 'bath', timestamp: 2000 }] } }
+    });
+    const parsed = parseBackup(text);
+    expect(parsed.data!.entriesByBaby.ada.map(e => e.id)).toEqual(['e1']);
+    expect(parsed.rejected).toMatchObject([{ reason: 'unknown type "bath"' }]);
+  });
+
+  it('migrates a backup from an older version', () => {
+    const text = JSON.stringify({ format: 'nurturetrack-backup', schemaVersion: 1, data: { babies: [ADA], entriesByBaby: { ada: [{ id: 'e1', type: 'bottle', timestamp: 1000, amount: 2 }] } } });
+    expect(parseBackup(text).data!.entriesByBaby.ada[0]).toMatchObject({ amount: 59.15, unit: 'oz' });
+  });
+});
+
+describe('planImport', () => {
+  it('sorts incoming entries into new, duplicates and conflicts', () => {
+    const current = persisted([ADA], { ada: [bottle('e1', 1000), bottle('e2', 2000)] });
+    // The duplicate's fields arrive in a different order
+    const sameAsE1: LogEntry = { unit: 'ml', amount: 90, timestamp: 1000, type: 'bottle', id: 'e1' };
+    const incoming = persisted([ADA, BEN], { ada: [sameAsE1, bottle('e2', 2000, 120)], ben: [bottle('e3', 3000)] });
+
+    const plan = planImport(current, incoming);
+    expect(plan.newBabies).toEqual([BEN]);
+    expect(plan.newEntries).toEqual([{ babyId: 'ben', entry: bottle('e3', 3000) }]);
+    expect(plan.duplicates).toBe(1);
+    expect(plan.conflicts).toEqual([{ babyId: 'ada', current: bottle('e2', 2000), incoming: bottle('e2', 2000, 120) }]);
+  });
+
+  it('matches ids across babies', () => {
+    const current = persisted([ADA], { ada: [bottle('e1', 1000)] });
+    const plan = planImport(current, persisted([BEN], { ben: [bottle('e1', 1000)] }));
+    expect(plan).toMatchObject({ newEntries: [], duplicates: 1 });
+  });
+
+  it('takes an id repeated in the backup once', () => {
+    const plan = planImport(persisted([ADA], { ada: [] }), persisted([ADA], { ada: [bottle('e1', 1000), bottle('e1', 1000)] }));
+    expect(plan.newEntries).toHaveLength(1);
+    expect(plan.duplicates).toBe(1);
+  });
+
+  it('finds nothing to do when the same backup is imported again', () => {
+    const current = persisted([ADA], { ada: [bottle('e1', 1000)] });
+    const once = applyImport(current, planImport(current, persisted([ADA, BEN], { ben: [bottle('e2', 2000)] })), KEEP_ALL);
+    const again = planImport(once, persisted([ADA, BEN], { ben: [bottle('e2', 2000)] }));
+    expect(again).toMatchObject({ newBabies: [], newEntries: [], duplicates: 1, conflicts: [] });
+  });
+});
+
+describe('applyImport', () => {
+  const current = persisted([ADA], { ada: [bottle('e1', 1000), bottle('e2', 2000)] }, 'sk-local');
+  const incoming = persisted([ADA], { ada: [bottle('e2', 2000, 120), bottle('e3', 3000)] }, 'sk-other');
+  const plan = planImport(current, incoming);
+
+  it('adds new entries newest first and keeps local ones in a conflict', () => {
+    const result = applyImport(current, plan, KEEP_ALL);
+    expect(result.entriesByBaby.ada).toEqual([bottle('e3', 3000), bottle('e2', 2000), bottle('e1', 1000)]);
+    expect(result.settings).toBe(current.settings);
+  });
+
+  it('replaces a conflicting entry when asked to', () => {
+    const result = applyImport(current, plan, { ...KEEP_ALL, resolutions: { e2: 'replace' } });
+    expect(result.entriesByBaby.ada.find(e => e.id === 'e2')!.amount).toBe(120);
+  });
+
+  it('takes the settings but keeps the local API key', () => {
+    const settings = { ...incoming.settings, unit: 'ml' as const };
+    const result = applyImport(current, planImport(current, { ...incoming, settings }), { ...KEEP_ALL, includeSettings: true });
+    expect(result.settings.unit).toBe('ml');
+    expect(result.settings.ai.apiKey).toBe('sk-local');
+  });
+
+  it('replaces the blank profile of a fresh install', () => {
+    const fresh = persisted([{ id: 'blank', name: 'Baby', photo: null, nextFeedingTime: null }], { blank: [] });
+    const result = applyImport(fresh, planImport(fresh, incoming), KEEP_ALL);
+    expect(result.babies).toEqual([ADA]);
+    expect(result.activeBabyId).toBe('ada');
+  });
+});
@@ -0,0 +1,224 @@
+import { BabyProfile, LogEntry } from '../types';
+import { isBlankProfile } from './babyProfiles';
+import { getTypeLabel } from './entryFormat';
+import {
+  CURRENT_SCHEMA_VERSION, decodeRecords, isRecord, PersistedData, QuarantinedRecord, RawRecords, STORAGE_KEYS
+} from './storage';
+
+// Backups and exports. JSON is a lossless copy of everything the app persists, apart from this
+// device's sync connection, and can be imported again; CSV is a flat, one-row-per-entry view
+// for spreadsheets.
+
+const BACKUP_FORMAT = 'nurturetrack-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  data: Omit<PersistedData, 'sync'>;
+}
+
+export const exportJson = ({ sync, ...data }: PersistedData, now = Date.now()): string => {
+  // An API key is a credential, not data; it stays on the device that entered it
+  const settings = { ...data.settings, ai: { ...data.settings.ai, apiKey: '' } };
+  const backup: BackupFile = { format: BACKUP_FORMAT, schemaVersion: CURRENT_SCHEMA_VERSION, exportedAt: now, data: { ...data, settings } };
+  return JSON.stringify(backup, null, 2);
+};
+
+// --- CSV ------------------------------------------------------------------------------------
+
+const CSV_COLUMNS: { header: string; value: (entry: LogEntry, baby: BabyProfile) => string | number | undefined }[] = [
+  { header: 'baby', value: (_, baby) => baby.name },
+  { header: 'id', value: entry => entry.id },
+  { header: 'type', value: entry => getTypeLabel(entry.type) },
+  { header: 'time', value: entry => new Date(entry.timestamp).toISOString() },
+  { header: 'duration_min', value: entry => entry.duration },
+  { header: 'amount_ml', value: entry => entry.amount },
+  { header: 'entered_unit', value: entry => entry.unit },
+  { header: 'left_min', value: entry => entry.sides?.left },
+  { header: 'right_min', value: entry => entry.sides?.right },
+  { header: 'pumped_left_ml', value: entry => entry.pumped?.left },
+  { header: 'pumped_right_ml', value: entry => entry.pumped?.right },
+  { header: 'medicine', value: entry => entry.medicine },
+  { header: 'dose', value: entry => entry.dose },
+  { header: 'dose_unit', value: entry => entry.doseUnit },
+  { header: 'food', value: entry => entry.food },
+  { header: 'reaction', value: entry => entry.reaction },
+  { header: 'temperature_c', value: entry => entry.temperature },
+  { header: 'weight_kg', value: entry => entry.weight },
+  { header: 'length_cm', value: entry => entry.length },
+  { header: 'head_cm', value: entry => entry.head },
+  { header: 'note', value: entry => entry.note }
+];
+
+// RFC 4180: quote fields with separators, quotes or line breaks, doubling inner quotes
+export const toCsvField = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Oldest first across all babies, which is how spreadsheets are usually read
+export const exportCsv = (data: PersistedData): string => {
+  const rows = data.babies
+    .flatMap(baby => (data.entriesByBaby[baby.id] || []).map(entry => ({ baby, entry })))
+    .sort((a, b) => a.entry.timestamp - b.entry.timestamp)
+    .map(({ baby, entry }) => CSV_COLUMNS.map(column => toCsvField(column.value(entry, baby))).join(','));
+  return [CSV_COLUMNS.map(column => column.header).join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const getExportFileName = (extension: 'json' | 'csv', now = Date.now()) => {
+  const d = new Date(now);
+  const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return `nurturetrack-${date}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Import ---------------------------------------------------------------------------------
+
+export interface ParsedBackup {
+  data?: PersistedData;
+  rejected: QuarantinedRecord[]; // records that failed validation and will not be imported
+  error?: string; // the file could not be read as a backup at all
+}
+
+// Runs the backup through the same migrations and validators as app storage, so an old
+// export is upgraded and anything malformed is reported instead of imported
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { rejected: [], error: 'This file is not valid JSON.' };
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.data)) {
+    return { rejected: [], error: 'This file is not a NurtureTrack backup.' };
+  }
+  const { data: raw, schemaVersion } = parsed;
+  const rawBabies = raw.babies;
+  if (!Array.isArray(rawBabies) || rawBabies.length === 0) {
+    return { rejected: [], error: 'This backup has no baby profiles.' };
+  }
+
+  const stringify = (value: unknown) => value === undefined ? null : JSON.stringify(value);
+  const records: RawRecords = {
+    [STORAGE_KEYS.schemaVersion]: String(Number.isInteger(schemaVersion) ? schemaVersion : CURRENT_SCHEMA_VERSION),
+    [STORAGE_KEYS.babies]: stringify(rawBabies),
+    [STORAGE_KEYS.activeBaby]: typeof raw.activeBabyId === 'string' ? raw.activeBabyId : null,
+    [STORAGE_KEYS.entries]: stringify(raw.entriesByBaby),
+    [STORAGE_KEYS.sessions]: stringify(raw.sessions),
+    [STORAGE_KEYS.settings]: stringify(raw.settings)
+  };
+  const { data, quarantined } = decodeRecords(records);
+  if (data.babies.every(baby => !rawBabies.some(r => isRecord(r) && r.id === baby.id))) {
+    return { rejected: quarantined, error: 'None of the baby profiles in this backup are valid.' };
+  }
+  return { data, rejected: quarantined };
+};
+
+// Entries from another app's export, shaped like a backup holding just the baby they go to
+export const toIncomingData = (current: PersistedData, babyId: string, entries: LogEntry[]): PersistedData => ({
+  babies: current.babies.filter(baby => baby.id === babyId),
+  activeBabyId: babyId,
+  entriesByBaby: { [babyId]: entries },
+  sessions: {},
+  settings: current.settings,
+  sync: current.sync
+});
+
+export interface ImportConflict {
+  babyId: string;
+  current: LogEntry;
+  incoming: LogEntry;
+}
+
+export interface ImportPlan {
+  incoming: PersistedData;
+  newBabies: BabyProfile[];
+  newEntries: { babyId: string; entry: LogEntry }[];
+  duplicates: number; // identical entries already on this device
+  conflicts: ImportConflict[]; // same id, different content
+}
+
+// Field order differs between entries that went through different code paths
+const sameEntry = (a: LogEntry, b: LogEntry) => {
+  const normalize = (entry: LogEntry) => JSON.stringify(Object.keys(entry).sort().map(key => [key, entry[key as keyof LogEntry]]));
+  return normalize(a) === normalize(b);
+};
+
+// Entries are matched by id across all babies, so re-importing a backup changes nothing
+export const planImport = (current: PersistedData, incoming: PersistedData): ImportPlan => {
+  const existing = new Map<string, { babyId: string; entry: LogEntry }>();
+  Object.entries(current.entriesByBaby).forEach(([babyId, list]) => list.forEach(entry => existing.set(entry.id, { babyId, entry })));
+
+  const plan: ImportPlan = {
+    incoming,
+    newBabies: incoming.babies.filter(baby => !current.babies.some(b => b.id === baby.id)),
+    newEntries: [],
+    duplicates: 0,
+    conflicts: []
+  };
+  incoming.babies.forEach(baby => {
+    (incoming.entriesByBaby[baby.id] || []).forEach(entry => {
+      const match = existing.get(entry.id);
+      if (!match) {
+        plan.newEntries.push({ babyId: baby.id, entry });
+        existing.set(entry.id, { babyId: baby.id, entry });
+      } else if (sameEntry(match.entry, entry)) {
+        plan.duplicates++;
+      } else {
+        plan.conflicts.push({ babyId: match.babyId, current: match.entry, incoming: entry });
+      }
+    });
+  });
+  return plan;
+};
+
+export type ConflictResolution = 'keep' | 'replace';
+
+export interface ImportOptions {
+  resolutions: Record<string, ConflictResolution>; // by entry id; unresolved conflicts keep the local entry
+  includeSettings: boolean;
+}
+
+export const applyImport = (current: PersistedData, plan: ImportPlan, options: ImportOptions): PersistedData => {
+  // A fresh install's placeholder profile is replaced rather than kept alongside the restore
+  const isReplaced = (baby: BabyProfile) => plan.newBabies.length > 0
+    && !plan.incoming.babies.some(b => b.id === baby.id)
+    && isBlankProfile(baby, current.entriesByBaby[baby.id] || []);
+  const babies = [...current.babies.filter(baby => !isReplaced(baby)), ...plan.newBabies];
+  const entriesByBaby: Record<string, LogEntry[]> = {};
+  babies.forEach(baby => { entriesByBaby[baby.id] = [...(current.entriesByBaby[baby.id] || [])]; });
+
+  plan.newEntries.forEach(({ babyId, entry }) => { entriesByBaby[babyId].push(entry); });
+  plan.conflicts.forEach(conflict => {
+    if (options.resolutions[conflict.incoming.id] !== 'replace' || !entriesByBaby[conflict.babyId]) return;
+    entriesByBaby[conflict.babyId] = entriesByBaby[conflict.babyId].map(entry => entry.id === conflict.incoming.id ? conflict.incoming : entry);
+  });
+  Object.values(entriesByBaby).forEach(list => list.sort((a, b) => b.timestamp - a.timestamp));
+
+  // Running timers are only taken for babies that have none here
+  const sessions = { ...current.sessions };
+  Object.entries(plan.incoming.sessions).forEach(([babyId, session]) => {
+    if (!sessions[babyId] && babies.some(b => b.id === babyId)) sessions[babyId] = session;
+  });
+
+  return {
+    babies,
+    activeBabyId: [current.activeBabyId, plan.incoming.activeBabyId].find(id => babies.some(b => b.id === id)) ?? babies[0].id,
+    entriesByBaby,
+    sessions,
+    settings: options.includeSettings
+      ? { ...plan.incoming.settings, ai: { ...plan.incoming.settings.ai, apiKey: current.settings.ai.apiKey } }
+      : current.settings,
+    sync: current.sync
+  };
+};
@@ -0,0 +1,245 @@
+import { AppSettings, BabyProfile, LogEntry } from '../types';
+import { AnalyticsSummary, getAnalytics, getEntriesInRange, TimeRange } from './analytics';
+import { getAgeLabel } from './babyProfiles';
+import { describeEntry, getEntryTitle } from './entryFormat';
+import { formatPercentile, getGrowthPoints, GROWTH_MEASURES, GrowthMeasure } from './growth';
+import { getHealthThresholds } from './healthFlags';
+import { getSchedule, isFeed } from './scheduler';
+import { formatDuration } from './sessionTimer';
+import { formatAmount, formatMeasure } from './units';
+
+// A one-page summary for check-ups, built entirely from local entries and opened as a
+// print-optimised HTML page; the browser's print dialog turns it into a PDF.
+
+const MINUTE = 60 * 1000;
+
+export interface ReportMeasurement {
+  entry: LogEntry;
+  percentiles: Partial<Record<GrowthMeasure, number>>; // only where the WHO tables apply
+}
+
+export interface DoctorReport {
+  baby: BabyProfile;
+  range: TimeRange;
+  generatedAt: number;
+  analytics: AnalyticsSummary;
+  longestFeedGapMinutes: number | null;
+  pumpedMl: number;
+  measurements: ReportMeasurement[];
+  medications: LogEntry[];
+  temperatures: LogEntry[];
+  notes: LogEntry[];
+}
+
+export const buildDoctorReport = (baby: BabyProfile, entries: LogEntry[], range: TimeRange, now = Date.now()): DoctorReport => {
+  const inRange = getEntriesInRange(entries, range);
+  const feeds = inRange.filter(isFeed);
+  const gaps = feeds.slice(1).map((feed, i) => (feed.timestamp - feeds[i].timestamp) / MINUTE);
+
+  // Percentiles are looked up on the full history so they match the growth chart
+  const percentilesById = new Map<string, Partial<Record<GrowthMeasure, number>>>();
+  GROWTH_MEASURES.forEach(measure => getGrowthPoints(baby, entries, measure).forEach(point => {
+    percentilesById.set(point.entryId, { ...percentilesById.get(point.entryId), [measure]: point.percentile });
+  }));
+
+  return {
+    baby,
+    range,
+    generatedAt: now,
+    analytics: getAnalytics(entries, range, getSchedule(baby)),
+    longestFeedGapMinutes: gaps.length > 0 ? Math.max(...gaps) : null,
+    pumpedMl: inRange.reduce((sum, entry) => sum + (entry.type === 'pumping' ? entry.amount ?? 0 : 0), 0),
+    measurements: inRange
+      .filter(entry => entry.type === 'growth')
+      .map(entry => ({ entry, percentiles: percentilesById.get(entry.id) ?? {} })),
+    medications: inRange.filter(entry => entry.type === 'medication'),
+    temperatures: inRange.filter(entry => entry.type === 'temperature'),
+    notes: inRange.filter(entry => entry.note)
+  };
+};
+
+// --- HTML -----------------------------------------------------------------------------------
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const minutesOrDash = (minutes: number | null) => minutes !== null && minutes > 0 ? formatDuration(minutes) : '–';
+
+const table = (headers: string[], rows: string[][]) => rows.length === 0 ? '<p class="empty">None recorded.</p>' : `
+  <table>
+    <thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody>
+  </table>`;
+
+const stats = (items: [string, string][]) =>
+  `<dl class="stats">${items.map(([label, value]) => `<div><dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd></div>`).join('')}</dl>`;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font: 12px/1.45 -apple-system, system-ui, "Segoe UI", Roboto, sans-serif; color: #0f172a; margin: 0 auto; max-width: 780px; padding: 32px; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #0f172a; padding-bottom: 12px; margin-bottom: 20px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin: 22px 0 10px; }
+  .meta { color: #475569; text-align: right; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin: 0; }
+  .stats div { background: #f8fafc; border-radius: 8px; padding: 8px 10px; }
+  dt { font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; color: #64748b; }
+  dd { margin: 2px 0 0; font-size: 15px; font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 5px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; color: #64748b; }
+  .flag { color: #b91c1c; font-weight: 700; }
+  .empty { color: #94a3b8; }
+  .toolbar { text-align: right; margin-bottom: 16px; }
+  .toolbar button { font: inherit; font-weight: 700; padding: 8px 16px; border-radius: 999px; border: 0; background: #4f46e5; color: #fff; cursor: pointer; }
+  footer { margin-top: 28px; color: #94a3b8; font-size: 10px; }
+  section, tr { break-inside: avoid; }
+  @media print {
+    body { padding: 0; max-width: none; }
+    .toolbar { display: none; }
+    @page { margin: 14mm; }
+  }
+`;
+
+export const renderDoctorReportHtml = (report: DoctorReport, settings: Pick<AppSettings, 'unit' | 'measurement'>): string => {
+  const { baby, range, analytics } = report;
+  const { feeds, breast, sleep } = analytics;
+  const dayCount = Math.max(1, analytics.days.length);
+  const lastDay = range.end - 1;
+  const title = `${baby.name} · ${formatDate(range.start)} – ${formatDate(lastDay)}`;
+  const profile = [
+    baby.birthDate !== undefined && `Born ${formatDate(baby.birthDate)}`,
+    getAgeLabel(baby, lastDay),
+    baby.sex && (baby.sex === 'female' ? 'Girl' : 'Boy')
+  ].filter(Boolean).join(' · ');
+
+  const dailyRows = analytics.days.map(day => [
+    escapeHtml(formatDay(day.date)),
+    String(day.feeds),
+    day.intakeMl > 0 ? escapeHtml(formatAmount(day.intakeMl, settings.unit)) : '–',
+    String(day.wetDiapers),
+    String(day.dirtyDiapers),
+    escapeHtml(minutesOrDash(day.sleepMinutes))
+  ]);
+
+  const growthRows = report.measurements.map(({ entry, percentiles }) => {
+    const cell = (measure: GrowthMeasure) => {
+      if (entry[measure] === undefined) return '–';
+      const value = formatMeasure(entry[measure], measure === 'weight' ? 'weight' : 'length', settings.measurement);
+      const percentile = percentiles[measure];
+      return escapeHtml(percentile !== undefined ? `${value} (${formatPercentile(percentile)})` : value);
+    };
+    return [escapeHtml(formatDate(entry.timestamp)), cell('weight'), cell('length'), cell('head')];
+  });
+
+  const medicationRows = report.medications.map(entry => [
+    escapeHtml(formatDateTime(entry.timestamp)),
+    escapeHtml(getEntryTitle(entry)),
+    escapeHtml(describeEntry(entry, settings) ?? '–')
+  ]);
+
+  const { feverCelsius } = getHealthThresholds(baby, report.generatedAt);
+  const temperatureRows = report.temperatures.map(entry => [
+    escapeHtml(formatDateTime(entry.timestamp)),
+    `<span class="${entry.temperature !== undefined && entry.temperature >= feverCelsius ? 'flag' : ''}">${escapeHtml(formatMeasure(entry.temperature, 'temperature', settings.measurement))}</span>`
+  ]);
+
+  const noteRows = report.notes.map(entry => [
+    escapeHtml(formatDateTime(entry.timestamp)),
+    escapeHtml(getEntryTitle(entry)),
+    escapeHtml(entry.note!)
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`Doctor report – ${title}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print or Save as PDF</button></div>
+<header>
+  <div>
+    <h1>${escapeHtml(baby.name)}</h1>
+    <div>${escapeHtml(profile)}</div>
+  </div>
+  <div class="meta">
+    <div><strong>${escapeHtml(`${formatDate(range.start)} – ${formatDate(lastDay)}`)}</strong></div>
+    <div>${dayCount} day${dayCount === 1 ? '' : 's'} · generated ${escapeHtml(formatDateTime(report.generatedAt))}</div>
+  </div>
+</header>
+
+<section>
+  <h2>Feeding</h2>
+  ${stats([
+    ['Feeds', String(feeds.feedCount)],
+    ['Feeds / day', (feeds.feedCount / dayCount).toFixed(1)],
+    ['Avg interval', minutesOrDash(feeds.averageIntervalMinutes)],
+    ['Longest gap', minutesOrDash(report.longestFeedGapMinutes)],
+    ['Bottle total', feeds.intakeMl > 0 ? formatAmount(feeds.intakeMl, settings.unit) : '–'],
+    ['Bottle / day', feeds.intakeMl > 0 ? formatAmount(feeds.intakeMl / dayCount, settings.unit) : '–'],
+    ['Nursing L / R', breast.leftShare !== null ? `${minutesOrDash(breast.leftMinutes)} / ${minutesOrDash(breast.rightMinutes)}` : '–'],
+    ['Pumped', report.pumpedMl > 0 ? formatAmount(report.pumpedMl, settings.unit) : '–']
+  ])}
+</section>
+
+<section>
+  <h2>Sleep</h2>
+  ${stats([
+    ['Total', minutesOrDash(sleep.totalMinutes)],
+    ['Per day', minutesOrDash(sleep.totalMinutes / dayCount)],
+    ['Longest stretch', minutesOrDash(sleep.longestMinutes)],
+    ['Day / night', sleep.totalMinutes > 0 ? `${formatDuration(sleep.dayMinutes)} / ${formatDuration(sleep.nightMinutes)}` : '–']
+  ])}
+</section>
+
+<section>
+  <h2>Day by day</h2>
+  ${table(['Date', 'Feeds', 'Bottle', 'Wet', 'Dirty', 'Sleep'], dailyRows)}
+  <p class="empty">Diapers per day on average: ${analytics.averageDiapersPerDay.wet.toFixed(1)} wet, ${analytics.averageDiapersPerDay.dirty.toFixed(1)} dirty.</p>
+</section>
+
+<section>
+  <h2>Growth</h2>
+  ${table(['Date', 'Weight', 'Length', 'Head'], growthRows)}
+</section>
+
+<section>
+  <h2>Medication</h2>
+  ${table(['When', 'Medicine', 'Dose'], medicationRows)}
+</section>
+
+<section>
+  <h2>Temperature</h2>
+  ${table(['When', 'Reading'], temperatureRows)}
+</section>
+
+<section>
+  <h2>Notes</h2>
+  ${table(['When', 'Entry', 'Note'], noteRows)}
+</section>
+
+<footer>Generated by NurtureTrack from entries logged on this device. Percentiles use the WHO Child Growth Standards.</footer>
+</body>
+</html>`;
+};
+
+// Opens the report in a new tab; falls back to the current tab when pop-ups are blocked
+export const openDoctorReport = (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  if (!window.open(url, '_blank')) window.location.assign(url);
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
@@ -0,0 +1,62 @@
+import { AppSettings, EntryType, LogEntry, SolidsReaction } from '../types';
+import { formatAmount, formatMeasure } from './units';
+
+export const getTypeLabel = (type: EntryType): string => {
+  const labels: Record<EntryType, string> = {
+    breast_left: 'Left Breast',
+    breast_right: 'Right Breast',
+    bottle: 'Bottle',
+    diaper_wet: 'Wet Diaper',
+    diaper_dirty: 'Dirty Diaper',
+    diaper_both: 'Both Diaper',
+    sleep: 'Sleep',
+    tummy_time: 'Tummy Time',
+    medication: 'Medication',
+    pumping: 'Pumping',
+    solids: 'Solids',
+    temperature: 'Temperature',
+    growth: 'Growth'
+  };
+  return labels[type] || type;
+};
+
+// Medication entries read better by the medicine's name
+export const getEntryTitle = (entry: LogEntry): string =>
+  entry.type === 'medication' && entry.medicine ? entry.medicine : getTypeLabel(entry.type);
+
+const REACTION_LABELS: Record<SolidsReaction, string> = {
+  liked: 'Liked',
+  neutral: 'Neutral',
+  disliked: 'Disliked',
+  allergy: 'Reaction'
+};
+
+export const getReactionLabel = (reaction: SolidsReaction) => REACTION_LABELS[reaction];
+
+// One-line summary of the type-specific fields, for lists and exports
+export const describeEntry = (entry: LogEntry, settings: Pick<AppSettings, 'unit' | 'measurement'>): string | null => {
+  switch (entry.type) {
+    case 'pumping':
+      if (entry.pumped) {
+        return `L ${formatAmount(entry.pumped.left, settings.unit)} · R ${formatAmount(entry.pumped.right, settings.unit)}`;
+      }
+      return entry.amount !== undefined ? formatAmount(entry.amount, settings.unit) : null;
+    case 'solids':
+      return [entry.food, entry.reaction && getReactionLabel(entry.reaction)].filter(Boolean).join(' · ') || null;
+    case 'medication':
+      return entry.dose !== undefined ? `${entry.dose} ${entry.doseUnit || ''}`.trim() : null;
+    case 'temperature':
+      return entry.temperature !== undefined ? formatMeasure(entry.temperature, 'temperature', settings.measurement) : null;
+    case 'growth':
+      return [
+        entry.weight !== undefined && formatMeasure(entry.weight, 'weight', settings.measurement),
+        entry.length !== undefined && formatMeasure(entry.length, 'length', settings.measurement),
+        entry.head !== undefined && `head ${formatMeasure(entry.head, 'length', settings.measurement)}`
+      ].filter(Boolean).join(' · ') || null;
+    default:
+      return null;
+  }
+};
+
+// 38.0 °C and up counts as a fever for infants
+export const FEVER_CELSIUS = 38;
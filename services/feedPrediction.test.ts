@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { BabyProfile, FeedingSchedule, LogEntry } from '../types';
+import { backtestPredictions, getNextFeed, predictNextFeed } from './feedPrediction';
+import { computeNextFeed, DEFAULT_SCHEDULE } from './scheduler';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = new Date(2026, 9, 12, 0, 0).getTime();
+
+const SCHEDULE: FeedingSchedule = { ...DEFAULT_SCHEDULE, anchor: 'start', predictive: true };
+const BABY: BabyProfile = { id: 'baby', name: 'Ada', schedule: SCHEDULE };
+
+let nextId = 0;
+const bottle = (timestamp: number, amount = 90): LogEntry => ({ id: String(nextId++), type: 'bottle', timestamp, amount });
+
+// Bottles at the given offsets, in hours from the start
+const feedsAt = (hours: number[]) => hours.map(h => bottle(START + h * HOUR));
+const every = (intervalHours: number, count: number) => feedsAt(Array.from({ length: count }, (_, i) => i * intervalHours));
+
+// Every 2 hours from 8:00 to 20:00, then every 4 hours overnight
+const dayAndNight = (days: number) => feedsAt(Array.from({ length: days }, (_, day) =>
+  [0, 4, 8, 10, 12, 14, 16, 18, 20].map(hour => day * 24 + hour)).flat());
+
+describe('predictNextFeed', () => {
+  it('predicts a regular interval with a narrow window', () => {
+    const entries = every(3, 16);
+    const last = entries[entries.length - 1].timestamp;
+    const prediction = predictNextFeed(entries, SCHEDULE, last + 30 * MINUTE)!;
+    expect(prediction).toMatchObject({ lastFeedAt: last, intervalMinutes: 180, time: last + 3 * HOUR, sizeFactor: 1, confidence: 'medium' });
+    expect(prediction.windowEnd - prediction.windowStart).toBe(0);
+  });
+
+  it('grows confident after a week of the same rhythm', () => {
+    const entries = every(3, 56);
+    expect(predictNextFeed(entries, SCHEDULE, entries[55].timestamp + MINUTE)!.confidence).toBe('high');
+  });
+
+  it('learns longer gaps at night than by day', () => {
+    const entries = dayAndNight(5);
+    const at = (day: number, hour: number) => START + (day * 24 + hour) * HOUR;
+    const midday = predictNextFeed(entries.filter(e => e.timestamp <= at(4, 12)), SCHEDULE, at(4, 12) + MINUTE)!;
+    const night = predictNextFeed(entries.filter(e => e.timestamp <= at(4, 0)), SCHEDULE, at(4, 0) + MINUTE)!;
+    expect(midday.intervalMinutes).toBe(120);
+    expect(night.intervalMinutes).toBe(240);
+  });
+
+  it('stretches the gap after a bigger feed when the history shows it', () => {
+    // 120 ml bottles were followed by 4 hours, 60 ml ones by 2
+    const entries: LogEntry[] = [];
+    let time = START;
+    for (let i = 0; i < 12; i++) {
+      const big = i % 2 === 0;
+      entries.push(bottle(time, big ? 120 : 60));
+      time += (big ? 4 : 2) * HOUR;
+    }
+    entries.push(bottle(time, 120));
+    const prediction = predictNextFeed(entries, SCHEDULE, time + MINUTE)!;
+    expect(prediction.sizeFactor).toBeGreaterThan(1);
+  });
+
+  it('needs at least four past gaps', () => {
+    const entries = every(3, 4);
+    expect(predictNextFeed(entries, SCHEDULE, START + 10 * HOUR)).toBeNull();
+  });
+
+  it('skips gaps long enough to be missed logs', () => {
+    const entries = feedsAt([0, 3, 6, 9, 21]);
+    expect(predictNextFeed(entries, SCHEDULE, START + 22 * HOUR)).toBeNull();
+  });
+});
+
+describe('getNextFeed', () => {
+  it('falls back to the schedule while the history is too short', () => {
+    const entries = every(3, 3);
+    const now = START + 7 * HOUR;
+    expect(getNextFeed(BABY, entries, now)).toEqual({ time: START + 9 * HOUR, source: 'schedule', prediction: null });
+    expect(computeNextFeed(BABY, entries, now)).toBe(START + 9 * HOUR);
+  });
+
+  it('uses the prediction once there is enough history', () => {
+    const baby = { ...BABY, schedule: { ...SCHEDULE, dayIntervalMinutes: 150, nightIntervalMinutes: 150 } };
+    const entries = every(3, 16);
+    const now = entries[15].timestamp + MINUTE;
+    expect(getNextFeed(baby, entries, now)).toMatchObject({ source: 'prediction', time: entries[15].timestamp + 3 * HOUR });
+  });
+
+  it('keeps to the schedule unless it is set to follow the prediction', () => {
+    const baby = { ...BABY, schedule: { ...SCHEDULE, predictive: false, dayIntervalMinutes: 150, nightIntervalMinutes: 150 } };
+    const entries = every(3, 16);
+    const result = getNextFeed(baby, entries, entries[15].timestamp + MINUTE);
+    expect(result).toMatchObject({ source: 'schedule', time: entries[15].timestamp + 150 * MINUTE });
+    expect(result.prediction).not.toBeNull();
+  });
+
+  it('prefers a manual time over both', () => {
+    const time = START + 100 * HOUR;
+    expect(getNextFeed({ ...BABY, nextFeedingTime: time }, every(3, 16), START + 46 * HOUR)).toMatchObject({ time, source: 'manual' });
+  });
+});
+
+describe('backtestPredictions', () => {
+  it('scores a regular series against a schedule that is 30 minutes short', () => {
+    const baby = { ...BABY, schedule: { ...SCHEDULE, dayIntervalMinutes: 150, nightIntervalMinutes: 150 } };
+    const entries = every(3, 16);
+    const result = backtestPredictions(baby, entries, START + 46 * HOUR);
+    // Feeds from the ninth on, once the history has gaps from close enough in the day
+    expect(result).toEqual({
+      predictions: 8,
+      meanAbsErrorMinutes: 0,
+      medianAbsErrorMinutes: 0,
+      withinWindowShare: 1,
+      scheduleMeanAbsErrorMinutes: 30
+    });
+  });
+
+  it('measures the error of a late feed', () => {
+    const entries = [...every(3, 15), bottle(START + (14 * 3 + 4) * HOUR)];
+    const result = backtestPredictions(BABY, entries, START + 50 * HOUR);
+    expect(result.predictions).toBe(8);
+    expect(result.meanAbsErrorMinutes).toBeCloseTo(60 / 8);
+    expect(result.medianAbsErrorMinutes).toBe(0);
+    expect(result.withinWindowShare).toBeCloseTo(7 / 8);
+  });
+
+  it('has nothing to score without enough history', () => {
+    expect(backtestPredictions(BABY, every(3, 5), START + 20 * HOUR)).toEqual({
+      predictions: 0,
+      meanAbsErrorMinutes: null,
+      medianAbsErrorMinutes: null,
+      withinWindowShare: null,
+      scheduleMeanAbsErrorMinutes: null
+    });
+  });
+});
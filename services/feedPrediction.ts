@@ -0,0 +1,248 @@
+import { BabyProfile, FeedingSchedule, LogEntry } from '../types';
+import { computeNextFeed, getSchedule, isFeed } from './scheduler';
+
+// Predicts the next feed from the baby's own recent rhythm. Every past gap between feeds is a
+// sample, weighted by how recent it is and how close its time of day is to now's, so a baby
+// who goes longer at night gets a longer night prediction. Bigger feeds then stretch the gap
+// in proportion to how much they did so in the history. The spread of the samples around
+// their prediction gives the confidence window.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const HISTORY_DAYS = 14;
+const CLUSTER_GAP_MINUTES = 45; // closer feeds are one cluster feed, as in suggestInterval
+const MAX_GAP_MINUTES = 8 * 60; // longer gaps are taken as missed logs
+const MIN_SAMPLES = 4;
+const RECENCY_HALF_LIFE_DAYS = 3;
+const HOUR_BANDWIDTH = 2.5; // hours; a gap starting 2.5h away in the day counts about 60%
+const WINDOW_QUANTILES: [number, number] = [0.2, 0.8];
+
+export type PredictionConfidence = 'low' | 'medium' | 'high';
+
+export interface FeedPrediction {
+  time: number; // most likely start of the next feed
+  windowStart: number;
+  windowEnd: number;
+  intervalMinutes: number; // from the anchor of the last feed to `time`
+  lastFeedAt: number; // anchor of the last feed: its start or end, per the schedule
+  samples: number; // effective number of past gaps behind the prediction
+  sizeFactor: number; // how much the last feed's size stretched (>1) or shortened the gap
+  confidence: PredictionConfidence;
+}
+
+// A feed together with any top-ups or side switches logged within the cluster gap
+interface FeedSession {
+  start: number;
+  end: number;
+  size: number; // relative to the baby's typical feed: 1 is usual, 2 twice as much
+}
+
+interface GapSample {
+  at: number; // anchor time of the feed the gap follows
+  gapMinutes: number;
+  hour: number; // fractional local hour of `at`
+  size: number;
+}
+
+const getFeedSize = (entry: LogEntry): number | null => {
+  if (entry.type === 'bottle') return entry.amount ?? null;
+  if (entry.duration !== undefined) return entry.duration;
+  return entry.sides ? entry.sides.left + entry.sides.right : null;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const weightedQuantile = (values: number[], weights: number[], q: number) => {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cumulative = 0;
+  for (const i of order) {
+    cumulative += weights[i];
+    if (cumulative >= q * total) return values[i];
+  }
+  return values[order[order.length - 1]];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getHour = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.getHours() + date.getMinutes() / 60;
+};
+
+const hourDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 24;
+  return Math.min(diff, 24 - diff);
+};
+
+// Sizes are compared within a kind, bottle volume with bottle volume and nursing minutes with
+// nursing minutes, then summed, so a nurse plus a top-up bottle counts as a bigger feed
+const getSessions = (feeds: LogEntry[]): FeedSession[] => {
+  const typicalSize: Record<'bottle' | 'breast', number | null> = { bottle: null, breast: null };
+  (['bottle', 'breast'] as const).forEach(kind => {
+    const sizes = feeds
+      .filter(feed => (feed.type === 'bottle') === (kind === 'bottle'))
+      .map(getFeedSize)
+      .filter((size): size is number => size !== null && size > 0);
+    typicalSize[kind] = sizes.length > 0 ? median(sizes) : null;
+  });
+  const relativeSize = (feed: LogEntry) => {
+    const size = getFeedSize(feed);
+    const typical = typicalSize[feed.type === 'bottle' ? 'bottle' : 'breast'];
+    return size !== null && size > 0 && typical ? size / typical : 1;
+  };
+
+  const sessions: FeedSession[] = [];
+  let lastStart = -Infinity;
+  feeds.forEach(feed => {
+    const end = feed.timestamp + (feed.duration ?? 0) * MINUTE;
+    const current = sessions[sessions.length - 1];
+    if (current && feed.timestamp - lastStart < CLUSTER_GAP_MINUTES * MINUTE) {
+      current.end = Math.max(current.end, end);
+      current.size += relativeSize(feed);
+    } else {
+      sessions.push({ start: feed.timestamp, end, size: relativeSize(feed) });
+    }
+    lastStart = feed.timestamp;
+  });
+  return sessions;
+};
+
+const getAnchor = (session: FeedSession, schedule: FeedingSchedule) =>
+  schedule.anchor === 'end' ? session.end : session.start;
+
+// Predicts from the entries logged up to `now`; null until there are enough past gaps to learn from
+export const predictNextFeed = (entries: LogEntry[], schedule: FeedingSchedule, now = Date.now()): FeedPrediction | null => {
+  const feeds = entries
+    .filter(entry => isFeed(entry) && entry.timestamp <= now && entry.timestamp >= now - HISTORY_DAYS * DAY)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const sessions = getSessions(feeds);
+  if (sessions.length < MIN_SAMPLES + 1) return null;
+
+  const samples: GapSample[] = sessions.slice(0, -1).flatMap((session, i): GapSample[] => {
+    const at = getAnchor(session, schedule);
+    const gapMinutes = (sessions[i + 1].start - at) / MINUTE;
+    const startGap = (sessions[i + 1].start - session.start) / MINUTE;
+    if (gapMinutes <= 0 || startGap > MAX_GAP_MINUTES) return [];
+    return [{ at, gapMinutes, hour: getHour(at), size: session.size }];
+  });
+  if (samples.length < MIN_SAMPLES) return null;
+
+  const last = sessions[sessions.length - 1];
+  const lastFeedAt = getAnchor(last, schedule);
+  const lastHour = getHour(lastFeedAt);
+  const weights = samples.map(sample => {
+    const ageDays = (lastFeedAt - sample.at) / DAY;
+    const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    const timeOfDay = Math.exp(-0.5 * Math.pow(hourDistance(sample.hour, lastHour) / HOUR_BANDWIDTH, 2));
+    return recency * timeOfDay;
+  });
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const effectiveSamples = totalWeight ** 2 / weights.reduce((sum, w) => sum + w * w, 0);
+  if (totalWeight === 0 || effectiveSamples < 2) return null;
+
+  const gaps = samples.map(sample => sample.gapMinutes);
+  const baseGap = weightedQuantile(gaps, weights, 0.5);
+
+  // Weighted least squares of gap (relative to the base) on feed size; only a positive effect
+  // is used, since a smaller feed is as often a sleepy one as a hungry one
+  const meanOf = (values: number[]) => values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalWeight;
+  const sizes = samples.map(sample => sample.size);
+  const ratios = gaps.map(gap => gap / baseGap);
+  const meanSize = meanOf(sizes);
+  const meanRatio = meanOf(ratios);
+  const sizeVariance = meanOf(sizes.map(size => (size - meanSize) ** 2));
+  const slope = sizeVariance > 0.01
+    ? clamp(meanOf(sizes.map((size, i) => (size - meanSize) * (ratios[i] - meanRatio))) / sizeVariance, 0, 0.5)
+    : 0;
+  const stretch = (size: number) => clamp(1 + slope * (size - meanSize), 0.8, 1.25);
+
+  const sizeFactor = stretch(last.size);
+  const intervalMinutes = baseGap * sizeFactor;
+
+  // How far each past gap landed from what this model would have said for it
+  const residuals = samples.map((sample, i) => gaps[i] / (baseGap * stretch(sample.size)));
+  const low = Math.min(1, weightedQuantile(residuals, weights, WINDOW_QUANTILES[0]));
+  const high = Math.max(1, weightedQuantile(residuals, weights, WINDOW_QUANTILES[1]));
+  const windowMinutes = intervalMinutes * (high - low);
+
+  return {
+    time: Math.round(lastFeedAt + intervalMinutes * MINUTE),
+    windowStart: Math.round(lastFeedAt + intervalMinutes * low * MINUTE),
+    windowEnd: Math.round(lastFeedAt + intervalMinutes * high * MINUTE),
+    intervalMinutes,
+    lastFeedAt,
+    samples: Math.round(effectiveSamples),
+    sizeFactor,
+    confidence: effectiveSamples >= 8 && windowMinutes <= 60 ? 'high'
+      : effectiveSamples >= 4 && windowMinutes <= 120 ? 'medium'
+      : 'low'
+  };
+};
+
+export interface NextFeed {
+  time: number | null;
+  source: 'manual' | 'prediction' | 'schedule';
+  prediction: FeedPrediction | null;
+}
+
+// What the dashboard and the reminders use: the manual override if one is set, else the
+// prediction when the schedule follows it and there is enough history, else the schedule
+export const getNextFeed = (baby: BabyProfile, entries: LogEntry[], now = Date.now()): NextFeed => {
+  const schedule = getSchedule(baby);
+  const prediction = predictNextFeed(entries, schedule, now);
+  if (baby.nextFeedingTime != null) return { time: baby.nextFeedingTime, source: 'manual', prediction };
+  if (schedule.predictive && prediction) return { time: prediction.time, source: 'prediction', prediction };
+  return { time: computeNextFeed(baby, entries, now), source: 'schedule', prediction };
+};
+
+export const getNextFeedingTime = (baby: BabyProfile, entries: LogEntry[], now = Date.now()): number | null =>
+  getNextFeed(baby, entries, now).time;
+
+// --- Backtesting ----------------------------------------------------------------------------
+
+export interface BacktestResult {
+  predictions: number; // feeds that had enough history before them to be predicted
+  meanAbsErrorMinutes: number | null;
+  medianAbsErrorMinutes: number | null;
+  withinWindowShare: number | null; // 0-1 of feeds that started inside the predicted window
+  scheduleMeanAbsErrorMinutes: number | null; // the fixed schedule on the same feeds, for comparison
+}
+
+// Replays the last `days`: for each feed, predicts it from only the entries logged before it
+// and compares with when it actually started. Gaps long enough to be missed logs are skipped.
+export const backtestPredictions = (baby: BabyProfile, entries: LogEntry[], now = Date.now(), days = HISTORY_DAYS): BacktestResult => {
+  const schedule = getSchedule(baby);
+  const scheduleOnly: BabyProfile = { ...baby, nextFeedingTime: null };
+  const sessions = getSessions(entries.filter(isFeed).sort((a, b) => a.timestamp - b.timestamp));
+
+  const errors: number[] = [];
+  const scheduleErrors: number[] = [];
+  let withinWindow = 0;
+  sessions.forEach((session, i) => {
+    if (i === 0 || session.start < now - days * DAY || session.start > now) return;
+    if ((session.start - sessions[i - 1].start) / MINUTE > MAX_GAP_MINUTES) return;
+    const before = entries.filter(entry => entry.timestamp < session.start);
+    const at = session.start - 1;
+    const prediction = predictNextFeed(before, schedule, at);
+    if (!prediction) return;
+    errors.push(Math.abs(prediction.time - session.start) / MINUTE);
+    if (session.start >= prediction.windowStart && session.start <= prediction.windowEnd) withinWindow++;
+    const scheduled = computeNextFeed(scheduleOnly, before, at);
+    if (scheduled !== null) scheduleErrors.push(Math.abs(scheduled - session.start) / MINUTE);
+  });
+
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  return {
+    predictions: errors.length,
+    meanAbsErrorMinutes: mean(errors),
+    medianAbsErrorMinutes: errors.length > 0 ? median(errors) : null,
+    withinWindowShare: errors.length > 0 ? withinWindow / errors.length : null,
+    scheduleMeanAbsErrorMinutes: mean(scheduleErrors)
+  };
+};
@@ -0,0 +1,127 @@
+import { BabyProfile, BabySex, LogEntry } from '../../types';
+import { GrowthMeasure, LmsRow, WHO_LMS, WHO_MAX_MONTHS } from './whoStandards';
+
+export type { GrowthMeasure } from './whoStandards';
+export { WHO_MAX_MONTHS } from './whoStandards';
+
+export const GROWTH_MEASURES: GrowthMeasure[] = ['weight', 'length', 'head'];
+
+// The lines drawn on WHO charts; crossing two of them is worth a conversation with the doctor
+export const MAJOR_PERCENTILES = [3, 15, 50, 85, 97];
+
+const DAYS_PER_MONTH = 30.4375;
+const DAY = 24 * 60 * 60 * 1000;
+
+// LMS parameters at a fractional age, interpolated between the monthly rows
+export const getLms = (measure: GrowthMeasure, sex: BabySex, ageMonths: number): LmsRow => {
+  const rows = WHO_LMS[measure][sex];
+  const clamped = Math.min(Math.max(ageMonths, 0), WHO_MAX_MONTHS);
+  const lower = Math.floor(clamped);
+  const upper = Math.min(lower + 1, WHO_MAX_MONTHS);
+  const t = clamped - lower;
+  return [0, 1, 2].map(i => rows[lower][i] + (rows[upper][i] - rows[lower][i]) * t) as LmsRow;
+};
+
+export const toZScore = (value: number, [l, m, s]: LmsRow) =>
+  Math.abs(l) < 1e-6 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+
+export const fromZScore = (z: number, [l, m, s]: LmsRow) =>
+  Math.abs(l) < 1e-6 ? m * Math.exp(s * z) : m * Math.pow(1 + l * s * z, 1 / l);
+
+// Standard normal CDF (Abramowitz & Stegun 26.2.17, accurate to ~1e-7)
+const normalCdf = (z: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+};
+
+// Inverse of normalCdf by bisection; only used for the handful of chart lines
+const normalQuantile = (p: number) => {
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid; else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+export const zToPercentile = (z: number) => normalCdf(z) * 100;
+
+export interface GrowthPoint {
+  entryId: string;
+  timestamp: number;
+  ageMonths: number;
+  value: number; // kg or cm
+  z: number;
+  percentile: number;
+}
+
+export const getMeasureValue = (entry: LogEntry, measure: GrowthMeasure): number | undefined => entry[measure];
+
+// Measurements the WHO tables cover: needs a birth date and sex, and an age of 0-24 months
+export const getGrowthPoints = (baby: BabyProfile, entries: LogEntry[], measure: GrowthMeasure): GrowthPoint[] => {
+  if (baby.birthDate === undefined || !baby.sex) return [];
+  return entries
+    .filter(entry => entry.type === 'growth' && getMeasureValue(entry, measure) !== undefined)
+    .map(entry => {
+      const ageMonths = (entry.timestamp - baby.birthDate!) / DAY / DAYS_PER_MONTH;
+      const value = getMeasureValue(entry, measure)!;
+      const z = toZScore(value, getLms(measure, baby.sex!, ageMonths));
+      return { entryId: entry.id, timestamp: entry.timestamp, ageMonths, value, z, percentile: zToPercentile(z) };
+    })
+    .filter(point => point.ageMonths >= 0 && point.ageMonths <= WHO_MAX_MONTHS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export interface PercentileCurvePoint {
+  month: number;
+  [percentile: string]: number; // "p3", "p15", ... in kg or cm
+}
+
+export const getPercentileCurves = (measure: GrowthMeasure, sex: BabySex, percentiles = MAJOR_PERCENTILES): PercentileCurvePoint[] => {
+  const zs = percentiles.map(p => normalQuantile(p / 100));
+  return Array.from({ length: WHO_MAX_MONTHS + 1 }, (_, month) => {
+    const lms = getLms(measure, sex, month);
+    const point: PercentileCurvePoint = { month };
+    percentiles.forEach((p, i) => { point[`p${p}`] = fromZScore(zs[i], lms); });
+    return point;
+  });
+};
+
+// How many major lines sit below a percentile, e.g. 40th -> 2 (above the 3rd and 15th)
+const getBand = (percentile: number) => MAJOR_PERCENTILES.filter(line => percentile >= line).length;
+
+export interface PercentileCrossing {
+  measure: GrowthMeasure;
+  from: GrowthPoint;
+  to: GrowthPoint;
+  linesCrossed: number;
+  direction: 'up' | 'down';
+}
+
+// Compares the latest measurement with every earlier one and reports the widest crossing
+export const detectPercentileCrossing = (measure: GrowthMeasure, points: GrowthPoint[]): PercentileCrossing | null => {
+  if (points.length < 2) return null;
+  const latest = points[points.length - 1];
+  let widest: PercentileCrossing | null = null;
+  points.slice(0, -1).forEach(earlier => {
+    const crossed = getBand(latest.percentile) - getBand(earlier.percentile);
+    if (Math.abs(crossed) >= 2 && (!widest || Math.abs(crossed) > widest.linesCrossed)) {
+      widest = { measure, from: earlier, to: latest, linesCrossed: Math.abs(crossed), direction: crossed > 0 ? 'up' : 'down' };
+    }
+  });
+  return widest;
+};
+
+export const formatPercentile = (percentile: number) => {
+  if (percentile < 0.1) return '<0.1st';
+  if (percentile > 99.9) return '>99.9th';
+  const rounded = percentile < 1 || percentile > 99 ? Math.round(percentile * 10) / 10 : Math.round(percentile);
+  const suffix = rounded % 10 === 1 && rounded % 100 !== 11 ? 'st'
+    : rounded % 10 === 2 && rounded % 100 !== 12 ? 'nd'
+    : rounded % 10 === 3 && rounded % 100 !== 13 ? 'rd'
+    : 'th';
+  return `${rounded}${suffix}`;
+};
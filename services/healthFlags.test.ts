@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { BabyProfile, LogEntry } from '../types';
+import { getHealthAgeBand, getHealthFlags, getHealthThresholds, HealthRuleId } from './healthFlags';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+
+const babyAged = (days?: number): BabyProfile =>
+  ({ id: 'baby', name: 'Ada', birthDate: days === undefined ? undefined : NOW - days * DAY });
+
+let nextId = 0;
+const entry = (type: LogEntry['type'], hoursAgo: number, fields: Partial<LogEntry> = {}): LogEntry =>
+  ({ id: String(nextId++), type, timestamp: NOW - hoursAgo * HOUR, ...fields });
+
+const flagFor = (rule: HealthRuleId, baby: BabyProfile, entries: LogEntry[]) =>
+  getHealthFlags(baby, entries, NOW).find(flag => flag.rule === rule) ?? null;
+
+// A feed 30 hours ago, so the log reaches back past the last day
+const history = () => [entry('bottle', 30, { amount: 90 })];
+const wetDiapers = (count: number) => Array.from({ length: count }, (_, i) => entry('diaper_wet', 1 + i * 3));
+
+describe('age bands', () => {
+  it.each([
+    [0, 'newborn'],
+    [4, 'newborn'],
+    [5, 'early'],
+    [41, 'early'],
+    [42, 'young'],
+    [89, 'young'],
+    [90, 'older']
+  ])('puts day %i in the %s band', (days, band) => {
+    expect(getHealthAgeBand(babyAged(days), NOW).band).toBe(band);
+  });
+
+  it('uses the early band without a birth date', () => {
+    expect(getHealthAgeBand(babyAged(), NOW).band).toBe('early');
+  });
+
+  it('applies overrides to the current band only', () => {
+    const baby = { ...babyAged(10), healthThresholds: { early: { minWetDiapers: 4 }, young: { minWetDiapers: 2 } } };
+    expect(getHealthThresholds(baby, NOW)).toMatchObject({ minWetDiapers: 4, maxHoursWithoutDirty: 48 });
+  });
+});
+
+describe('wet diapers', () => {
+  it('is off before day 5', () => {
+    expect(flagFor('wet-diapers', babyAged(4), [...history(), ...wetDiapers(1)])).toBeNull();
+  });
+
+  it('is a concern from day 5 at half the minimum or fewer', () => {
+    expect(flagFor('wet-diapers', babyAged(5), [...history(), ...wetDiapers(3)])).toMatchObject({ severity: 'concern', title: 'Few wet diapers' });
+  });
+
+  it('is a watch just under the minimum', () => {
+    expect(flagFor('wet-diapers', babyAged(5), [...history(), ...wetDiapers(5)])).toMatchObject({ severity: 'watch' });
+  });
+
+  it('is quiet at the minimum', () => {
+    expect(flagFor('wet-diapers', babyAged(5), [...history(), ...wetDiapers(6)])).toBeNull();
+  });
+
+  it('waits until the log covers the last day', () => {
+    expect(flagFor('wet-diapers', babyAged(5), wetDiapers(1))).toBeNull();
+  });
+
+  it('is quiet once diapers are no longer being logged', () => {
+    expect(flagFor('wet-diapers', babyAged(5), [entry('diaper_wet', 80), entry('bottle', 1)])).toBeNull();
+  });
+});
+
+describe('dirty diapers', () => {
+  const old = () => entry('bottle', 100, { amount: 90 });
+
+  it('flags a newborn after 24 hours', () => {
+    expect(flagFor('dirty-diapers', babyAged(2), [old(), entry('diaper_dirty', 25), entry('diaper_wet', 1)]))
+      .toMatchObject({ severity: 'watch', explanation: expect.stringContaining('25 hours ago') });
+    expect(flagFor('dirty-diapers', babyAged(2), [old(), entry('diaper_dirty', 23), entry('diaper_wet', 1)])).toBeNull();
+  });
+
+  it('allows 48 hours until 6 weeks and 72 hours after', () => {
+    const entries = [old(), entry('diaper_both', 50), entry('diaper_wet', 1)];
+    expect(flagFor('dirty-diapers', babyAged(41), entries)).toMatchObject({ severity: 'watch' });
+    expect(flagFor('dirty-diapers', babyAged(42), entries)).toBeNull();
+  });
+
+  it('flags when no dirty diaper was ever logged', () => {
+    expect(flagFor('dirty-diapers', babyAged(10), [old(), entry('diaper_wet', 1)]))
+      .toMatchObject({ explanation: 'No dirty diaper has been logged in the last 48 hours.', entryIds: [] });
+  });
+});
+
+describe('short feeds', () => {
+  // Four feeds each in the last 3 days and in the 4 days before
+  const feeds = (recentMinutes: number, baselineMinutes: number) => [
+    ...[12, 30, 48, 60].map(hoursAgo => entry('breast_left', hoursAgo, { duration: recentMinutes })),
+    ...[90, 110, 130, 150].map(hoursAgo => entry('breast_right', hoursAgo, { duration: baselineMinutes }))
+  ];
+
+  it('flags feeds below 10 minutes until 6 weeks', () => {
+    expect(flagFor('short-feeds', babyAged(41), feeds(9, 15))).toMatchObject({ severity: 'watch', title: 'Shorter nursing feeds' });
+  });
+
+  it('allows 8 minutes from 6 weeks', () => {
+    expect(flagFor('short-feeds', babyAged(42), feeds(9, 15))).toBeNull();
+  });
+
+  it('needs the feeds to have got shorter', () => {
+    expect(flagFor('short-feeds', babyAged(41), feeds(9, 10))).toBeNull();
+  });
+
+  it('needs enough feeds in both periods', () => {
+    expect(flagFor('short-feeds', babyAged(41), feeds(9, 15).slice(1))).toBeNull();
+  });
+});
+
+describe('feed gaps', () => {
+  it('watches an open gap longer than 4 hours until 6 weeks', () => {
+    expect(flagFor('feed-gap', babyAged(41), [entry('bottle', 5, { amount: 90 })]))
+      .toMatchObject({ severity: 'watch', title: 'Long time since a feed' });
+  });
+
+  it('allows 6 hours from 6 weeks', () => {
+    expect(flagFor('feed-gap', babyAged(42), [entry('bottle', 5, { amount: 90 })])).toBeNull();
+  });
+
+  it('notes a past gap in the last day', () => {
+    const entries = [entry('bottle', 1, { amount: 90 }), entry('bottle', 7, { amount: 90 }), entry('bottle', 9, { amount: 90 })];
+    expect(flagFor('feed-gap', babyAged(10), entries)).toMatchObject({ severity: 'info', entryIds: [entries[0].id, entries[1].id] });
+  });
+
+  it('takes a day without feeds as logging having stopped', () => {
+    expect(flagFor('feed-gap', babyAged(10), [entry('bottle', 30, { amount: 90 })])).toBeNull();
+  });
+});
+
+describe('fever', () => {
+  const temperature = (celsius: number, hoursAgo = 1) => entry('temperature', hoursAgo, { temperature: celsius });
+
+  it('is quiet below 38 °C', () => {
+    expect(flagFor('fever', babyAged(30), [temperature(37.9)])).toBeNull();
+  });
+
+  it('is a concern at any fever under 3 months', () => {
+    expect(flagFor('fever', babyAged(89), [temperature(38)]))
+      .toMatchObject({ severity: 'concern', explanation: expect.stringContaining('Under 3 months') });
+  });
+
+  it('watches a fever from 3 months until it reaches 39 °C', () => {
+    expect(flagFor('fever', babyAged(90), [temperature(38.5)])).toMatchObject({ severity: 'watch' });
+    expect(flagFor('fever', babyAged(90), [temperature(39)]))
+      .toMatchObject({ severity: 'concern', explanation: expect.not.stringContaining('Under 3 months') });
+  });
+
+  it('notes a fever that has come down', () => {
+    expect(flagFor('fever', babyAged(90), [temperature(38.6, 6), temperature(37.2)]))
+      .toMatchObject({ severity: 'info', title: 'Fever has come down' });
+  });
+
+  it('forgets a fever after two days', () => {
+    expect(flagFor('fever', babyAged(30), [temperature(38.6, 50)])).toBeNull();
+  });
+});
+
+describe('unknown birth date', () => {
+  it('uses the early limits', () => {
+    const baby = babyAged();
+    expect(flagFor('wet-diapers', baby, [...history(), ...wetDiapers(5)])).toMatchObject({ severity: 'watch' });
+    expect(flagFor('feed-gap', baby, [entry('bottle', 5, { amount: 90 })])).toMatchObject({ severity: 'watch' });
+  });
+
+  it('treats a fever as high without claiming an age', () => {
+    expect(flagFor('fever', babyAged(), [entry('temperature', 1, { temperature: 38.2 })]))
+      .toMatchObject({ severity: 'concern', explanation: expect.not.stringContaining('Under 3 months') });
+  });
+});
+
+describe('getHealthFlags', () => {
+  it('puts the most serious first', () => {
+    const entries = [...history(), entry('bottle', 5, { amount: 90 }), entry('diaper_wet', 6), entry('temperature', 1, { temperature: 37.2 }), entry('temperature', 3, { temperature: 38.4 })];
+    expect(getHealthFlags(babyAged(10), entries, NOW).map(flag => [flag.rule, flag.severity])).toEqual([
+      ['wet-diapers', 'concern'],
+      ['feed-gap', 'watch'],
+      ['fever', 'info']
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+import { BabyProfile, HealthAgeBand, HealthThresholds, InsightAnomaly, LogEntry, MeasurementSystem } from '../types';
+import { getAgeInDays } from './babyProfiles';
+import { getNursingFeeds } from './breastSides';
+import { isFeed } from './scheduler';
+import { formatMeasure } from './units';
+
+// Rules over the log that flag what a parent or doctor would want to know about: too few wet
+// or dirty diapers, nursing feeds getting shorter, long gaps between feeds, and fever. They run
+// on the device from the entries alone. Limits depend on the baby's age and can be changed per
+// age band on the profile.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const SHORT_FEED_RECENT_DAYS = 3;
+const SHORT_FEED_BASELINE_DAYS = 4;
+const SHORT_FEED_MIN_SAMPLES = 4;
+const SHORT_FEED_DROP = 0.8; // recent median at most this share of the earlier one
+const DIAPER_LOGGING_HOURS = 72; // diapers logged within this long count as being tracked
+const MAX_OPEN_GAP_HOURS = 24; // a longer silence is taken as logging having stopped
+const FEVER_LOOKBACK_HOURS = 48;
+
+export type HealthFlagSeverity = InsightAnomaly['severity'];
+
+export type HealthRuleId = 'wet-diapers' | 'dirty-diapers' | 'short-feeds' | 'feed-gap' | 'fever';
+
+export interface HealthFlag {
+  rule: HealthRuleId;
+  severity: HealthFlagSeverity;
+  title: string;
+  explanation: string;
+  entryIds: string[]; // the entries it is based on, newest first
+}
+
+export interface HealthAgeBandInfo {
+  band: HealthAgeBand;
+  fromDay: number;
+  label: string;
+  defaults: HealthThresholds;
+}
+
+// Based on common newborn care guidance. Wet diapers build up over the first days, so their
+// check starts at day 5; breastfed babies may go days without a dirty diaper after 6 weeks.
+export const HEALTH_AGE_BANDS: HealthAgeBandInfo[] = [
+  {
+    band: 'newborn',
+    fromDay: 0,
+    label: 'First 5 days',
+    defaults: { minWetDiapers: 0, maxHoursWithoutDirty: 24, maxFeedGapHours: 4, minFeedMinutes: 10, feverCelsius: 38, highFeverCelsius: 38 }
+  },
+  {
+    band: 'early',
+    fromDay: 5,
+    label: '5 days to 6 weeks',
+    defaults: { minWetDiapers: 6, maxHoursWithoutDirty: 48, maxFeedGapHours: 4, minFeedMinutes: 10, feverCelsius: 38, highFeverCelsius: 38 }
+  },
+  {
+    band: 'young',
+    fromDay: 42,
+    label: '6 weeks to 3 months',
+    defaults: { minWetDiapers: 6, maxHoursWithoutDirty: 72, maxFeedGapHours: 6, minFeedMinutes: 8, feverCelsius: 38, highFeverCelsius: 38 }
+  },
+  {
+    band: 'older',
+    fromDay: 90,
+    label: '3 months and up',
+    defaults: { minWetDiapers: 5, maxHoursWithoutDirty: 96, maxFeedGapHours: 8, minFeedMinutes: 5, feverCelsius: 38, highFeverCelsius: 39 }
+  }
+];
+
+// Without a birth date the baby is treated as in the early weeks, whose limits are the strictest
+// that apply after the first days
+export const getHealthAgeBand = (baby: BabyProfile, now = Date.now()): HealthAgeBandInfo => {
+  const ageDays = getAgeInDays(baby, now);
+  if (ageDays === null) return HEALTH_AGE_BANDS[1];
+  return [...HEALTH_AGE_BANDS].reverse().find(band => ageDays >= band.fromDay)!;
+};
+
+export const getHealthThresholds = (baby: BabyProfile, now = Date.now()): HealthThresholds => {
+  const { band, defaults } = getHealthAgeBand(baby, now);
+  return { ...defaults, ...baby.healthThresholds?.[band] };
+};
+
+interface RuleInput {
+  baby: BabyProfile;
+  entries: LogEntry[]; // up to now, newest first
+  limits: HealthThresholds;
+  now: number;
+  measurement: MeasurementSystem;
+}
+
+const isWet = (entry: LogEntry) => entry.type === 'diaper_wet' || entry.type === 'diaper_both';
+const isDirty = (entry: LogEntry) => entry.type === 'diaper_dirty' || entry.type === 'diaper_both';
+const isDiaper = (entry: LogEntry) => entry.type.startsWith('diaper');
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+const hours = (ms: number) => Math.floor(ms / HOUR);
+
+// Checks that look for something missing only make sense once the log reaches back far enough
+const loggedSince = (entries: LogEntry[], from: number) => entries.length > 0 && entries[entries.length - 1].timestamp <= from;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const checkWetDiapers = ({ baby, entries, limits, now }: RuleInput): HealthFlag | null => {
+  if (limits.minWetDiapers <= 0 || !loggedSince(entries, now - DAY)) return null;
+  if (!entries.some(e => isDiaper(e) && e.timestamp >= now - DIAPER_LOGGING_HOURS * HOUR)) return null;
+  const wet = entries.filter(e => isWet(e) && e.timestamp >= now - DAY);
+  if (wet.length >= limits.minWetDiapers) return null;
+  return {
+    rule: 'wet-diapers',
+    severity: wet.length <= limits.minWetDiapers / 2 ? 'concern' : 'watch',
+    title: 'Few wet diapers',
+    explanation: `${plural(wet.length, 'wet diaper')} in the last 24 hours, against at least ${limits.minWetDiapers} expected. `
+      + `Fewer can mean ${baby.name} isn't getting enough milk; offer more feeds and call the doctor if it stays low.`,
+    entryIds: wet.map(e => e.id)
+  };
+};
+
+const checkDirtyDiapers = ({ entries, limits, now }: RuleInput): HealthFlag | null => {
+  if (limits.maxHoursWithoutDirty <= 0) return null;
+  const from = now - limits.maxHoursWithoutDirty * HOUR;
+  if (!loggedSince(entries, from) || !entries.some(e => isDiaper(e) && e.timestamp >= now - DIAPER_LOGGING_HOURS * HOUR)) return null;
+  const last = entries.find(isDirty);
+  if (last && last.timestamp >= from) return null;
+  return {
+    rule: 'dirty-diapers',
+    severity: 'watch',
+    title: 'No dirty diaper',
+    explanation: last
+      ? `The last dirty diaper was ${hours(now - last.timestamp)} hours ago, longer than the ${limits.maxHoursWithoutDirty} hours expected at this age.`
+      : `No dirty diaper has been logged in the last ${limits.maxHoursWithoutDirty} hours.`,
+    entryIds: last ? [last.id] : []
+  };
+};
+
+const checkShortFeeds = ({ entries, limits, now }: RuleInput): HealthFlag | null => {
+  if (limits.minFeedMinutes <= 0) return null;
+  const recentFrom = now - SHORT_FEED_RECENT_DAYS * DAY;
+  const baselineFrom = recentFrom - SHORT_FEED_BASELINE_DAYS * DAY;
+  // Merged into feeds, since a side switch can be logged as two entries
+  const feeds = getNursingFeeds(entries.filter(e => e.timestamp >= baselineFrom && e.duration !== undefined))
+    .map(feed => ({ ...feed, minutes: feed.leftMinutes + feed.rightMinutes }));
+  const recent = feeds.filter(feed => feed.start >= recentFrom);
+  const baseline = feeds.filter(feed => feed.start < recentFrom);
+  if (recent.length < SHORT_FEED_MIN_SAMPLES || baseline.length < SHORT_FEED_MIN_SAMPLES) return null;
+  const recentMedian = median(recent.map(feed => feed.minutes));
+  const baselineMedian = median(baseline.map(feed => feed.minutes));
+  if (recentMedian >= limits.minFeedMinutes || recentMedian > baselineMedian * SHORT_FEED_DROP) return null;
+  return {
+    rule: 'short-feeds',
+    severity: 'watch',
+    title: 'Shorter nursing feeds',
+    explanation: `Nursing feeds have been about ${Math.round(recentMedian)} minutes over the last ${SHORT_FEED_RECENT_DAYS} days, `
+      + `down from ${Math.round(baselineMedian)} before. Short feeds can be efficient, but watch diapers and weight, and ask about latch if it continues.`,
+    entryIds: recent.filter(feed => feed.minutes < limits.minFeedMinutes).flatMap(feed => feed.entryIds).reverse()
+  };
+};
+
+// The open gap since the last feed is a watch; a long gap earlier in the day is only noted
+const checkFeedGaps = ({ baby, entries, limits, now }: RuleInput): HealthFlag | null => {
+  if (limits.maxFeedGapHours <= 0) return null;
+  const maxGap = limits.maxFeedGapHours * HOUR;
+  const feeds = entries.filter(isFeed);
+  if (feeds.length === 0) return null;
+
+  const sinceLast = now - feeds[0].timestamp;
+  if (sinceLast > maxGap && sinceLast < MAX_OPEN_GAP_HOURS * HOUR) {
+    return {
+      rule: 'feed-gap',
+      severity: 'watch',
+      title: 'Long time since a feed',
+      explanation: `${baby.name} last fed ${hours(sinceLast)} hours ago, longer than the ${limits.maxFeedGapHours} hours expected at this age.`,
+      entryIds: [feeds[0].id]
+    };
+  }
+
+  let longest: { gap: number; after: LogEntry; before: LogEntry } | null = null;
+  for (let i = 0; i < feeds.length - 1 && feeds[i].timestamp >= now - DAY; i++) {
+    const gap = feeds[i].timestamp - feeds[i + 1].timestamp;
+    if (gap > maxGap && gap < MAX_OPEN_GAP_HOURS * HOUR && (!longest || gap > longest.gap)) {
+      longest = { gap, after: feeds[i + 1], before: feeds[i] };
+    }
+  }
+  if (!longest) return null;
+  return {
+    rule: 'feed-gap',
+    severity: 'info',
+    title: 'A long gap between feeds',
+    explanation: `There were ${hours(longest.gap)} hours between two feeds in the last day, more than the ${limits.maxFeedGapHours} expected at this age.`,
+    entryIds: [longest.before.id, longest.after.id]
+  };
+};
+
+const checkFever = ({ baby, entries, limits, now, measurement }: RuleInput): HealthFlag | null => {
+  if (limits.feverCelsius <= 0) return null;
+  const readings = entries.filter(e => e.temperature !== undefined && e.timestamp >= now - FEVER_LOOKBACK_HOURS * HOUR);
+  const fevers = readings.filter(e => e.temperature! >= limits.feverCelsius);
+  if (fevers.length === 0) return null;
+  const highest = fevers.reduce((max, e) => e.temperature! > max.temperature! ? e : max);
+  const format = (celsius: number) => formatMeasure(celsius, 'temperature', measurement);
+
+  // A normal reading since the fever keeps the flag but lowers it
+  if (readings[0].temperature! < limits.feverCelsius) {
+    return {
+      rule: 'fever',
+      severity: 'info',
+      title: 'Fever has come down',
+      explanation: `${baby.name} had ${format(highest.temperature!)} in the last two days; the latest reading is ${format(readings[0].temperature!)}.`,
+      entryIds: [readings[0].id, ...fevers.map(e => e.id)]
+    };
+  }
+  const isHigh = limits.highFeverCelsius > 0 && readings[0].temperature! >= limits.highFeverCelsius;
+  const ageDays = getAgeInDays(baby, now);
+  return {
+    rule: 'fever',
+    severity: isHigh ? 'concern' : 'watch',
+    title: 'Fever',
+    explanation: `The latest temperature is ${format(readings[0].temperature!)}. `
+      + (isHigh && ageDays !== null && ageDays < 90
+        ? 'Under 3 months, any fever needs a call to the doctor right away.'
+        : isHigh ? 'Call the doctor, and sooner if the baby is unusually sleepy, feeding poorly or has fewer wet diapers.'
+        : 'Keep checking, offer extra feeds, and call the doctor if it rises or lasts.'),
+    entryIds: fevers.map(e => e.id)
+  };
+};
+
+const RULES = [checkFever, checkWetDiapers, checkDirtyDiapers, checkFeedGaps, checkShortFeeds];
+
+const SEVERITY_ORDER: Record<HealthFlagSeverity, number> = { concern: 0, watch: 1, info: 2 };
+
+// Most serious first
+export const getHealthFlags = (
+  baby: BabyProfile,
+  entries: LogEntry[],
+  now = Date.now(),
+  measurement: MeasurementSystem = 'metric'
+): HealthFlag[] => {
+  const input: RuleInput = {
+    baby,
+    entries: entries.filter(e => e.timestamp <= now).sort((a, b) => b.timestamp - a.timestamp),
+    limits: getHealthThresholds(baby, now),
+    now,
+    measurement
+  };
+  return RULES
+    .map(rule => rule(input))
+    .filter((flag): flag is HealthFlag => flag !== null)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
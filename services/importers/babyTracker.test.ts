@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { importTrackerFile, ImportContext } from '.';
+
+const CTX: ImportContext = { timeZone: 'UTC', volumeUnit: 'ml', measurement: 'metric' };
+
+// Baby Tracker's nursing file
+const NURSING = [
+  'Baby,Time,Start Side,Left duration,Right duration,Total Duration,Note',
+  'Ada,2026-10-19 08:00,Left,12,8,20,',
+  'Ada,2026-10-19 11:00,Right,10,5,15,started on the shorter side',
+  'Ada,2026-10-19 14:00,,4,9,13,no start side',
+  'Ada,2026-10-19 16:00,Right,,,10,',
+  'Ada,2026-10-19 18:00,,,,,'
+].join('\n');
+
+describe('babyTrackerImporter', () => {
+  const { entries, unmapped } = importTrackerFile('nursing.csv', NURSING, CTX);
+
+  it('types a nursing feed by its Start Side', () => {
+    expect(entries[0]).toMatchObject({ type: 'breast_left', duration: 20, sides: { left: 12, right: 8 } });
+  });
+
+  it('keeps the Start Side when it was the shorter side', () => {
+    expect(entries[1]).toMatchObject({ type: 'breast_right', duration: 15, sides: { left: 10, right: 5 } });
+  });
+
+  it('falls back to the longer side without a Start Side', () => {
+    expect(entries[2]).toMatchObject({ type: 'breast_right', duration: 13, sides: { left: 4, right: 9 } });
+  });
+
+  it('reads a feed with only a total', () => {
+    expect(entries[3]).toMatchObject({ type: 'breast_right', duration: 10 });
+    expect(entries[3].sides).toBeUndefined();
+  });
+
+  it('reports a feed without a side or duration', () => {
+    expect(entries).toHaveLength(4);
+    expect(unmapped).toMatchObject([{ line: 6, reason: 'nursing without a side or duration' }]);
+  });
+});
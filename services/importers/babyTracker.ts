@@ -0,0 +1,105 @@
+import { getField, parseDateTime, parseDose, parseDuration, parseLength, parseTemperature, parseVolume, parseWeight } from './fields';
+import { CsvRow, MappedEntry, RowResult, TrackerImporter } from './types';
+
+// Baby Tracker exports one CSV per activity. Every file starts with Baby and Time; the
+// remaining columns tell which activity the file holds:
+//   Nursing      Start Side, Left duration, Right duration, Total Duration (minutes)
+//   Formula      Amount          Expressed   Amount
+//   Pump         Left amount, Right amount, Total amount
+//   Diaper       Status (Wet, Dirty, Mixed, Dry)
+//   Sleep        Duration(minutes)
+//   Growth       Weight, Height, Head Size
+//   Temperature  Temperature
+//   Medicine     Medicine Name, Amount
+
+const has = (values: Record<string, string>, column: string) => column in values;
+
+// What every entry from a row shares; each branch adds its own type and fields
+type RowBase = Pick<MappedEntry, 'timestamp' | 'note'>;
+
+const mapNursing = (base: RowBase, row: CsvRow): RowResult => {
+  const left = parseDuration(getField(row, 'left duration')) ?? 0;
+  const right = parseDuration(getField(row, 'right duration')) ?? 0;
+  const total = left + right || parseDuration(getField(row, 'total duration'));
+  const startSide = getField(row, 'start side');
+  if (!total && !startSide) return { reason: 'nursing without a side or duration' };
+  // The entry's type is the side the feed started on; the longer side only stands in for a
+  // missing Start Side
+  const startsRight = /right/i.test(startSide) || (!/left/i.test(startSide) && right > left);
+  return {
+    entries: [{
+      ...base,
+      type: startsRight ? 'breast_right' : 'breast_left',
+      duration: total || undefined,
+      sides: left > 0 && right > 0 ? { left, right } : undefined
+    }]
+  };
+};
+
+export const babyTrackerImporter: TrackerImporter = {
+  id: 'baby-tracker',
+  name: 'Baby Tracker',
+  detect: headers => headers.includes('baby') && headers.includes('time'),
+  mapRow: (row, ctx) => {
+    const timestamp = parseDateTime(getField(row, 'time'), ctx.timeZone);
+    if (timestamp === undefined) return { reason: `unreadable time "${getField(row, 'time')}"` };
+    const base: RowBase = { timestamp, note: getField(row, 'note', 'notes') || undefined };
+    const { values } = row;
+
+    if (has(values, 'start side') || has(values, 'left duration')) return mapNursing(base, row);
+
+    if (has(values, 'left amount') || has(values, 'total amount')) {
+      const left = parseVolume(getField(row, 'left amount'), ctx.volumeUnit);
+      const right = parseVolume(getField(row, 'right amount'), ctx.volumeUnit);
+      const total = parseVolume(getField(row, 'total amount'), ctx.volumeUnit);
+      const amount = left || right ? (left?.ml ?? 0) + (right?.ml ?? 0) : total?.ml;
+      if (!amount) return { reason: 'pumping without an amount' };
+      return {
+        entries: [{
+          ...base,
+          type: 'pumping',
+          amount,
+          unit: (left ?? right ?? total)!.unit,
+          pumped: left || right ? { left: left?.ml ?? 0, right: right?.ml ?? 0 } : undefined,
+          duration: parseDuration(getField(row, 'duration'))
+        }]
+      };
+    }
+
+    if (has(values, 'status')) {
+      const status = getField(row, 'status').toLowerCase();
+      if (status === 'dry') return { reason: 'dry diaper check' };
+      const type = status === 'wet' ? 'diaper_wet' : status === 'dirty' ? 'diaper_dirty' : status === 'mixed' ? 'diaper_both' : null;
+      return type ? { entries: [{ ...base, type }] } : { reason: `unknown diaper status "${status}"` };
+    }
+
+    if (has(values, 'weight') || has(values, 'height') || has(values, 'head size')) {
+      const weight = parseWeight(getField(row, 'weight'), ctx.measurement);
+      const length = parseLength(getField(row, 'height'), ctx.measurement);
+      const head = parseLength(getField(row, 'head size'), ctx.measurement);
+      if (weight === undefined && length === undefined && head === undefined) return { reason: 'growth without measurements' };
+      return { entries: [{ ...base, type: 'growth', weight, length, head }] };
+    }
+
+    if (has(values, 'temperature')) {
+      const temperature = parseTemperature(getField(row, 'temperature'));
+      return temperature ? { entries: [{ ...base, type: 'temperature', temperature }] } : { reason: 'temperature without a reading' };
+    }
+
+    if (has(values, 'medicine name')) {
+      return { entries: [{ ...base, type: 'medication', medicine: getField(row, 'medicine name') || undefined, ...parseDose(getField(row, 'amount')) }] };
+    }
+
+    if (has(values, 'duration(minutes)')) {
+      const duration = parseDuration(getField(row, 'duration(minutes)'));
+      return duration ? { entries: [{ ...base, type: 'sleep', duration }] } : { reason: 'sleep without a duration' };
+    }
+
+    if (has(values, 'amount')) {
+      const volume = parseVolume(getField(row, 'amount'), ctx.volumeUnit);
+      return { entries: [{ ...base, type: 'bottle', amount: volume?.ml, unit: volume?.unit }] };
+    }
+
+    return { reason: 'unrecognised Baby Tracker file' };
+  }
+};
@@ -0,0 +1,65 @@
+import { CsvRow } from './types';
+
+export interface CsvTable {
+  headers: string[]; // lower-cased and trimmed
+  rows: CsvRow[];
+}
+
+// RFC 4180 with the usual leniencies: a byte order mark, CRLF or LF, and ; or tab when the
+// header has no commas
+export const parseCsv = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const separator = firstLine.includes(',') ? ',' : firstLine.includes(';') ? ';' : firstLine.includes('\t') ? '\t' : ',';
+
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  const [header, ...body] = records;
+  const headers = (header?.fields ?? []).map(name => name.trim().toLowerCase());
+  return {
+    headers,
+    rows: body.map(record => ({
+      line: record.line,
+      values: Object.fromEntries(headers.map((name, i) => [name, (record.fields[i] ?? '').trim()]))
+    }))
+  };
+};
@@ -0,0 +1,145 @@
+import { DoseUnit, MeasurementSystem, VolumeUnit } from '../../types';
+import { CM_PER_IN, LB_PER_KG, toMetric, toMl } from '../units';
+import { CsvRow } from './types';
+
+// Parsers for the loosely formatted values other apps write into their exports. Each returns
+// undefined when the value is empty or unreadable so the caller can decide whether that matters.
+
+const MINUTE = 60 * 1000;
+
+// First non-empty value among the given columns
+export const getField = (row: CsvRow, ...columns: string[]): string => {
+  for (const column of columns) {
+    const value = row.values[column];
+    if (value) return value;
+  }
+  return '';
+};
+
+const parseNumber = (value: string): number | undefined => {
+  const match = /-?\d+(?:[.,]\d+)?/.exec(value);
+  return match ? Number(match[0].replace(',', '.')) : undefined;
+};
+
+// --- Time -----------------------------------------------------------------------------------
+
+// Minutes the zone is ahead of UTC at the given instant
+const getZoneOffset = (timestamp: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return (asUtc - timestamp) / MINUTE;
+};
+
+// A wall-clock time in `timeZone` as a timestamp. The offset is checked again at the result
+// so times next to a DST change land on the right side of it.
+export const fromZonedTime = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string) => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getZoneOffset(wall, timeZone);
+  const first = wall - offset * MINUTE;
+  const corrected = getZoneOffset(first, timeZone);
+  return corrected === offset ? first : wall - corrected * MINUTE;
+};
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/;
+const CLOCK = /(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*([ap]\.?m\.?)?/i;
+
+// Accepts ISO dates (2024-01-31 14:05) and US dates (1/31/24, 2:05 PM). Values with an explicit
+// offset or Z are exact; everything else is read as wall-clock time in `timeZone`.
+export const parseDateTime = (value: string, timeZone: string): number | undefined => {
+  const text = value.trim();
+  if (/\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const exact = Date.parse(text.replace(' ', 'T'));
+    return Number.isNaN(exact) ? undefined : exact;
+  }
+
+  let year: number, month: number, day: number;
+  const iso = ISO_DATE.exec(text);
+  const us = US_DATE.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return undefined;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+
+  const clock = CLOCK.exec(text.slice((iso ?? us)![0].length));
+  let hour = clock ? Number(clock[1]) : 0;
+  const minute = clock ? Number(clock[2]) : 0;
+  const meridiem = clock?.[3]?.toLowerCase();
+  if (meridiem?.startsWith('p') && hour < 12) hour += 12;
+  if (meridiem?.startsWith('a') && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return undefined;
+  return fromZonedTime(year, month, day, hour, minute, timeZone);
+};
+
+// "85", "01:25" (h:mm), "1:25:00", "1h 25m", "25 min", "90s" -> minutes
+export const parseDuration = (value: string): number | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  const clock = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(text);
+  if (clock) return Math.round(Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60);
+  const hours = /(\d+(?:\.\d+)?)\s*h/.exec(text);
+  const minutes = /(\d+(?:\.\d+)?)\s*m(?!s)/.exec(text);
+  const seconds = /(\d+(?:\.\d+)?)\s*s/.exec(text);
+  if (hours || minutes || seconds) {
+    return Math.round(Number(hours?.[1] ?? 0) * 60 + Number(minutes?.[1] ?? 0) + Number(seconds?.[1] ?? 0) / 60);
+  }
+  const plain = parseNumber(text);
+  return plain !== undefined ? Math.round(plain) : undefined;
+};
+
+// --- Quantities -----------------------------------------------------------------------------
+
+// Volume in ml, with the unit it was written in
+export const parseVolume = (value: string, fallback: VolumeUnit): { ml: number; unit: VolumeUnit } | undefined => {
+  const amount = parseNumber(value);
+  if (amount === undefined || amount <= 0) return undefined;
+  const unit: VolumeUnit = /ml/i.test(value) ? 'ml' : /oz|ounce/i.test(value) ? 'oz' : fallback;
+  return { ml: toMl(amount, unit), unit };
+};
+
+// Weight in kg; understands "7 lb 8 oz"
+export const parseWeight = (value: string, fallback: MeasurementSystem): number | undefined => {
+  const text = value.toLowerCase();
+  const pounds = /(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)\b(?:\s*(\d+(?:\.\d+)?)\s*oz)?/.exec(text);
+  if (pounds) return (Number(pounds[1]) + Number(pounds[2] ?? 0) / 16) / LB_PER_KG;
+  const amount = parseNumber(text);
+  if (amount === undefined || amount <= 0) return undefined;
+  if (/\bg\b|gram/.test(text) && !/kg/.test(text)) return amount / 1000;
+  if (/kg/.test(text)) return amount;
+  if (/oz/.test(text)) return amount / 16 / LB_PER_KG;
+  return toMetric(amount, 'weight', fallback);
+};
+
+// Length in cm
+export const parseLength = (value: string, fallback: MeasurementSystem): number | undefined => {
+  const amount = parseNumber(value);
+  if (amount === undefined || amount <= 0) return undefined;
+  if (/cm/i.test(value)) return amount;
+  if (/mm/i.test(value)) return amount / 10;
+  if (/in|"/i.test(value)) return amount * CM_PER_IN;
+  return toMetric(amount, 'length', fallback);
+};
+
+// Temperature in °C; bare values above 45 can only be Fahrenheit
+export const parseTemperature = (value: string): number | undefined => {
+  const amount = parseNumber(value);
+  if (amount === undefined || amount <= 0) return undefined;
+  const fahrenheit = /\d\s*°?\s*f\b/i.test(value) || (!/\d\s*°?\s*c\b/i.test(value) && amount > 45);
+  return fahrenheit ? toMetric(amount, 'temperature', 'imperial') : amount;
+};
+
+// "2.5 ml", "40mg", "3 drops"
+export const parseDose = (value: string): { dose: number; doseUnit: DoseUnit } | undefined => {
+  const match = /(\d+(?:[.,]\d+)?)\s*(ml|mg|drops?)\b/i.exec(value);
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase();
+  return { dose: Number(match[1].replace(',', '.')), doseUnit: unit.startsWith('drop') ? 'drops' : unit as DoseUnit };
+};
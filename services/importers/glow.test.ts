@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { importTrackerFile, ImportContext } from '.';
+
+const CTX: ImportContext = { timeZone: 'UTC', volumeUnit: 'ml', measurement: 'metric' };
+
+// A Glow Baby export: Amount and Unit are separate columns, and Details holds the diaper
+// kind, the food or the medicine
+const FIXTURE = [
+  'Type,Start Time,End Time,Side,Amount,Unit,Details,Notes',
+  'Breastfeeding,2026-10-19 08:00,2026-10-19 08:20,Left,,,,',
+  'Bottle,2026-10-19 11:00,,,4,oz,,topped up',
+  'Pumping,2026-10-19 12:00,2026-10-19 12:15,,90,ml,,',
+  'Diaper,2026-10-19 13:00,,,,,Pee and poo,',
+  'Sleep,2026-10-19 14:00,2026-10-19 15:30,,,,,',
+  'Medicine,2026-10-19 16:00,,,2.5,ml,Paracetamol,',
+  'Temperature,2026-10-19 17:00,,,38.2,°C,,',
+  'Weight,2026-10-19 18:00,,,4.2,kg,,',
+  'Breastfeeding,2026-10-19 19:00,2026-10-19 19:20,Both,,,,',
+  'Sleep,2026-10-19 20:00,,,,,,',
+  'Bath,2026-10-19 21:00,,,,,,'
+].join('\n');
+
+describe('glowImporter', () => {
+  const { importer, entries, unmapped } = importTrackerFile('glow.csv', FIXTURE, CTX);
+  const at = (hours: number, minutes = 0) => Date.UTC(2026, 9, 19, hours, minutes);
+
+  it('is picked by its headers', () => {
+    expect(importer?.id).toBe('glow');
+  });
+
+  it('times a breast feed from its start and end', () => {
+    expect(entries[0]).toMatchObject({ type: 'breast_left', timestamp: at(8), duration: 20 });
+  });
+
+  it('reads amounts with their unit column', () => {
+    expect(entries[1]).toMatchObject({ type: 'bottle', timestamp: at(11), amount: 118.29, unit: 'oz', note: 'topped up' });
+    expect(entries[2]).toMatchObject({ type: 'pumping', duration: 15, amount: 90, unit: 'ml' });
+  });
+
+  it('reads the details of diapers and medicine', () => {
+    expect(entries[3]).toMatchObject({ type: 'diaper_both', timestamp: at(13) });
+    expect(entries[5]).toMatchObject({ type: 'medication', medicine: 'Paracetamol', dose: 2.5, doseUnit: 'ml' });
+  });
+
+  it('reads sleep, temperature and growth', () => {
+    expect(entries[4]).toMatchObject({ type: 'sleep', duration: 90 });
+    expect(entries[6]).toMatchObject({ type: 'temperature', temperature: 38.2 });
+    expect(entries[7]).toMatchObject({ type: 'growth', weight: 4.2 });
+  });
+
+  it('only sets the fields each entry has', () => {
+    expect(Object.keys(entries[3]).sort()).toEqual(['id', 'timestamp', 'type']);
+  });
+
+  it('says why it skipped the rest', () => {
+    expect(entries).toHaveLength(8);
+    expect(unmapped.map(row => [row.line, row.reason])).toEqual([
+      [10, 'nursing on both sides without per-side times'],
+      [11, 'sleep without an end time'],
+      [12, 'unsupported activity "Bath"']
+    ]);
+  });
+});
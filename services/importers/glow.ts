@@ -0,0 +1,64 @@
+import { getField, parseDateTime, parseDose, parseDuration, parseLength, parseTemperature, parseVolume, parseWeight } from './fields';
+import { MappedEntry, TrackerImporter } from './types';
+
+// Glow Baby's CSV export: Type, Start Time, End Time, Side, Amount, Unit, Details, Notes.
+// Amount and Unit are separate columns; Details holds the diaper kind, food or medicine.
+
+export const glowImporter: TrackerImporter = {
+  id: 'glow',
+  name: 'Glow Baby',
+  detect: headers => ['type', 'start time', 'amount', 'details'].every(h => headers.includes(h)),
+  mapRow: (row, ctx) => {
+    const activity = getField(row, 'type').toLowerCase();
+    const timestamp = parseDateTime(getField(row, 'start time'), ctx.timeZone);
+    if (timestamp === undefined) return { reason: `unreadable start time "${getField(row, 'start time')}"` };
+
+    const end = parseDateTime(getField(row, 'end time'), ctx.timeZone);
+    const duration = end !== undefined && end > timestamp ? Math.round((end - timestamp) / 60000) : undefined;
+    const details = getField(row, 'details');
+    const quantity = `${getField(row, 'amount')} ${getField(row, 'unit')}`.trim();
+    const base: Pick<MappedEntry, 'timestamp' | 'note'> = { timestamp, note: getField(row, 'notes') || undefined };
+
+    if (activity.includes('breast') || activity === 'nursing') {
+      const side = getField(row, 'side').toLowerCase();
+      if (side === 'both') return { reason: 'nursing on both sides without per-side times' };
+      if (side !== 'left' && side !== 'right') return { reason: 'breast feed without a side' };
+      return { entries: [{ ...base, type: side === 'left' ? 'breast_left' : 'breast_right', duration }] };
+    }
+    if (activity.includes('bottle') || activity === 'formula') {
+      const volume = parseVolume(quantity, ctx.volumeUnit);
+      return { entries: [{ ...base, type: 'bottle', amount: volume?.ml, unit: volume?.unit }] };
+    }
+    if (activity.includes('pump')) {
+      const volume = parseVolume(quantity, ctx.volumeUnit);
+      return { entries: [{ ...base, type: 'pumping', duration, amount: volume?.ml, unit: volume?.unit }] };
+    }
+    if (activity.includes('diaper')) {
+      const kind = details.toLowerCase();
+      const wet = /pee|wet|both|mixed/.test(kind);
+      const dirty = /poo|dirty|both|mixed/.test(kind);
+      if (!wet && !dirty) return { reason: `unknown diaper "${details}"` };
+      return { entries: [{ ...base, type: wet && dirty ? 'diaper_both' : wet ? 'diaper_wet' : 'diaper_dirty' }] };
+    }
+    if (activity.includes('sleep') || activity === 'nap') {
+      return duration ? { entries: [{ ...base, type: 'sleep', duration }] } : { reason: 'sleep without an end time' };
+    }
+    if (activity.includes('solid')) return { entries: [{ ...base, type: 'solids', food: details || undefined }] };
+    if (activity.includes('medic')) {
+      return { entries: [{ ...base, type: 'medication', medicine: details || undefined, ...parseDose(quantity) }] };
+    }
+    if (activity.includes('temp')) {
+      const temperature = parseTemperature(quantity);
+      return temperature ? { entries: [{ ...base, type: 'temperature', temperature }] } : { reason: 'temperature without a reading' };
+    }
+    if (activity === 'weight' || activity === 'height' || activity === 'head') {
+      const value = activity === 'weight' ? parseWeight(quantity, ctx.measurement) : parseLength(quantity, ctx.measurement);
+      if (value === undefined) return { reason: `${activity} without a value` };
+      return { entries: [{ ...base, type: 'growth', [activity === 'height' ? 'length' : activity]: value }] };
+    }
+    if (activity.includes('tummy')) {
+      return duration ? { entries: [{ ...base, type: 'tummy_time', duration }] } : { reason: 'tummy time without an end time' };
+    }
+    return { reason: `unsupported activity "${getField(row, 'type')}"` };
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { importTrackerFile, ImportContext } from '.';
+
+const CTX: ImportContext = { timeZone: 'UTC', volumeUnit: 'ml', measurement: 'metric' };
+
+// A Huckleberry export: breast feeds keep each side's time in the condition columns, with the
+// side the feed started on in Start Condition
+const FIXTURE = [
+  'Type,Start,End,Duration,Start Condition,Start Location,End Condition,Notes',
+  'Feed,2026-10-19 08:00,2026-10-19 08:20,00:20,00:12L,Breast,00:08R,',
+  'Feed,2026-10-19 11:00,2026-10-19 11:15,00:15,00:05R,Breast,00:10L,started on the shorter side',
+  'Feed,2026-10-19 14:00,2026-10-19 14:10,00:10,00:10R,Breast,,',
+  'Feed,2026-10-19 16:00,2026-10-19 16:10,00:10,Right,Breast,,',
+  'Feed,2026-10-19 17:00,,,,Bottle,120ml,',
+  'Diaper,2026-10-19 18:00,,,Pee,,Poo,'
+].join('\n');
+
+describe('huckleberryImporter', () => {
+  const { entries, unmapped } = importTrackerFile('huckleberry.csv', FIXTURE, CTX);
+  const at = (hours: number, minutes = 0) => Date.UTC(2026, 9, 19, hours, minutes);
+
+  it('maps every row', () => {
+    expect(unmapped).toEqual([]);
+    expect(entries).toHaveLength(6);
+  });
+
+  it('types a breast feed by the side it started on', () => {
+    expect(entries[0]).toMatchObject({ type: 'breast_left', timestamp: at(8), duration: 20, sides: { left: 12, right: 8 } });
+  });
+
+  it('keeps the start side when it was the shorter side', () => {
+    expect(entries[1]).toMatchObject({ type: 'breast_right', timestamp: at(11), duration: 15, sides: { left: 10, right: 5 } });
+  });
+
+  it('reads one-sided feeds', () => {
+    expect(entries[2]).toMatchObject({ type: 'breast_right', duration: 10 });
+    expect(entries[2].sides).toBeUndefined();
+    expect(entries[3]).toMatchObject({ type: 'breast_right', duration: 10 });
+  });
+
+  it('reads bottles and diapers', () => {
+    expect(entries[4]).toMatchObject({ type: 'bottle', amount: 120, unit: 'ml' });
+    expect(entries[5]).toMatchObject({ type: 'diaper_both', timestamp: at(18) });
+  });
+});
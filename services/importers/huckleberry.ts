@@ -0,0 +1,105 @@
+import { BreastSide } from '../../types';
+import { getField, parseDateTime, parseDose, parseDuration, parseLength, parseTemperature, parseVolume, parseWeight } from './fields';
+import { ImportContext, MappedEntry, RowResult, TrackerImporter } from './types';
+
+// Huckleberry's CSV export: Type, Start, End, Duration, Start Condition, Start Location,
+// End Condition, Notes. What the condition columns hold depends on the activity type.
+
+const SIDE_DURATION = /(\d+:\d{2})\s*([LR])\b/gi;
+
+// The start condition holds the side the feed started on, as "00:12L" or a plain "Left"
+const getStartSide = (startCondition: string): BreastSide | null => {
+  const [first] = startCondition.matchAll(SIDE_DURATION);
+  if (first) return first[2].toUpperCase() === 'L' ? 'left' : 'right';
+  if (/\bleft|\bL\b/i.test(startCondition)) return 'left';
+  if (/\bright|\bR\b/i.test(startCondition)) return 'right';
+  return null;
+};
+
+// What every entry from a row shares; each branch adds its own type and fields
+type RowBase = Pick<MappedEntry, 'timestamp' | 'duration' | 'note'>;
+
+const mapFeed = (base: RowBase, location: string, startCondition: string, endCondition: string, ctx: ImportContext): RowResult => {
+  if (/bottle/i.test(location)) {
+    const volume = parseVolume(endCondition, ctx.volumeUnit);
+    return { entries: [{ ...base, type: 'bottle', duration: undefined, amount: volume?.ml, unit: volume?.unit }] };
+  }
+  // Breast feeds carry per-side times such as "00:12L" and "00:08R"
+  const sides = { left: 0, right: 0 };
+  for (const match of `${startCondition} ${endCondition}`.matchAll(SIDE_DURATION)) {
+    sides[match[2].toUpperCase() === 'L' ? 'left' : 'right'] += parseDuration(match[1]) ?? 0;
+  }
+  const startSide = getStartSide(startCondition);
+  if (sides.left + sides.right === 0) {
+    return startSide ? { entries: [{ ...base, type: startSide === 'left' ? 'breast_left' : 'breast_right' }] } : { reason: 'breast feed without a side' };
+  }
+  // Without a start side, the longer side stands in for it
+  const startsLeft = startSide ? startSide === 'left' : sides.left >= sides.right;
+  return {
+    entries: [{
+      ...base,
+      type: startsLeft ? 'breast_left' : 'breast_right',
+      duration: sides.left + sides.right,
+      sides: sides.left > 0 && sides.right > 0 ? sides : undefined
+    }]
+  };
+};
+
+export const huckleberryImporter: TrackerImporter = {
+  id: 'huckleberry',
+  name: 'Huckleberry',
+  detect: headers => ['type', 'start', 'start condition', 'end condition'].every(h => headers.includes(h)),
+  mapRow: (row, ctx) => {
+    const activity = getField(row, 'type').toLowerCase();
+    const timestamp = parseDateTime(getField(row, 'start'), ctx.timeZone);
+    if (timestamp === undefined) return { reason: `unreadable start time "${getField(row, 'start')}"` };
+
+    const end = parseDateTime(getField(row, 'end'), ctx.timeZone);
+    const duration = parseDuration(getField(row, 'duration')) ?? (end !== undefined && end > timestamp ? Math.round((end - timestamp) / 60000) : undefined);
+    const startCondition = getField(row, 'start condition');
+    const endCondition = getField(row, 'end condition');
+    const location = getField(row, 'start location');
+    const note = getField(row, 'notes') || undefined;
+    const base: RowBase = { timestamp, duration, note };
+
+    switch (activity) {
+      case 'feed':
+        return mapFeed(base, location, startCondition, endCondition, ctx);
+      case 'sleep':
+        return duration ? { entries: [{ ...base, type: 'sleep' }] } : { reason: 'sleep without an end time' };
+      case 'diaper': {
+        const condition = `${startCondition} ${endCondition}`.toLowerCase();
+        const wet = /pee|wet|both/.test(condition);
+        const dirty = /poo|dirty|both/.test(condition);
+        if (!wet && !dirty) return { reason: `unknown diaper "${condition.trim()}"` };
+        return { entries: [{ ...base, duration: undefined, type: wet && dirty ? 'diaper_both' : wet ? 'diaper_wet' : 'diaper_dirty' }] };
+      }
+      case 'pump': {
+        const volume = parseVolume(endCondition || startCondition, ctx.volumeUnit);
+        return { entries: [{ ...base, type: 'pumping', amount: volume?.ml, unit: volume?.unit }] };
+      }
+      case 'solids':
+        return { entries: [{ ...base, duration: undefined, type: 'solids', food: startCondition || undefined }] };
+      case 'medicine':
+      case 'medication':
+        return { entries: [{ ...base, duration: undefined, type: 'medication', medicine: startCondition || undefined, ...parseDose(endCondition) }] };
+      case 'temp':
+      case 'temperature': {
+        const temperature = parseTemperature(endCondition || startCondition);
+        return temperature ? { entries: [{ ...base, duration: undefined, type: 'temperature', temperature }] } : { reason: 'temperature without a reading' };
+      }
+      case 'growth': {
+        // Weight, length and head circumference in the start condition, location and end condition
+        const weight = parseWeight(startCondition, ctx.measurement);
+        const length = parseLength(location, ctx.measurement);
+        const head = parseLength(endCondition, ctx.measurement);
+        if (weight === undefined && length === undefined && head === undefined) return { reason: 'growth without measurements' };
+        return { entries: [{ ...base, duration: undefined, type: 'growth', weight, length, head }] };
+      }
+      case 'tummy time':
+        return duration ? { entries: [{ ...base, type: 'tummy_time' }] } : { reason: 'tummy time without a duration' };
+      default:
+        return { reason: `unsupported activity "${getField(row, 'type')}"` };
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { LogEntry } from '../../types';
+import { validateEntry } from '../storage';
+import { babyTrackerImporter } from './babyTracker';
+import { parseCsv } from './csv';
+import { glowImporter } from './glow';
+import { huckleberryImporter } from './huckleberry';
+import { ImportContext, MappedEntry, TrackerImporter } from './types';
+
+export * from './types';
+export { parseCsv } from './csv';
+
+// Order matters for detection: the first importer whose detect() accepts the headers wins.
+// A new format is one more module implementing TrackerImporter, listed here.
+export const IMPORTERS: TrackerImporter[] = [huckleberryImporter, glowImporter, babyTrackerImporter];
+
+export const getImporter = (id: string) => IMPORTERS.find(importer => importer.id === id);
+
+export const detectImporter = (headers: string[]) => IMPORTERS.find(importer => importer.detect(headers));
+
+export interface UnmappedRow {
+  fileName: string;
+  line: number;
+  reason: string;
+  raw: Record<string, string>;
+}
+
+export interface TrackerImportResult {
+  importer?: TrackerImporter;
+  entries: LogEntry[];
+  unmapped: UnmappedRow[];
+  error?: string; // the file as a whole could not be read
+}
+
+// FNV-1a, so the same row imported twice gets the same id and is recognised as a duplicate
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const toEntryId = (importer: TrackerImporter, entry: MappedEntry) => `${importer.id}-${hashString(JSON.stringify(entry))}`;
+
+// Maps every row of one exported file. Mapped entries go through the same validation as stored
+// ones; anything that fails either step is reported with its line instead of being dropped silently.
+export const importTrackerFile = (fileName: string, text: string, ctx: ImportContext, importerId?: string): TrackerImportResult => {
+  const table = parseCsv(text);
+  if (table.headers.length === 0) return { entries: [], unmapped: [], error: `${fileName} is empty.` };
+  const importer = importerId ? getImporter(importerId) : detectImporter(table.headers);
+  if (!importer) return { entries: [], unmapped: [], error: `${fileName} doesn't match any supported export format.` };
+  if (importerId && !importer.detect(table.headers)) {
+    return { importer, entries: [], unmapped: [], error: `${fileName} doesn't look like a ${importer.name} export.` };
+  }
+
+  const entries: LogEntry[] = [];
+  const unmapped: UnmappedRow[] = [];
+  table.rows.forEach(row => {
+    const result = importer.mapRow(row, ctx);
+    if (!result.entries) {
+      unmapped.push({ fileName, line: row.line, reason: result.reason ?? 'not mapped', raw: row.values });
+      return;
+    }
+    result.entries.forEach(mapped => {
+      const validated = validateEntry({ ...mapped, id: toEntryId(importer, mapped) });
+      if (validated.value) {
+        entries.push(validated.value);
+      } else {
+        unmapped.push({ fileName, line: row.line, reason: validated.reason ?? 'invalid entry', raw: row.values });
+      }
+    });
+  });
+  return { importer, entries, unmapped };
+};
+
+export const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
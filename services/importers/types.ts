@@ -0,0 +1,29 @@
+import { LogEntry, MeasurementSystem, VolumeUnit } from '../../types';
+
+// One CSV data row, keyed by lower-cased header
+export interface CsvRow {
+  line: number; // 1-based line in the file where the row starts
+  values: Record<string, string>;
+}
+
+export interface ImportContext {
+  timeZone: string; // IANA zone the other app wrote its local times in
+  volumeUnit: VolumeUnit; // for amounts that carry no unit
+  measurement: MeasurementSystem; // for weights, lengths and temperatures that carry no unit
+}
+
+export type MappedEntry = Omit<LogEntry, 'id'>;
+
+// What a single row became: entries (a row can hold several events), or why it was skipped
+export interface RowResult {
+  entries?: MappedEntry[];
+  reason?: string;
+}
+
+export interface TrackerImporter {
+  id: string; // also prefixes the ids of imported entries
+  name: string;
+  // Header lists this importer can read; used to pick an importer for a file automatically
+  detect: (headers: string[]) => boolean;
+  mapRow: (row: CsvRow, ctx: ImportContext) => RowResult;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { normalizeParsedEvents, parseLocally } from './naturalLanguage';
+import { toMl } from './units';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 9, 19, 15, 0).getTime();
+const at = (hours: number, minutes: number) => new Date(2026, 9, 19, hours, minutes).getTime();
+
+describe('parseLocally', () => {
+  it.each<[string, Partial<LogEntry>[]]>([
+    ['left 15 min', [{ type: 'breast_left', timestamp: NOW, duration: 15 }]],
+    ['bottle 4oz', [{ type: 'bottle', timestamp: NOW, amount: toMl(4, 'oz'), unit: 'oz' }]],
+    ['poopy diaper 20 minutes ago', [{ type: 'diaper_dirty', timestamp: NOW - 20 * MINUTE }]],
+    ['nap 1h10', [{ type: 'sleep', timestamp: NOW, duration: 70 }]],
+    ['nap 1 hour and 20 minutes 2 hours ago', [{ type: 'sleep', timestamp: NOW - 120 * MINUTE, duration: 80 }]],
+    ['wet and dirty diaper', [{ type: 'diaper_both', timestamp: NOW }]],
+    ['vitamin d', [{ type: 'medication', timestamp: NOW, medicine: 'Vitamin D' }]],
+    ['temp 101.5f', [{ type: 'temperature', timestamp: NOW, temperature: 38.61 }]]
+  ])('parses "%s"', (text, expected) => {
+    expect(parseLocally(text, NOW)).toEqual(expected);
+  });
+
+  it.each<[string, Partial<LogEntry>[]]>([
+    ['bottle 120 ml at 3:10, then wet diaper', [
+      { type: 'bottle', timestamp: at(3, 10), amount: 120, unit: 'ml' },
+      { type: 'diaper_wet', timestamp: NOW }
+    ]],
+    ['left 10 min right 5 min', [
+      { type: 'breast_left', timestamp: NOW, duration: 10 },
+      { type: 'breast_right', timestamp: NOW, duration: 5 }
+    ]],
+    ['pumped 100ml and poopy diaper 20 minutes ago', [
+      { type: 'pumping', timestamp: NOW, amount: 100, unit: 'ml' },
+      { type: 'diaper_dirty', timestamp: NOW - 20 * MINUTE }
+    ]]
+  ])('splits "%s" into one event each', (text, expected) => {
+    expect(parseLocally(text, NOW)).toEqual(expected);
+  });
+
+  it('returns nothing for text without an event', () => {
+    expect(parseLocally('what a lovely day', NOW)).toEqual([]);
+  });
+});
+
+describe('volume units', () => {
+  it.each<[string, number, 'ml' | 'oz']>([
+    ['bottle 4oz', toMl(4, 'oz'), 'oz'],
+    ['bottle 4 ounces', toMl(4, 'oz'), 'oz'],
+    ['bottle 120 ml', 120, 'ml'],
+    ['bottle 120cc', 120, 'ml']
+  ])('stores "%s" in ml with the unit it was given in', (text, amount, unit) => {
+    expect(parseLocally(text, NOW, unit === 'ml' ? 'oz' : 'ml')).toEqual([{ type: 'bottle', timestamp: NOW, amount, unit }]);
+  });
+
+  it.each<['ml' | 'oz', number]>([
+    ['oz', toMl(3, 'oz')],
+    ['ml', 3]
+  ])('reads an amount without a unit as the preferred %s', (unit, amount) => {
+    expect(normalizeParsedEvents([{ type: 'bottle', amount: 3 }], NOW, unit)).toEqual([{ type: 'bottle', timestamp: NOW, amount, unit }]);
+  });
+
+  it('converts 4 oz to about 118 ml', () => {
+    expect(toMl(4, 'oz')).toBeCloseTo(118.29, 2);
+  });
+});
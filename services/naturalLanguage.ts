@@ -0,0 +1,196 @@
+import { LogEntry, VolumeUnit } from '../types';
+import { isEntryType } from './storage';
+import { toMetric, toMl } from './units';
+
+// Shape the model is asked to return for each event it finds in the text
+export interface RawParsedEvent {
+  type?: unknown;
+  time?: unknown; // "HH:MM", 24h local clock
+  minutesAgo?: unknown;
+  amount?: unknown;
+  unit?: unknown;
+  duration?: unknown; // minutes
+  medicine?: unknown;
+  dose?: unknown;
+  food?: unknown;
+  temperature?: unknown; // as stated; above 45 is read as Fahrenheit
+  note?: unknown;
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Resolves a clock time to its most recent occurrence, allowing a few minutes of clock drift
+export const resolveClockTime = (time: string, now = Date.now()): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() > now + 5 * 60 * 1000) date.setDate(date.getDate() - 1);
+  return date.getTime();
+};
+
+// Validates model output against EntryType and resolves times and units. Events that don't
+// map to a known type are dropped rather than trusted. Amounts without a unit use the preferred one.
+export const normalizeParsedEvents = (raw: RawParsedEvent[], now = Date.now(), defaultUnit: VolumeUnit = 'oz'): Partial<LogEntry>[] =>
+  raw.flatMap(event => {
+    if (!isEntryType(event.type)) return [];
+
+    let timestamp = now;
+    if (typeof event.time === 'string') {
+      timestamp = resolveClockTime(event.time, now) ?? now;
+    } else if (isPositiveNumber(event.minutesAgo)) {
+      timestamp = now - event.minutesAgo * 60 * 1000;
+    }
+
+    const entry: Partial<LogEntry> = { type: event.type, timestamp };
+    if ((event.type === 'bottle' || event.type === 'pumping') && isPositiveNumber(event.amount)) {
+      const unit: VolumeUnit = String(event.unit).toLowerCase() === 'ml' ? 'ml'
+        : String(event.unit).toLowerCase() === 'oz' ? 'oz'
+        : defaultUnit;
+      entry.amount = toMl(event.amount, unit);
+      entry.unit = unit;
+    }
+    if ((event.type.startsWith('breast') || event.type === 'sleep' || event.type === 'tummy_time') && isPositiveNumber(event.duration)) {
+      entry.duration = event.duration;
+    }
+    if (event.type === 'medication' && typeof event.medicine === 'string' && event.medicine.trim()) {
+      entry.medicine = event.medicine.trim();
+    }
+    if (event.type === 'medication' && isPositiveNumber(event.dose)) entry.dose = event.dose;
+    if (event.type === 'solids' && typeof event.food === 'string' && event.food.trim()) entry.food = event.food.trim();
+    if (event.type === 'temperature' && isPositiveNumber(event.temperature)) {
+      entry.temperature = event.temperature > 45 ? toMetric(event.temperature, 'temperature', 'imperial') : event.temperature;
+    }
+    if (typeof event.note === 'string' && event.note.trim()) entry.note = event.note.trim();
+    return [entry];
+  });
+
+// --- Offline rule-based parser ---------------------------------------------------------------
+// Handles the common short phrasings ("left 15 min", "bottle 4oz", "poopy diaper 20 minutes ago",
+// "nap 1h10") without a network round trip, producing the same events the model would.
+
+const CLAUSE_SPLIT = /\s*(?:,|;|\.(?!\d)|\bthen\b|\bafter that\b|\bplus\b|\band\b)\s*/;
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, half: 0.5 };
+
+const toNumber = (word: string) => NUMBER_WORDS[word] ?? parseFloat(word);
+
+const detectType = (clause: string): string | null => {
+  const hasWet = /\b(wet|pee|wee|urine)\b/.test(clause);
+  const hasDirty = /\b(dirty|poop\w*|poo|bm|soiled|stool)\b/.test(clause);
+  if (/\bboth\b/.test(clause) && /\b(diaper|nappy)\b/.test(clause)) return 'diaper_both';
+  if (hasWet && hasDirty) return 'diaper_both';
+  if (hasDirty) return 'diaper_dirty';
+  if (hasWet) return 'diaper_wet';
+  if (/\b(vitamin|vit)\s*d\b|\b(medicine|meds?|medication|dose)\b/.test(clause)) return 'medication';
+  if (/\btummy\s*time\b/.test(clause)) return 'tummy_time';
+  if (/\bpump(ed|ing)?\b/.test(clause)) return 'pumping';
+  if (/\b(temp|temperature|fever)\b/.test(clause)) return 'temperature';
+  if (/\b(solids?|ate|puree)\b/.test(clause)) return 'solids';
+  if (/\b(bottle|formula|ml|oz|ounces?|cc)\b|\d\s*(ml|oz|cc)\b/.test(clause)) return 'bottle';
+  if (/\b(left|l)\b/.test(clause)) return 'breast_left';
+  if (/\b(right|r)\b/.test(clause)) return 'breast_right';
+  if (/\b(nap\w*|sle\w*p\w*|slept)\b/.test(clause)) return 'sleep';
+  return null;
+};
+
+// Picks the 24h reading of an ambiguous clock time that is closest to (and not after) now
+const pickClockTime = (hours: number, minutes: number, meridiem: string | undefined, now: number): string | null => {
+  if (minutes > 59 || hours > 23) return null;
+  let candidates = [hours];
+  if (meridiem) {
+    candidates = [(hours % 12) + (meridiem === 'pm' ? 12 : 0)];
+  } else if (hours <= 12) {
+    candidates = [hours % 12, (hours % 12) + 12];
+  }
+  const best = candidates
+    .map(h => `${h}:${String(minutes).padStart(2, '0')}`)
+    .map(time => ({ time, at: resolveClockTime(time, now) ?? 0 }))
+    .sort((a, b) => b.at - a.at)[0];
+  return best ? best.time : null;
+};
+
+const parseClause = (input: string, now: number): RawParsedEvent | null => {
+  let clause = input;
+  const event: RawParsedEvent = {};
+
+  const ago = /\b(\d+(?:\.\d+)?|an?|one|two|three|half an?)\s*(h|hrs?|hours?|m|mins?|minutes?)\s+ago\b/.exec(clause);
+  if (ago) {
+    const value = toNumber(ago[1].split(' ')[0]);
+    event.minutesAgo = ago[2].startsWith('h') ? value * 60 : value;
+    clause = clause.replace(ago[0], ' ');
+  }
+
+  const clock = /\b(?:at\s+)?(\d{1,2}):(\d{2})\s*(am|pm)?\b|\bat\s+(\d{1,2})\s*(am|pm)?\b|\b(\d{1,2})\s*(am|pm)\b/.exec(clause);
+  if (clock) {
+    const hours = Number(clock[1] ?? clock[4] ?? clock[6]);
+    const minutes = Number(clock[2] ?? 0);
+    const time = pickClockTime(hours, minutes, clock[3] ?? clock[5] ?? clock[7], now);
+    if (time) {
+      event.time = time;
+      clause = clause.replace(clock[0], ' ');
+    }
+  }
+
+  const temperature = /\b(?:temp|temperature|fever)\D{0,6}(\d{2,3}(?:\.\d+)?)\s*(?:°|degrees?)?\s*[cf]?\b/.exec(clause);
+  if (temperature) {
+    event.temperature = parseFloat(temperature[1]);
+    clause = clause.replace(temperature[0], temperature[0].replace(temperature[1], ' '));
+  }
+
+  const amount = /(\d+(?:\.\d+)?)\s*(ml|cc|oz|ounces?)\b/.exec(clause);
+  if (amount) {
+    event.amount = parseFloat(amount[1]);
+    event.unit = amount[2].startsWith('o') ? 'oz' : 'ml';
+    clause = clause.replace(amount[0], ' ');
+  }
+
+  const hoursAndMinutes = /\b(\d+(?:\.\d+)?|an?|one|two|three|half an?)\s*(?:h|hrs?|hours?)\s*(?:and\s*)?(\d+)?\s*(?:m|mins?|minutes?)?\b/.exec(clause);
+  const minutesOnly = /\b(\d+(?:\.\d+)?)\s*(?:m|mins?|minutes?)\b/.exec(clause);
+  if (hoursAndMinutes) {
+    event.duration = toNumber(hoursAndMinutes[1].split(' ')[0]) * 60 + Number(hoursAndMinutes[2] ?? 0);
+  } else if (minutesOnly) {
+    event.duration = parseFloat(minutesOnly[1]);
+  }
+
+  const type = detectType(clause);
+  if (!type) return null;
+  event.type = type;
+  if (type === 'medication' && /\b(vitamin|vit)\s*d\b/.test(clause)) event.medicine = 'Vitamin D';
+  const food = /\b(?:ate|solids?:?)\s+(?:some\s+)?([a-z][a-z ]*?)\s*$/.exec(clause.trim());
+  if (type === 'solids' && food) event.food = food[1];
+  return event;
+};
+
+export const parseLocally = (text: string, now = Date.now(), defaultUnit: VolumeUnit = 'oz'): Partial<LogEntry>[] => {
+  const normalized = text
+    .toLowerCase()
+    .replace(/\b(wet|pee)\s*(?:and|&|\+)\s*(dirty|poop\w*|poo)\b/g, 'both diaper')
+    .replace(/\b(dirty|poop\w*|poo)\s*(?:and|&|\+)\s*(wet|pee)\b/g, 'both diaper')
+    .replace(/\b(\d+)\s*h(?:ours?|rs?)?\s*and\s*(\d+)/g, '$1h$2')
+    .replace(/(\d\s*(?:m|mins?|minutes?))\s+(?=(?:left|right|l|r)\b)/g, '$1, ');
+
+  // Clauses without an event of their own ("at 3:10") are modifiers of the one before them
+  const clauses: string[] = [];
+  let leading = '';
+  normalized.split(CLAUSE_SPLIT).filter(Boolean).forEach(part => {
+    if (detectType(part)) {
+      clauses.push(`${leading} ${part}`.trim());
+      leading = '';
+    } else if (clauses.length > 0) {
+      clauses[clauses.length - 1] += ` ${part}`;
+    } else {
+      leading += ` ${part}`;
+    }
+  });
+
+  const events = clauses
+    .map(clause => parseClause(clause, now))
+    .filter((event): event is RawParsedEvent => event !== null);
+  return normalizeParsedEvents(events, now, defaultUnit);
+};
@@ -0,0 +1,101 @@
+import { PlannedReminder, ReminderAction } from './reminders';
+
+export const DEFAULT_NOTIFICATION_ICON = "https://images.unsplash.com/photo-1596815064285-45ed8a9c0463?auto=format&fit=crop&q=80&w=200&h=200";
+
+const ACTION_TITLES: Record<ReminderAction, string> = {
+  'snooze-15': '+15 min',
+  'snooze-30': '+30 min'
+};
+
+// What the worker and the page pass around for a click on a reminder or one of its actions
+export interface ReminderClick {
+  action: ReminderAction | 'open';
+  babyId: string;
+}
+
+let registration: ServiceWorkerRegistration | null = null;
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    registration = await navigator.serviceWorker.register('/sw.js');
+    await navigator.serviceWorker.ready;
+    return registration;
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+    return null;
+  }
+};
+
+// Notification Triggers let the worker schedule notifications that fire with the app closed.
+// They only ever shipped behind a flag, so in practice the page keeps the timers and reminders
+// fire while it is open; Settings says so.
+export const supportsTriggeredNotifications = () =>
+  typeof window !== 'undefined' && 'TimestampTrigger' in window && registration !== null;
+
+const toOptions = (reminder: PlannedReminder, icon?: string | null) => ({
+  body: reminder.body,
+  icon: icon || DEFAULT_NOTIFICATION_ICON,
+  tag: `${reminder.babyId}:${reminder.kind}`,
+  renotify: true,
+  silent: reminder.silent,
+  requireInteraction: reminder.kind === 'feed-due',
+  data: { reminderId: reminder.id, babyId: reminder.babyId, fireAt: reminder.fireAt },
+  actions: reminder.actions.map(action => ({ action, title: ACTION_TITLES[action] }))
+});
+
+// Shows a reminder now. registration.showNotification works on mobile browsers, where the
+// Notification constructor throws; the constructor is only a desktop fallback.
+export const showReminder = async (reminder: PlannedReminder, icon?: string | null) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    if (registration) {
+      await registration.showNotification(reminder.title, toOptions(reminder, icon) as NotificationOptions);
+    } else {
+      const { actions, ...options } = toOptions(reminder, icon);
+      new Notification(reminder.title, options as NotificationOptions);
+    }
+  } catch (e) {
+    console.error("Native notification failed:", e);
+  }
+};
+
+export const showPlainNotification = async (title: string, body: string, icon?: string | null) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    if (registration) {
+      await registration.showNotification(title, { body, icon: icon || DEFAULT_NOTIFICATION_ICON });
+    } else {
+      new Notification(title, { body, icon: icon || DEFAULT_NOTIFICATION_ICON });
+    }
+  } catch (e) {
+    console.error("Native notification failed:", e);
+  }
+};
+
+// Hands the plan to the worker, which schedules triggered notifications where supported
+export const scheduleInWorker = (plan: PlannedReminder[], icons: Record<string, string | null | undefined>) => {
+  if (!supportsTriggeredNotifications() || Notification.permission !== 'granted') return;
+  registration?.active?.postMessage({
+    type: 'SCHEDULE_REMINDERS',
+    reminders: plan.map(reminder => ({ ...reminder, options: toOptions(reminder, icons[reminder.babyId]) }))
+  });
+};
+
+// Subscribes to reminder clicks, including one that opened the app from a closed state
+export const onReminderClick = (handler: (click: ReminderClick) => void) => {
+  const params = new URLSearchParams(window.location.search);
+  const action = params.get('reminderAction');
+  const babyId = params.get('baby');
+  if (action && babyId) {
+    handler({ action: action as ReminderClick['action'], babyId });
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'REMINDER_CLICK') handler({ action: event.data.action, babyId: event.data.babyId });
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BabyProfile, ReminderSettings } from '../types';
+import { createReminderScheduler } from './reminderScheduler';
+import { planFeedReminders, PlannedReminder, SNOOZE_MINUTES } from './reminders';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+
+const SETTINGS: ReminderSettings = { leadMinutes: 10, quietHoursEnabled: true, quietStartHour: 22, quietEndHour: 6 };
+
+// A feed set by hand, as a snooze does
+const babyDueAt = (time: number): BabyProfile => ({ id: 'baby', name: 'Ada', nextFeedingTime: time });
+const plan = (baby: BabyProfile, settings = SETTINGS) => planFeedReminders([baby], {}, settings, Date.now());
+
+const reminder = (id: string, fireAt: number): PlannedReminder =>
+  ({ id, babyId: 'baby', kind: 'care', fireAt, title: id, body: '', silent: false, actions: [] });
+
+describe('createReminderScheduler', () => {
+  let delivered: { kind: PlannedReminder['kind']; at: number; silent: boolean }[];
+  let scheduler: ReturnType<typeof createReminderScheduler>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    delivered = [];
+    scheduler = createReminderScheduler(r => delivered.push({ kind: r.kind, at: Date.now(), silent: r.silent }));
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('fires each reminder at its time, once', () => {
+    const plan = [reminder('a', NOW + 20 * MINUTE)];
+    scheduler.sync(plan);
+    vi.advanceTimersByTime(20 * MINUTE - 1);
+    expect(delivered).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(delivered).toEqual([{ kind: 'care', at: NOW + 20 * MINUTE, silent: false }]);
+
+    scheduler.sync(plan);
+    vi.advanceTimersByTime(HOUR);
+    expect(delivered).toHaveLength(1);
+  });
+
+  it('fires reminders further out than one timer can wait', () => {
+    scheduler.sync([reminder('a', NOW + 5 * HOUR)]);
+    vi.advanceTimersByTime(5 * HOUR - 1);
+    expect(delivered).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(delivered).toHaveLength(1);
+  });
+
+  it('fires a reminder that is already due right away', () => {
+    scheduler.sync([reminder('a', NOW - MINUTE)]);
+    vi.advanceTimersByTime(0);
+    expect(delivered).toHaveLength(1);
+  });
+
+  it('cancels reminders dropped from the plan', () => {
+    scheduler.sync([reminder('a', NOW + MINUTE)]);
+    scheduler.sync([]);
+    vi.advanceTimersByTime(HOUR);
+    expect(delivered).toEqual([]);
+  });
+
+  it('fires the pre-alert and then the due alert', () => {
+    scheduler.sync(plan(babyDueAt(NOW + 30 * MINUTE)));
+    vi.advanceTimersByTime(30 * MINUTE);
+    expect(delivered).toEqual([
+      { kind: 'feed-pre', at: NOW + 20 * MINUTE, silent: false },
+      { kind: 'feed-due', at: NOW + 30 * MINUTE, silent: false }
+    ]);
+  });
+
+  it.each(['snooze-15', 'snooze-30'] as const)('moves the feed alerts on %s', action => {
+    const minutes = SNOOZE_MINUTES[action];
+    scheduler.sync(plan(babyDueAt(NOW)));
+    vi.advanceTimersByTime(0);
+    expect(delivered).toEqual([{ kind: 'feed-due', at: NOW, silent: false }]);
+
+    const snoozedTo = Date.now() + minutes * MINUTE;
+    scheduler.sync(plan(babyDueAt(snoozedTo)));
+    vi.advanceTimersByTime(minutes * MINUTE - 1);
+    expect(delivered.map(d => d.kind)).toEqual(['feed-due', 'feed-pre']);
+    vi.advanceTimersByTime(1);
+    expect(delivered.slice(1)).toEqual([
+      { kind: 'feed-pre', at: snoozedTo - 10 * MINUTE, silent: false },
+      { kind: 'feed-due', at: snoozedTo, silent: false }
+    ]);
+  });
+
+  it('drops the old alert when a feed is snoozed before it is due', () => {
+    scheduler.sync(plan(babyDueAt(NOW + 20 * MINUTE)));
+    vi.advanceTimersByTime(15 * MINUTE);
+    scheduler.sync(plan(babyDueAt(Date.now() + SNOOZE_MINUTES['snooze-30'] * MINUTE)));
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(delivered.map(d => d.at)).toEqual([NOW + 10 * MINUTE]);
+    vi.advanceTimersByTime(20 * MINUTE);
+    expect(delivered.map(d => d.at)).toEqual([NOW + 10 * MINUTE, NOW + 35 * MINUTE, NOW + 45 * MINUTE]);
+  });
+
+  it('fires feed alerts in quiet hours silently and without a pre-alert', () => {
+    scheduler.sync(plan(babyDueAt(new Date(2026, 9, 19, 23, 0).getTime())));
+    vi.advanceTimersByTime(12 * HOUR);
+    expect(delivered).toEqual([{ kind: 'feed-due', at: new Date(2026, 9, 19, 23, 0).getTime(), silent: true }]);
+  });
+
+  it('keeps the pre-alert when only the due time falls in quiet hours', () => {
+    const due = new Date(2026, 9, 19, 22, 5).getTime();
+    scheduler.sync(plan(babyDueAt(due)));
+    vi.advanceTimersByTime(12 * HOUR);
+    expect(delivered).toEqual([
+      { kind: 'feed-pre', at: due - 10 * MINUTE, silent: false },
+      { kind: 'feed-due', at: due, silent: true }
+    ]);
+  });
+
+  it('rings normally with quiet hours off', () => {
+    scheduler.sync(plan(babyDueAt(new Date(2026, 9, 19, 23, 0).getTime()), { ...SETTINGS, quietHoursEnabled: false }));
+    vi.advanceTimersByTime(12 * HOUR);
+    expect(delivered.map(d => [d.kind, d.silent])).toEqual([['feed-pre', false], ['feed-due', false]]);
+  });
+});
+
+describe('planFeedReminders', () => {
+  it('still plans a feed that came due within the hour', () => {
+    expect(planFeedReminders([babyDueAt(NOW - 59 * MINUTE)], {}, SETTINGS, NOW).map(r => r.kind)).toEqual(['feed-due']);
+  });
+
+  it('leaves a feed overdue by more than an hour to the dashboard', () => {
+    expect(planFeedReminders([babyDueAt(NOW - 2 * HOUR)], {}, SETTINGS, NOW)).toEqual([]);
+  });
+
+  it('skips a pre-alert whose time has passed', () => {
+    const reminders = planFeedReminders([babyDueAt(NOW + 5 * MINUTE)], {}, SETTINGS, NOW);
+    expect(reminders.map(r => r.kind)).toEqual(['feed-due']);
+  });
+
+  it('counts the pre-alert minutes from its own time', () => {
+    const [, pre] = planFeedReminders([babyDueAt(NOW + HOUR)], {}, SETTINGS, NOW);
+    expect(pre).toMatchObject({ kind: 'feed-pre', fireAt: NOW + 50 * MINUTE, title: "Ada's feed in 10 minutes" });
+  });
+});
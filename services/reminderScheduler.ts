@@ -0,0 +1,59 @@
+import { PlannedReminder } from './reminders';
+
+export interface SchedulerClock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Browsers clamp long timeouts (over ~24.8 days overflows); re-arm in chunks instead
+const MAX_TIMEOUT = 60 * 60 * 1000;
+
+// Keeps one timer per planned reminder and delivers each id at most once. Calling sync with a
+// new plan cancels reminders that are no longer planned. The clock is injectable so the
+// scheduler can be driven by fake timers.
+export const createReminderScheduler = (
+  deliver: (reminder: PlannedReminder) => void,
+  clock: SchedulerClock = systemClock
+) => {
+  const timers = new Map<string, unknown>();
+  const delivered = new Set<string>();
+
+  const arm = (reminder: PlannedReminder) => {
+    const delay = Math.max(0, reminder.fireAt - clock.now());
+    timers.set(reminder.id, clock.setTimeout(() => {
+      if (reminder.fireAt > clock.now()) return arm(reminder);
+      timers.delete(reminder.id);
+      delivered.add(reminder.id);
+      deliver(reminder);
+    }, Math.min(delay, MAX_TIMEOUT)));
+  };
+
+  const sync = (plan: PlannedReminder[]) => {
+    const planned = new Set(plan.map(r => r.id));
+    timers.forEach((handle, id) => {
+      if (!planned.has(id)) {
+        clock.clearTimeout(handle);
+        timers.delete(id);
+      }
+    });
+    plan.forEach(reminder => {
+      if (!timers.has(reminder.id) && !delivered.has(reminder.id)) arm(reminder);
+    });
+  };
+
+  const stop = () => {
+    timers.forEach(handle => clock.clearTimeout(handle));
+    timers.clear();
+  };
+
+  return { sync, stop };
+};
+
+export type ReminderScheduler = ReturnType<typeof createReminderScheduler>;
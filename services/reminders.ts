@@ -0,0 +1,107 @@
+import { BabyProfile, LogEntry, ReminderSettings } from '../types';
+import { isWithinHours } from './scheduler';
+import { getNextFeed } from './feedPrediction';
+import { getCareReminderLabel, getCareReminderStatuses } from './careReminders';
+
+export type ReminderAction = 'snooze-15' | 'snooze-30';
+
+// A notification planned for a point in time. The id changes whenever the moment it
+// describes changes, so a rescheduled feed produces a fresh reminder.
+export interface PlannedReminder {
+  id: string;
+  babyId: string;
+  kind: 'feed-pre' | 'feed-due' | 'care';
+  careReminderId?: string; // for 'care', the CareReminder it comes from
+  fireAt: number;
+  title: string;
+  body: string;
+  silent: boolean;
+  actions: ReminderAction[];
+}
+
+export const SNOOZE_MINUTES: Record<ReminderAction, number> = {
+  'snooze-15': 15,
+  'snooze-30': 30
+};
+
+// Reminders overdue by longer than this are left to the dashboard instead of notifying again
+// every time the app opens
+const STALE_AFTER = 60 * 60 * 1000;
+
+export const isInQuietHours = (timestamp: number, settings: ReminderSettings) =>
+  settings.quietHoursEnabled && isWithinHours(timestamp, settings.quietStartHour, settings.quietEndHour);
+
+// During quiet hours pre-alerts are skipped and due alerts arrive without sound or vibration.
+// A predicted feed is announced by the start of its window if that comes before the lead time.
+// A pre-alert whose moment has already passed is skipped; the due alert still follows.
+export const planFeedReminders = (
+  babies: BabyProfile[],
+  entriesByBaby: Record<string, LogEntry[]>,
+  settings: ReminderSettings,
+  now = Date.now()
+): PlannedReminder[] => babies.flatMap(baby => {
+  const { time: due, source, prediction } = getNextFeed(baby, entriesByBaby[baby.id] || [], now);
+  if (due === null || due <= now - STALE_AFTER) return [];
+  const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const quietAtDue = isInQuietHours(due, settings);
+  const reminders: PlannedReminder[] = [{
+    id: `${baby.id}:feed-due:${due}`,
+    babyId: baby.id,
+    kind: 'feed-due',
+    fireAt: due,
+    title: `Time to Feed ${baby.name}!`,
+    body: 'The scheduled feeding session is due now.',
+    silent: quietAtDue,
+    actions: ['snooze-15', 'snooze-30']
+  }];
+
+  const isPredicted = source === 'prediction' && prediction !== null;
+  const preAt = isPredicted
+    ? Math.min(due - settings.leadMinutes * 60 * 1000, prediction.windowStart)
+    : due - settings.leadMinutes * 60 * 1000;
+  if (settings.leadMinutes > 0 && preAt > now && !isInQuietHours(preAt, settings)) {
+    reminders.push({
+      id: `${baby.id}:feed-pre:${due}`,
+      babyId: baby.id,
+      kind: 'feed-pre',
+      fireAt: preAt,
+      title: `${baby.name}'s feed in ${Math.round((due - preAt) / 60000)} minutes`,
+      body: isPredicted
+        ? `Likely between ${formatTime(prediction.windowStart)} and ${formatTime(prediction.windowEnd)}.`
+        : `Next feeding at ${formatTime(due)}.`,
+      silent: false,
+      actions: ['snooze-15', 'snooze-30']
+    });
+  }
+  return reminders;
+});
+
+export const planCareReminders = (
+  babies: BabyProfile[],
+  entriesByBaby: Record<string, LogEntry[]>,
+  settings: ReminderSettings,
+  now = Date.now()
+): PlannedReminder[] => babies.flatMap(baby =>
+  getCareReminderStatuses(baby, entriesByBaby[baby.id] || [], now)
+    .filter(status => status.dueAt !== null && status.dueAt > now - STALE_AFTER)
+    .map(({ reminder, dueAt, limitReached }): PlannedReminder => {
+      const label = getCareReminderLabel(reminder);
+      const body = reminder.kind === 'diaper-gap'
+        ? `No wet diaper logged in ${reminder.everyHours} hours.`
+        : limitReached
+          ? `Daily limit of ${reminder.maxPerDay} doses has passed; the next dose is allowed now.`
+          : `${label} is due. Log it to mark it done.`;
+      return {
+        id: `${baby.id}:care:${reminder.id}:${dueAt}`,
+        babyId: baby.id,
+        kind: 'care',
+        careReminderId: reminder.id,
+        fireAt: dueAt,
+        title: `${label} for ${baby.name}`,
+        body,
+        silent: isInQuietHours(dueAt, settings),
+        actions: []
+      };
+    })
+);
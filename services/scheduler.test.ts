@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { BabyProfile, FeedingSchedule, LogEntry } from '../types';
+import { computeNextFeed, DEFAULT_SCHEDULE, getIntervalMinutes, suggestInterval } from './scheduler';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+
+// Local time on a day of October 2026
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute).getTime();
+
+const babyWith = (schedule: Partial<FeedingSchedule> = {}, ageDays = 10): BabyProfile =>
+  ({ id: 'baby', name: 'Ada', birthDate: NOW - ageDays * DAY, schedule: { ...DEFAULT_SCHEDULE, dayIntervalMinutes: 180, nightIntervalMinutes: 240, ...schedule } });
+
+let nextId = 0;
+const feed = (timestamp: number, fields: Partial<LogEntry> = {}): LogEntry =>
+  ({ id: String(nextId++), type: 'bottle', timestamp, amount: 90, ...fields });
+
+const feedsAt = (...times: number[]) => times.map(time => feed(time));
+
+describe('suggestInterval', () => {
+  it.each([
+    ['no feeds', [], { dayIntervalMinutes: 150, nightIntervalMinutes: 150, basis: 'age' }],
+    ['two day gaps', feedsAt(at(19, 6), at(19, 8), at(19, 10)), { dayIntervalMinutes: 150, basis: 'age' }],
+    // 0.7 * 120 + 0.3 * 150 = 129, rounded to the quarter hour
+    ['three 2-hour day gaps', feedsAt(at(19, 6), at(19, 8), at(19, 10), at(19, 12)), { dayIntervalMinutes: 135, nightIntervalMinutes: 150, basis: 'history' }],
+    // 0.7 * 180 + 0.3 * 150 = 171
+    ['three 3-hour gaps across midnight', feedsAt(at(18, 22), at(19, 1), at(19, 4), at(19, 7)), { dayIntervalMinutes: 150, nightIntervalMinutes: 165, basis: 'history' }],
+    ['gaps counted by the hour they start', feedsAt(at(18, 21), at(19, 0), at(19, 3), at(19, 6)), { dayIntervalMinutes: 150, nightIntervalMinutes: 150, basis: 'age' }],
+    ['cluster feeds and missed logs skipped', feedsAt(at(18, 8), at(18, 8, 30), at(18, 18), at(18, 18, 40), at(19, 6)), { basis: 'age' }],
+    ['feeds older than three days ignored', feedsAt(at(15, 8), at(15, 10), at(15, 12), at(15, 14)), { observedFeeds: 0, basis: 'age' }]
+  ] as const)('%s', (_, entries, expected) => {
+    expect(suggestInterval([...entries], babyWith(), NOW)).toMatchObject(expected);
+  });
+
+  it.each([
+    [null, 150],
+    [29, 150],
+    [30, 180],
+    [60, 210],
+    [120, 240],
+    [180, 270]
+  ])('falls back on the age interval at day %s', (ageDays, minutes) => {
+    const baby = ageDays === null ? { ...babyWith(), birthDate: undefined } : babyWith({}, ageDays);
+    expect(suggestInterval([], baby, NOW).dayIntervalMinutes).toBe(minutes);
+  });
+
+  it('counts only the night gaps inside a window that does not wrap', () => {
+    const baby = babyWith({ nightStartHour: 0, nightEndHour: 5 });
+    const entries = feedsAt(at(18, 21), at(19, 0), at(19, 3), at(19, 6), at(19, 9));
+    // 21:00 and 6:00 start day gaps, 0:00 and 3:00 night ones
+    expect(suggestInterval(entries, baby, NOW)).toMatchObject({ nightIntervalMinutes: 150, observedFeeds: 5 });
+  });
+});
+
+describe('getIntervalMinutes', () => {
+  const wrapping = babyWith();
+  const early = babyWith({ nightStartHour: 1, nightEndHour: 5 });
+
+  it.each([
+    ['day before the night starts', wrapping, at(19, 21, 59), 180],
+    ['night from its start hour', wrapping, at(19, 22), 240],
+    ['night before midnight', wrapping, at(19, 23, 30), 240],
+    ['night after midnight', wrapping, at(20, 0, 30), 240],
+    ['night up to its end hour', wrapping, at(20, 5, 59), 240],
+    ['day from the end hour', wrapping, at(20, 6), 180],
+    ['day before a night that starts after midnight', early, at(20, 0, 30), 180],
+    ['night that starts after midnight', early, at(20, 1), 240],
+    ['day once that night ends', early, at(20, 5), 180]
+  ])('%s', (_, baby, time, minutes) => {
+    expect(getIntervalMinutes(baby, [], time, NOW)).toBe(minutes);
+  });
+
+  it('follows the suggested interval when set to adjust', () => {
+    const entries = feedsAt(at(19, 6), at(19, 8), at(19, 10), at(19, 12));
+    expect(getIntervalMinutes(babyWith({ autoAdjust: true }), entries, at(19, 12), NOW)).toBe(135);
+    expect(getIntervalMinutes(babyWith({ autoAdjust: true }), entries, at(19, 23), NOW)).toBe(150);
+  });
+});
+
+describe('computeNextFeed', () => {
+  const nursed = (timestamp: number, duration: number) => feed(timestamp, { type: 'breast_left', amount: undefined, duration });
+
+  it.each([
+    ['end', 'the end of the last feed', [nursed(at(19, 10), 20)], at(19, 13, 20)],
+    ['start', 'the start of the last feed', [nursed(at(19, 10), 20)], at(19, 13)],
+    ['end', 'a feed without a duration', [feed(at(19, 10))], at(19, 13)],
+    // Ends at 22:10, so the night interval applies
+    ['end', 'an end that runs into the night', [nursed(at(19, 21, 50), 20)], at(20, 2, 10)],
+    ['start', 'a start just before the night', [nursed(at(19, 21, 50), 20)], at(20, 0, 50)],
+    ['end', 'the latest feed, whatever the order', [feed(at(19, 10)), feed(at(19, 8))], at(19, 13)]
+  ] as const)('counts from %s: %s', (anchor, _, entries, expected) => {
+    expect(computeNextFeed(babyWith({ anchor }), [...entries], NOW)).toBe(expected);
+  });
+
+  it('ignores entries that are not feeds', () => {
+    const entries = [feed(at(19, 10)), feed(at(19, 11), { type: 'diaper_wet', amount: undefined })];
+    expect(computeNextFeed(babyWith(), entries, NOW)).toBe(at(19, 13));
+  });
+
+  it('has nothing to schedule from without feeds', () => {
+    expect(computeNextFeed(babyWith(), [], NOW)).toBeNull();
+  });
+
+  it('ignores a manual override', () => {
+    expect(computeNextFeed({ ...babyWith(), nextFeedingTime: at(19, 11) }, [feed(at(19, 10))], NOW)).toBe(at(19, 13));
+  });
+});
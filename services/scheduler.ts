@@ -0,0 +1,104 @@
+import { BabyProfile, FeedingSchedule, LogEntry } from '../types';
+import { getAgeInDays } from './babyProfiles';
+
+export const DEFAULT_SCHEDULE: FeedingSchedule = {
+  dayIntervalMinutes: 180,
+  nightIntervalMinutes: 180,
+  nightStartHour: 22,
+  nightEndHour: 6,
+  anchor: 'end',
+  autoAdjust: false,
+  predictive: false
+};
+
+const MINUTE = 60 * 1000;
+
+export const isFeed = (entry: LogEntry) => entry.type.includes('breast') || entry.type === 'bottle';
+
+export const getSchedule = (baby: BabyProfile): FeedingSchedule => ({ ...DEFAULT_SCHEDULE, ...baby.schedule });
+
+// Whether a time falls in a local-hour window; windows may wrap past midnight (22 -> 6)
+export const isWithinHours = (timestamp: number, startHour: number, endHour: number) => {
+  const hour = new Date(timestamp).getHours();
+  return startHour > endHour ? hour >= startHour || hour < endHour : hour >= startHour && hour < endHour;
+};
+
+export const isNightTime = (timestamp: number, schedule: FeedingSchedule) =>
+  isWithinHours(timestamp, schedule.nightStartHour, schedule.nightEndHour);
+
+// Typical gaps between feeds by age, from common newborn feeding guidance
+export const getAgeBasedInterval = (ageInDays: number | null): number => {
+  if (ageInDays === null || ageInDays < 30) return 150;
+  if (ageInDays < 60) return 180;
+  if (ageInDays < 120) return 210;
+  if (ageInDays < 180) return 240;
+  return 270;
+};
+
+export interface IntervalSuggestion {
+  dayIntervalMinutes: number;
+  nightIntervalMinutes: number;
+  observedFeeds: number;
+  basis: 'age' | 'history';
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const roundToQuarterHour = (minutes: number) => Math.max(60, Math.round(minutes / 15) * 15);
+
+// Blends the age-based interval with the median gap actually observed over the last few days.
+// Gaps under 45 minutes are treated as one cluster feed, gaps over 8 hours as missed logs.
+export const suggestInterval = (
+  entries: LogEntry[],
+  baby: BabyProfile,
+  now = Date.now(),
+  days = 3
+): IntervalSuggestion => {
+  const schedule = getSchedule(baby);
+  const ageInterval = getAgeBasedInterval(getAgeInDays(baby, now));
+  const feeds = entries
+    .filter(e => isFeed(e) && e.timestamp >= now - days * 24 * 60 * MINUTE && e.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const dayGaps: number[] = [];
+  const nightGaps: number[] = [];
+  for (let i = 1; i < feeds.length; i++) {
+    const gap = (feeds[i].timestamp - feeds[i - 1].timestamp) / MINUTE;
+    if (gap < 45 || gap > 8 * 60) continue;
+    (isNightTime(feeds[i - 1].timestamp, schedule) ? nightGaps : dayGaps).push(gap);
+  }
+
+  const blend = (gaps: number[]) => gaps.length >= 3
+    ? roundToQuarterHour(0.7 * median(gaps) + 0.3 * ageInterval)
+    : ageInterval;
+
+  return {
+    dayIntervalMinutes: blend(dayGaps),
+    nightIntervalMinutes: blend(nightGaps),
+    observedFeeds: feeds.length,
+    basis: dayGaps.length >= 3 || nightGaps.length >= 3 ? 'history' : 'age'
+  };
+};
+
+export const getIntervalMinutes = (baby: BabyProfile, entries: LogEntry[], at: number, now = Date.now()) => {
+  const schedule = getSchedule(baby);
+  const intervals = schedule.autoAdjust ? suggestInterval(entries, baby, now) : schedule;
+  return isNightTime(at, schedule) ? intervals.nightIntervalMinutes : intervals.dayIntervalMinutes;
+};
+
+// The scheduled next feed from the last logged feed, ignoring any manual override
+export const computeNextFeed = (baby: BabyProfile, entries: LogEntry[], now = Date.now()): number | null => {
+  const lastFeed = entries.filter(isFeed).reduce<LogEntry | null>(
+    (latest, e) => !latest || e.timestamp > latest.timestamp ? e : latest, null);
+  if (!lastFeed) return null;
+
+  const schedule = getSchedule(baby);
+  const anchor = schedule.anchor === 'end'
+    ? lastFeed.timestamp + (lastFeed.duration || 0) * MINUTE
+    : lastFeed.timestamp;
+  return anchor + getIntervalMinutes(baby, entries, anchor, now) * MINUTE;
+};
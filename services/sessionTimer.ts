@@ -0,0 +1,93 @@
+import { EntryType, LogEntry, TimerSession } from '../types';
+
+export const isNursing = (type: EntryType) => type === 'breast_left' || type === 'breast_right';
+
+export const startSession = (babyId: string, type: EntryType, now = Date.now()): TimerSession => ({
+  babyId,
+  segments: [{ type, start: now, end: null }]
+});
+
+export const getSessionType = (session: TimerSession): EntryType =>
+  session.segments[session.segments.length - 1].type;
+
+export const isPaused = (session: TimerSession) =>
+  session.segments[session.segments.length - 1].end !== null;
+
+export const getSessionStart = (session: TimerSession) => session.segments[0].start;
+
+export const pauseSession = (session: TimerSession, now = Date.now()): TimerSession => {
+  if (isPaused(session)) return session;
+  return {
+    ...session,
+    segments: session.segments.map((seg, i) => i === session.segments.length - 1 ? { ...seg, end: now } : seg)
+  };
+};
+
+export const resumeSession = (session: TimerSession, now = Date.now(), type = getSessionType(session)): TimerSession => {
+  if (!isPaused(session)) return session;
+  return { ...session, segments: [...session.segments, { type, start: now, end: null }] };
+};
+
+// Left -> right (or back) within the same feed. A paused session resumes on the new side.
+export const switchSide = (session: TimerSession, now = Date.now()): TimerSession => {
+  const current = getSessionType(session);
+  if (!isNursing(current)) return session;
+  const next: EntryType = current === 'breast_left' ? 'breast_right' : 'breast_left';
+  return resumeSession(pauseSession(session, now), now, next);
+};
+
+// Moves the start of the first segment, e.g. when the timer was tapped late
+export const setSessionStart = (session: TimerSession, start: number, now = Date.now()): TimerSession => {
+  const [first, ...rest] = session.segments;
+  const latest = (first.end ?? now) - 1000;
+  return { ...session, segments: [{ ...first, start: Math.min(start, latest) }, ...rest] };
+};
+
+const segmentMs = (start: number, end: number | null, now: number) => Math.max(0, (end ?? now) - start);
+
+export const getElapsedMs = (session: TimerSession, now = Date.now()) =>
+  session.segments.reduce((sum, seg) => sum + segmentMs(seg.start, seg.end, now), 0);
+
+export const getTypeMs = (session: TimerSession, type: EntryType, now = Date.now()) =>
+  session.segments
+    .filter(seg => seg.type === type)
+    .reduce((sum, seg) => sum + segmentMs(seg.start, seg.end, now), 0);
+
+// Whole seconds, expressed in minutes to match LogEntry.duration
+const toMinutes = (ms: number) => Math.round(ms / 1000) / 60;
+
+// Turns a session into the entry to log. Nursing sessions keep the side they started on as
+// their type, the side they ended on, and per-side minutes when both sides were used.
+export const finishSession = (session: TimerSession, now = Date.now()): Omit<LogEntry, 'id'> => {
+  const type = session.segments[0].type;
+  const entry: Omit<LogEntry, 'id'> = {
+    type,
+    timestamp: getSessionStart(session),
+    duration: toMinutes(getElapsedMs(session, now))
+  };
+  if (isNursing(type)) entry.endSide = getSessionType(session) === 'breast_left' ? 'left' : 'right';
+  if (isNursing(type) && new Set(session.segments.map(seg => seg.type)).size > 1) {
+    entry.sides = {
+      left: toMinutes(getTypeMs(session, 'breast_left', now)),
+      right: toMinutes(getTypeMs(session, 'breast_right', now))
+    };
+  }
+  return entry;
+};
+
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const formatDuration = (minutes: number) => {
+  const totalSeconds = Math.round(minutes * 60);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+};
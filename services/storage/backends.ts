@@ -0,0 +1,72 @@
+// Key/value backends the store persists through. Values are always serialized strings
+// so a backend can be swapped without touching the schema or migrations.
+export interface StorageBackend {
+  name: string;
+  keys(): Promise<string[]>;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export const createLocalStorageBackend = (storage: Storage = localStorage): StorageBackend => ({
+  name: 'localStorage',
+  keys: async () => Object.keys(storage),
+  getItem: async (key) => storage.getItem(key),
+  setItem: async (key, value) => storage.setItem(key, value),
+  removeItem: async (key) => storage.removeItem(key)
+});
+
+export const createMemoryBackend = (initial: Record<string, string> = {}): StorageBackend => {
+  const data = new Map(Object.entries(initial));
+  return {
+    name: 'memory',
+    keys: async () => [...data.keys()],
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => { data.set(key, value); },
+    removeItem: async (key) => { data.delete(key); }
+  };
+};
+
+const IDB_STORE = 'kv';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// IndexedDB has far larger quotas than localStorage, which matters once logs hold months of entries.
+// Not used yet: the store still defaults to localStorage, and switching needs a copyBackend pass
+// at startup. Node has no IndexedDB, so it is also not covered by the storage tests.
+export const createIndexedDBBackend = (dbName = 'nurturetrack'): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return promisify(run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)));
+  };
+
+  return {
+    name: 'indexedDB',
+    keys: async () => (await withStore('readonly', store => store.getAllKeys())).map(String),
+    getItem: async (key) => (await withStore<string | undefined>('readonly', store => store.get(key))) ?? null,
+    setItem: async (key, value) => { await withStore('readwrite', store => store.put(value, key)); },
+    removeItem: async (key) => { await withStore('readwrite', store => store.delete(key)); }
+  };
+};
+
+// Copies every key from one backend to another, e.g. when moving from localStorage to IndexedDB
+export const copyBackend = async (from: StorageBackend, to: StorageBackend) => {
+  for (const key of await from.keys()) {
+    const value = await from.getItem(key);
+    if (value !== null) await to.setItem(key, value);
+  }
+};
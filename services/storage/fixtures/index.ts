@@ -0,0 +1,8 @@
+import { readFileSync } from 'node:fs';
+import { RawRecords } from '../migrations';
+
+// Stores as each schema version wrote them. Values other than strings were stored as JSON.
+export const loadFixture = (name: 'v0' | 'v1' | 'v2'): RawRecords => {
+  const raw: Record<string, unknown> = JSON.parse(readFileSync(new URL(`./${name}.json`, import.meta.url), 'utf8'));
+  return Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+};
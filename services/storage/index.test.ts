@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend, getQuarantinedRecords, loadPersistedData, setStorageBackend, STORAGE_KEYS, StorageBackend } from '.';
+import { loadFixture } from './fixtures';
+import { LEGACY_KEYS, RawRecords } from './migrations';
+
+const withStore = (records: RawRecords) => {
+  const initial: Record<string, string> = {};
+  Object.entries(records).forEach(([key, value]) => { if (value !== null) initial[key] = value; });
+  const store = createMemoryBackend(initial);
+  setStorageBackend(store);
+  return store;
+};
+
+const read = async (store: StorageBackend, key: string) => JSON.parse((await store.getItem(key))!);
+
+describe('loadPersistedData', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes a migrated store back at the current version', async () => {
+    const store = withStore(loadFixture('v0'));
+    const { data, quarantined } = await loadPersistedData();
+    expect(quarantined).toEqual([]);
+    expect(await store.getItem(STORAGE_KEYS.schemaVersion)).toBe('2');
+    expect(await read(store, STORAGE_KEYS.entries)).toEqual(data.entriesByBaby);
+    expect(await Promise.all(Object.values(LEGACY_KEYS).map(key => store.getItem(key)))).toEqual([null, null, null]);
+  });
+
+  it('sets aside invalid entries and keeps the rest', async () => {
+    const v2 = loadFixture('v2');
+    const logs = JSON.parse(v2[STORAGE_KEYS.entries]!);
+    logs.ada.push({ id: 'e9', type: 'bath', timestamp: 1792430000000 }, { id: 'e10', type: 'bottle', timestamp: 'noon' });
+    const store = withStore({ ...v2, [STORAGE_KEYS.entries]: JSON.stringify(logs) });
+
+    const { data, quarantined } = await loadPersistedData();
+    expect(data.entriesByBaby.ada.map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(quarantined).toMatchObject([
+      { key: STORAGE_KEYS.entries, record: { babyId: 'ada', entry: { id: 'e9' } }, reason: 'unknown type "bath"' },
+      { key: STORAGE_KEYS.entries, record: { babyId: 'ada', entry: { id: 'e10' } }, reason: 'timestamp is not a number' }
+    ]);
+    expect(await read(store, STORAGE_KEYS.quarantine)).toEqual(JSON.parse(JSON.stringify(quarantined)));
+    expect((await read(store, STORAGE_KEYS.entries)).ada).toHaveLength(2);
+  });
+
+  it('adds to what earlier loads quarantined', async () => {
+    const earlier = { key: STORAGE_KEYS.babies, record: {}, reason: 'missing id', quarantinedAt: 1 };
+    withStore({ ...loadFixture('v2'), [STORAGE_KEYS.babies]: '[{"name": "Ada"', [STORAGE_KEYS.quarantine]: JSON.stringify([earlier]) });
+
+    const { data } = await loadPersistedData();
+    expect(data.babies).toHaveLength(1);
+    expect((await getQuarantinedRecords()).map(r => r.reason)).toEqual(['missing id', 'unparseable JSON']);
+  });
+
+  it('keeps the first of two profiles with the same id', async () => {
+    const babies = [{ id: 'ada', name: 'Ada' }, { id: 'ada', name: 'Copy' }];
+    withStore({ ...loadFixture('v2'), [STORAGE_KEYS.babies]: JSON.stringify(babies) });
+    const { data, quarantined } = await loadPersistedData();
+    expect(data.babies.map(b => b.name)).toEqual(['Ada']);
+    expect(quarantined).toMatchObject([{ key: STORAGE_KEYS.babies, record: { name: 'Copy' }, reason: 'duplicate id' }]);
+  });
+
+  it('drops a running timer for a baby that no longer exists', async () => {
+    const sessions = { gone: { babyId: 'gone', segments: [{ type: 'breast_left', start: 1792430000000, end: null }] } };
+    withStore({ ...loadFixture('v2'), [STORAGE_KEYS.sessions]: JSON.stringify(sessions) });
+    const { data, quarantined } = await loadPersistedData();
+    expect(data.sessions).toEqual({});
+    expect(quarantined).toMatchObject([{ key: STORAGE_KEYS.sessions, reason: 'unknown baby' }]);
+  });
+});
+
+describe('getQuarantinedRecords', () => {
+  it('reads a damaged quarantine as empty', async () => {
+    withStore({ [STORAGE_KEYS.quarantine]: '[{' });
+    expect(await getQuarantinedRecords()).toEqual([]);
+  });
+});
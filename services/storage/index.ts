@@ -0,0 +1,182 @@
+import { AppSettings, BabyProfile, LogEntry, SyncState, TimerSession } from '../../types';
+import { createBabyProfile } from '../babyProfiles';
+import { StorageBackend, createLocalStorageBackend } from './backends';
+import { CURRENT_SCHEMA_VERSION, LEGACY_KEYS, MigrationContext, RawRecords, detectVersion, runMigrations } from './migrations';
+import { STORAGE_KEYS, isRecord, validateBaby, validateEntry, validateSession, validateSettings, validateSyncState } from './schema';
+
+export * from './backends';
+export { CURRENT_SCHEMA_VERSION } from './migrations';
+export type { RawRecords } from './migrations';
+export {
+  AI_PROVIDER_IDS, createSyncState, DEFAULT_AI_SETTINGS, DEFAULT_SETTINGS, DOSE_UNITS, ENTRY_TYPES, isEntryType, isRecord, SOLIDS_REACTIONS, STORAGE_KEYS, validateBaby, validateEntry
+} from './schema';
+
+export interface PersistedData {
+  babies: BabyProfile[];
+  activeBabyId: string;
+  entriesByBaby: Record<string, LogEntry[]>;
+  sessions: Record<string, TimerSession>; // running timers keyed by baby id
+  settings: AppSettings;
+  sync: SyncState;
+}
+
+export interface QuarantinedRecord {
+  key: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+export interface LoadResult {
+  data: PersistedData;
+  quarantined: QuarantinedRecord[]; // records set aside during this load
+}
+
+let backend: StorageBackend | null = null;
+
+export const setStorageBackend = (next: StorageBackend) => {
+  backend = next;
+};
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) backend = createLocalStorageBackend();
+  return backend;
+};
+
+const readRecords = async (keys: string[]): Promise<RawRecords> => {
+  const records: RawRecords = {};
+  for (const key of keys) {
+    records[key] = await getStorageBackend().getItem(key);
+  }
+  return records;
+};
+
+const writeRecords = async (records: RawRecords) => {
+  for (const [key, value] of Object.entries(records)) {
+    if (value === null) {
+      await getStorageBackend().removeItem(key);
+    } else {
+      await getStorageBackend().setItem(key, value);
+    }
+  }
+};
+
+// A key left out of the records, as backups leave out sync, reads the same as an empty one
+const parseJSON = (key: string, raw: string | null | undefined, ctx: MigrationContext): unknown => {
+  if (raw == null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    ctx.quarantine(key, raw, 'unparseable JSON');
+    return undefined;
+  }
+};
+
+const decode = (records: RawRecords, ctx: MigrationContext): PersistedData => {
+  const rawBabies = parseJSON(STORAGE_KEYS.babies, records[STORAGE_KEYS.babies], ctx);
+  const babies: BabyProfile[] = [];
+  if (Array.isArray(rawBabies)) {
+    rawBabies.forEach(raw => {
+      const result = validateBaby(raw);
+      if (!result.value) return ctx.quarantine(STORAGE_KEYS.babies, raw, result.reason);
+      if (babies.some(b => b.id === result.value.id)) return ctx.quarantine(STORAGE_KEYS.babies, raw, 'duplicate id');
+      babies.push(result.value);
+    });
+  } else if (rawBabies !== undefined) {
+    ctx.quarantine(STORAGE_KEYS.babies, rawBabies, 'profiles are not a list');
+  }
+  if (babies.length === 0) babies.push(createBabyProfile('Baby'));
+
+  const rawEntries = parseJSON(STORAGE_KEYS.entries, records[STORAGE_KEYS.entries], ctx);
+  const entriesByBaby: Record<string, LogEntry[]> = {};
+  if (isRecord(rawEntries)) {
+    Object.entries(rawEntries).forEach(([babyId, list]) => {
+      if (!Array.isArray(list)) return ctx.quarantine(STORAGE_KEYS.entries, { babyId, list }, 'log is not a list');
+      entriesByBaby[babyId] = list.flatMap(raw => {
+        const result = validateEntry(raw);
+        if (result.value) return [result.value];
+        ctx.quarantine(STORAGE_KEYS.entries, { babyId, entry: raw }, result.reason);
+        return [];
+      });
+    });
+  } else if (rawEntries !== undefined) {
+    ctx.quarantine(STORAGE_KEYS.entries, rawEntries, 'logs are not keyed by baby');
+  }
+  babies.forEach(b => { entriesByBaby[b.id] = entriesByBaby[b.id] || []; });
+
+  const rawSessions = parseJSON(STORAGE_KEYS.sessions, records[STORAGE_KEYS.sessions], ctx);
+  const sessions: Record<string, TimerSession> = {};
+  if (isRecord(rawSessions)) {
+    Object.values(rawSessions).forEach(raw => {
+      const result = validateSession(raw);
+      if (!result.value) return ctx.quarantine(STORAGE_KEYS.sessions, raw, result.reason);
+      if (!babies.some(b => b.id === result.value.babyId)) return ctx.quarantine(STORAGE_KEYS.sessions, raw, 'unknown baby');
+      sessions[result.value.babyId] = result.value;
+    });
+  }
+
+  const savedActive = records[STORAGE_KEYS.activeBaby];
+  return {
+    babies,
+    activeBabyId: babies.some(b => b.id === savedActive) ? savedActive! : babies[0].id,
+    entriesByBaby,
+    sessions,
+    settings: validateSettings(parseJSON(STORAGE_KEYS.settings, records[STORAGE_KEYS.settings], ctx)),
+    sync: validateSyncState(parseJSON(STORAGE_KEYS.sync, records[STORAGE_KEYS.sync], ctx))
+  };
+};
+
+export const serializePersistedData = (data: PersistedData): RawRecords => ({
+  [STORAGE_KEYS.schemaVersion]: String(CURRENT_SCHEMA_VERSION),
+  [STORAGE_KEYS.babies]: JSON.stringify(data.babies),
+  [STORAGE_KEYS.activeBaby]: data.activeBabyId,
+  [STORAGE_KEYS.entries]: JSON.stringify(data.entriesByBaby),
+  [STORAGE_KEYS.sessions]: JSON.stringify(data.sessions),
+  [STORAGE_KEYS.settings]: JSON.stringify(data.settings),
+  [STORAGE_KEYS.sync]: JSON.stringify(data.sync)
+});
+
+// Migrates and validates raw records without touching storage; also used to read backups
+export const decodeRecords = (records: RawRecords): LoadResult & { migrated: RawRecords } => {
+  const quarantined: QuarantinedRecord[] = [];
+  const ctx: MigrationContext = {
+    quarantine: (key, record, reason) => { quarantined.push({ key, record, reason, quarantinedAt: Date.now() }); }
+  };
+
+  const version = detectVersion(records);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Storage schema v${version} is newer than this build (v${CURRENT_SCHEMA_VERSION}); reading what it can.`);
+  }
+  const migrated = runMigrations(records, version, ctx);
+  return { data: decode(migrated, ctx), quarantined, migrated };
+};
+
+// Reads, migrates and validates everything. Never throws on bad data: invalid records are
+// moved to the quarantine key so they can be inspected or recovered later.
+export const loadPersistedData = async (): Promise<LoadResult> => {
+  const records = await readRecords([...Object.values(STORAGE_KEYS), ...Object.values(LEGACY_KEYS)]);
+  const { data, quarantined, migrated } = decodeRecords(records);
+
+  const removals = Object.fromEntries(Object.entries(migrated).filter(([, value]) => value === null));
+  await writeRecords({ ...removals, ...serializePersistedData(data) });
+
+  if (quarantined.length > 0) {
+    console.warn(`Quarantined ${quarantined.length} invalid record(s)`, quarantined);
+    const existing = await getQuarantinedRecords();
+    await getStorageBackend().setItem(STORAGE_KEYS.quarantine, JSON.stringify([...existing, ...quarantined]));
+  }
+
+  return { data, quarantined };
+};
+
+export const savePersistedData = (data: PersistedData) => writeRecords(serializePersistedData(data));
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const raw = await getStorageBackend().getItem(STORAGE_KEYS.quarantine);
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
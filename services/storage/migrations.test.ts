@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { decodeRecords } from '.';
+import { loadFixture as fixture } from './fixtures';
+import { CURRENT_SCHEMA_VERSION, detectVersion, LEGACY_KEYS, runMigrations } from './migrations';
+import { STORAGE_KEYS } from './schema';
+
+const noQuarantine = { quarantine: () => { throw new Error('nothing should be quarantined'); } };
+
+describe('detectVersion', () => {
+  it.each([
+    ['v0', 0],
+    ['v1', 1],
+    ['v2', 2]
+  ] as const)('reads %s as version %i', (name, version) => {
+    expect(detectVersion(fixture(name))).toBe(version);
+  });
+
+  it('takes profiles without a version key as version 1', () => {
+    const { [STORAGE_KEYS.schemaVersion]: _, ...records } = fixture('v1');
+    expect(detectVersion(records)).toBe(1);
+  });
+});
+
+describe('migration to v1', () => {
+  it('folds the single-baby keys into a first profile', () => {
+    const migrated = runMigrations(fixture('v0'), 0, noQuarantine);
+    const [baby] = JSON.parse(migrated[STORAGE_KEYS.babies]!);
+    expect(baby).toMatchObject({ name: 'Baby', photo: 'data:image/png;base64,iVBORw0KGgo=', nextFeedingTime: 1792410800000 });
+    expect(migrated[STORAGE_KEYS.activeBaby]).toBe(baby.id);
+    expect(Object.keys(JSON.parse(migrated[STORAGE_KEYS.entries]!))).toEqual([baby.id]);
+    expect(Object.values(LEGACY_KEYS).map(key => migrated[key])).toEqual([null, null, null]);
+  });
+
+  it('quarantines unreadable legacy logs and starts an empty one', () => {
+    const quarantined: string[] = [];
+    const migrated = runMigrations({ ...fixture('v0'), [LEGACY_KEYS.logs]: '[{"id": "e1",' }, 0, {
+      quarantine: (key, _, reason) => { quarantined.push(`${key}: ${reason}`); }
+    });
+    expect(quarantined).toEqual(['nurture_logs: unparseable JSON']);
+    expect(Object.values(JSON.parse(migrated[STORAGE_KEYS.entries]!))).toEqual([[]]);
+  });
+});
+
+describe('migration to v2', () => {
+  it('converts unitless amounts from oz to ml and records the unit', () => {
+    const migrated = runMigrations(fixture('v1'), 1, noQuarantine);
+    expect(JSON.parse(migrated[STORAGE_KEYS.entries]!).ada).toEqual([
+      { id: 'e1', type: 'bottle', timestamp: 1792400000000, amount: 88.72, unit: 'oz' },
+      { id: 'e2', type: 'bottle', timestamp: 1792410800000, amount: 120, unit: 'ml' },
+      { id: 'e3', type: 'breast_left', timestamp: 1792421600000, duration: 15 }
+    ]);
+    expect(migrated[STORAGE_KEYS.schemaVersion]).toBe('2');
+  });
+
+  it('leaves unreadable logs for decoding to quarantine', () => {
+    const records = { ...fixture('v1'), [STORAGE_KEYS.entries]: '{"ada": [' };
+    expect(runMigrations(records, 1, noQuarantine)[STORAGE_KEYS.entries]).toBe('{"ada": [');
+  });
+});
+
+describe('decodeRecords', () => {
+  it('brings every version to the same current data', () => {
+    const [v0, v1, v2] = (['v0', 'v1', 'v2'] as const).map(name => decodeRecords(fixture(name)));
+    expect(v0.migrated[STORAGE_KEYS.schemaVersion]).toBe(String(CURRENT_SCHEMA_VERSION));
+    expect(v0.data.entriesByBaby[v0.data.activeBabyId][0]).toMatchObject({ amount: 118.29, unit: 'oz' });
+    expect(v1.data.entriesByBaby.ada.slice(0, 2)).toEqual(v2.data.entriesByBaby.ada);
+    expect([v0, v1, v2].map(result => result.quarantined)).toEqual([[], [], []]);
+  });
+
+  it('does not convert amounts twice', () => {
+    const { data, migrated } = decodeRecords(fixture('v2'));
+    expect(data.entriesByBaby.ada.map(e => e.amount)).toEqual([88.72, 120]);
+    expect(migrated).toEqual(fixture('v2'));
+  });
+});
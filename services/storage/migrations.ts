@@ -0,0 +1,94 @@
+import { createBabyProfile } from '../babyProfiles';
+import { toMl } from '../units';
+import { STORAGE_KEYS, isRecord } from './schema';
+
+// Serialized values keyed by storage key; a null value means the key is removed on save
+export type RawRecords = Record<string, string | null>;
+
+export interface MigrationContext {
+  quarantine: (key: string, record: unknown, reason: string) => void;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (records: RawRecords, ctx: MigrationContext) => RawRecords;
+}
+
+export const LEGACY_KEYS = {
+  logs: 'nurture_logs',
+  nextFeed: 'nurture_next_feed',
+  photo: 'nurture_baby_photo'
+} as const;
+
+const parseOr = <T>(raw: string | null | undefined, fallback: T, key: string, ctx: MigrationContext): T => {
+  if (raw == null) return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    ctx.quarantine(key, raw, 'unparseable JSON');
+    return fallback;
+  }
+};
+
+// Ordered by version; each migration lifts records from version - 1 to version
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fold single-baby logs, photo and next feed into a first profile',
+    up: (records, ctx) => {
+      const baby = createBabyProfile('Baby');
+      const nextFeed = parseInt(records[LEGACY_KEYS.nextFeed] ?? '', 10);
+      baby.photo = records[LEGACY_KEYS.photo] ?? null;
+      baby.nextFeedingTime = Number.isFinite(nextFeed) ? nextFeed : null;
+
+      return {
+        ...records,
+        [STORAGE_KEYS.babies]: JSON.stringify([baby]),
+        [STORAGE_KEYS.activeBaby]: baby.id,
+        [STORAGE_KEYS.entries]: JSON.stringify({ [baby.id]: parseOr(records[LEGACY_KEYS.logs], [], LEGACY_KEYS.logs, ctx) }),
+        [LEGACY_KEYS.logs]: null,
+        [LEGACY_KEYS.nextFeed]: null,
+        [LEGACY_KEYS.photo]: null
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Store bottle amounts in ml; unitless amounts were entered in oz',
+    up: (records) => {
+      // Unreadable logs are left as they are for decoding to quarantine
+      let logs: unknown = null;
+      try {
+        logs = JSON.parse(records[STORAGE_KEYS.entries] ?? 'null');
+      } catch {
+        return records;
+      }
+      if (!isRecord(logs)) return records;
+
+      const converted = Object.fromEntries(Object.entries(logs).map(([babyId, list]) => [
+        babyId,
+        Array.isArray(list)
+          ? list.map(entry => isRecord(entry) && typeof entry.amount === 'number' && entry.unit === undefined
+            ? { ...entry, amount: toMl(entry.amount, 'oz'), unit: 'oz' }
+            : entry)
+          : list
+      ]));
+      return { ...records, [STORAGE_KEYS.entries]: JSON.stringify(converted) };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Stores written before versioning was introduced carry no version key
+export const detectVersion = (records: RawRecords): number => {
+  const recorded = parseInt(records[STORAGE_KEYS.schemaVersion] ?? '', 10);
+  if (Number.isFinite(recorded)) return recorded;
+  return records[STORAGE_KEYS.babies] != null ? 1 : 0;
+};
+
+export const runMigrations = (records: RawRecords, fromVersion: number, ctx: MigrationContext): RawRecords =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((acc, m) => ({ ...m.up(acc, ctx), [STORAGE_KEYS.schemaVersion]: String(m.version) }), records);
@@ -0,0 +1,272 @@
+import {
+  AIProviderId, AISettings, AppSettings, BabyProfile, BreastSide, CareReminder, DoseUnit, EntryType, FeedingSchedule, HealthAgeBand,
+  HealthThresholdOverrides, HealthThresholds, LogEntry, MeasurementSystem, ReminderSettings, SolidsReaction, SyncConfig, SyncState,
+  TimerSegment, TimerSession, Tombstone, VolumeUnit
+} from '../../types';
+import { createId } from '../babyProfiles';
+
+export const STORAGE_KEYS = {
+  schemaVersion: 'nurture_schema_version',
+  babies: 'nurture_babies',
+  activeBaby: 'nurture_active_baby',
+  entries: 'nurture_logs_by_baby',
+  sessions: 'nurture_active_sessions',
+  settings: 'nurture_settings',
+  sync: 'nurture_sync',
+  quarantine: 'nurture_quarantine'
+} as const;
+
+export const ENTRY_TYPES: EntryType[] = [
+  'breast_left', 'breast_right', 'bottle', 'diaper_wet', 'diaper_dirty', 'diaper_both', 'sleep', 'tummy_time', 'medication',
+  'pumping', 'solids', 'temperature', 'growth'
+];
+
+export const isEntryType = (value: unknown): value is EntryType =>
+  typeof value === 'string' && (ENTRY_TYPES as string[]).includes(value);
+
+const isHour = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < 24;
+
+const isBreastSide = (value: unknown): value is BreastSide => value === 'left' || value === 'right';
+
+export const isVolumeUnit = (value: unknown): value is VolumeUnit => value === 'ml' || value === 'oz';
+
+export const SOLIDS_REACTIONS: SolidsReaction[] = ['liked', 'neutral', 'disliked', 'allergy'];
+
+export const DOSE_UNITS: DoseUnit[] = ['ml', 'mg', 'drops'];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  leadMinutes: 10,
+  quietHoursEnabled: false,
+  quietStartHour: 22,
+  quietEndHour: 6
+};
+
+export const AI_PROVIDER_IDS: AIProviderId[] = ['gemini', 'openai', 'mock'];
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: '',
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1',
+  shareData: false
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  unit: 'oz',
+  measurement: 'metric',
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  ai: DEFAULT_AI_SETTINGS
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Each validator returns the cleaned record, or a reason string when it must be quarantined
+export interface Validated<T> {
+  value?: T;
+  reason?: string;
+}
+
+const invalid = (reason: string) => ({ reason });
+
+export const validateEntry = (raw: unknown): Validated<LogEntry> => {
+  if (!isRecord(raw)) return invalid('entry is not an object');
+  if (typeof raw.id !== 'string' || !raw.id) return invalid('missing id');
+  if (!isEntryType(raw.type)) return invalid(`unknown type "${String(raw.type)}"`);
+  if (!isFiniteNumber(raw.timestamp)) return invalid('timestamp is not a number');
+  if (raw.duration != null && (!isFiniteNumber(raw.duration) || raw.duration < 0)) return invalid('invalid duration');
+  if (raw.amount != null && (!isFiniteNumber(raw.amount) || raw.amount < 0)) return invalid('invalid amount');
+  if (raw.unit != null && !isVolumeUnit(raw.unit)) return invalid(`unknown unit "${String(raw.unit)}"`);
+  if (raw.note != null && typeof raw.note !== 'string') return invalid('note is not a string');
+  if (raw.medicine != null && typeof raw.medicine !== 'string') return invalid('medicine is not a string');
+  if (raw.food != null && typeof raw.food !== 'string') return invalid('food is not a string');
+  if (raw.loggedBy != null && typeof raw.loggedBy !== 'string') return invalid('loggedBy is not a string');
+  if (raw.pumped != null && !(isRecord(raw.pumped) && isFiniteNumber(raw.pumped.left) && isFiniteNumber(raw.pumped.right))) {
+    return invalid('invalid pumped volumes');
+  }
+  for (const key of ['dose', 'temperature', 'weight', 'length', 'head'] as const) {
+    if (raw[key] != null && (!isFiniteNumber(raw[key]) || (raw[key] as number) <= 0)) return invalid(`invalid ${key}`);
+  }
+  if (raw.sides != null && !(isRecord(raw.sides) && isFiniteNumber(raw.sides.left) && isFiniteNumber(raw.sides.right))) {
+    return invalid('invalid side durations');
+  }
+
+  const entry: LogEntry = { id: raw.id, type: raw.type, timestamp: raw.timestamp };
+  if (raw.duration != null) entry.duration = raw.duration as number;
+  if (raw.amount != null) entry.amount = raw.amount as number;
+  if (raw.unit != null) entry.unit = raw.unit as VolumeUnit;
+  if (raw.sides != null) entry.sides = raw.sides as LogEntry['sides'];
+  if (isBreastSide(raw.endSide)) entry.endSide = raw.endSide;
+  if (raw.note != null) entry.note = raw.note as string;
+  if (raw.medicine != null) entry.medicine = raw.medicine as string;
+  if (raw.pumped != null) entry.pumped = raw.pumped as LogEntry['pumped'];
+  if (raw.food != null) entry.food = raw.food as string;
+  if (isFiniteNumber(raw.updatedAt)) entry.updatedAt = raw.updatedAt;
+  if (raw.loggedBy != null) entry.loggedBy = raw.loggedBy as string;
+  // Unknown enum values are dropped rather than quarantining an otherwise valid entry
+  if (SOLIDS_REACTIONS.includes(raw.reaction as SolidsReaction)) entry.reaction = raw.reaction as SolidsReaction;
+  if (DOSE_UNITS.includes(raw.doseUnit as DoseUnit)) entry.doseUnit = raw.doseUnit as DoseUnit;
+  for (const key of ['dose', 'temperature', 'weight', 'length', 'head'] as const) {
+    if (raw[key] != null) entry[key] = raw[key] as number;
+  }
+  return { value: entry };
+};
+
+const isInterval = (value: unknown): value is number => isFiniteNumber(value) && value >= 30 && value <= 12 * 60;
+
+// An invalid schedule is dropped so the baby falls back to the default one
+const validateSchedule = (raw: unknown): FeedingSchedule | undefined => {
+  if (!isRecord(raw)) return undefined;
+  if (!isInterval(raw.dayIntervalMinutes) || !isInterval(raw.nightIntervalMinutes)) return undefined;
+  if (!isHour(raw.nightStartHour) || !isHour(raw.nightEndHour)) return undefined;
+  return {
+    dayIntervalMinutes: raw.dayIntervalMinutes,
+    nightIntervalMinutes: raw.nightIntervalMinutes,
+    nightStartHour: raw.nightStartHour,
+    nightEndHour: raw.nightEndHour,
+    anchor: raw.anchor === 'start' ? 'start' : 'end',
+    autoAdjust: raw.autoAdjust === true,
+    predictive: raw.predictive === true
+  };
+};
+
+const CARE_REMINDER_KINDS = ['diaper-gap', 'vitamin-d', 'medication', 'tummy-time'];
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+// Malformed reminders are dropped one by one; the rest of the profile is kept
+const validateCareReminders = (raw: unknown): CareReminder[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.flatMap((item): CareReminder[] => {
+    if (!isRecord(item) || typeof item.id !== 'string' || !CARE_REMINDER_KINDS.includes(item.kind as string)) return [];
+    const reminder: CareReminder = { id: item.id, kind: item.kind as CareReminder['kind'], enabled: item.enabled === true };
+    if (typeof item.medicine === 'string') reminder.medicine = item.medicine;
+    if (isPositive(item.everyHours)) reminder.everyHours = item.everyHours;
+    if (isHour(item.atHour)) reminder.atHour = item.atHour;
+    if (isPositive(item.maxPerDay)) reminder.maxPerDay = Math.floor(item.maxPerDay);
+    return [reminder];
+  });
+};
+
+const HEALTH_AGE_BANDS: HealthAgeBand[] = ['newborn', 'early', 'young', 'older'];
+const HEALTH_THRESHOLD_KEYS: (keyof HealthThresholds)[] = [
+  'minWetDiapers', 'maxHoursWithoutDirty', 'maxFeedGapHours', 'minFeedMinutes', 'feverCelsius', 'highFeverCelsius'
+];
+
+// Keeps each valid limit on its own; anything else falls back to the default
+const validateHealthThresholds = (raw: unknown): HealthThresholdOverrides | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const overrides: HealthThresholdOverrides = {};
+  HEALTH_AGE_BANDS.forEach(band => {
+    const limits = raw[band];
+    if (!isRecord(limits)) return;
+    const valid: Partial<HealthThresholds> = {};
+    HEALTH_THRESHOLD_KEYS.forEach(key => {
+      if (isFiniteNumber(limits[key]) && limits[key] >= 0) valid[key] = limits[key] as number;
+    });
+    if (Object.keys(valid).length > 0) overrides[band] = valid;
+  });
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+};
+
+export const validateBaby = (raw: unknown): Validated<BabyProfile> => {
+  if (!isRecord(raw)) return invalid('profile is not an object');
+  if (typeof raw.id !== 'string' || !raw.id) return invalid('missing id');
+  if (typeof raw.name !== 'string') return invalid('missing name');
+
+  return {
+    value: {
+      id: raw.id,
+      name: raw.name.trim() || 'Baby',
+      birthDate: isFiniteNumber(raw.birthDate) ? raw.birthDate : undefined,
+      sex: raw.sex === 'female' || raw.sex === 'male' ? raw.sex : undefined,
+      photo: typeof raw.photo === 'string' ? raw.photo : null,
+      nextFeedingTime: isFiniteNumber(raw.nextFeedingTime) ? raw.nextFeedingTime : null,
+      sideOverride: isRecord(raw.sideOverride) && isBreastSide(raw.sideOverride.side) && isFiniteNumber(raw.sideOverride.setAt)
+        ? { side: raw.sideOverride.side, setAt: raw.sideOverride.setAt }
+        : null,
+      schedule: validateSchedule(raw.schedule),
+      careReminders: validateCareReminders(raw.careReminders),
+      healthThresholds: validateHealthThresholds(raw.healthThresholds),
+      updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : undefined
+    }
+  };
+};
+
+const isSegment = (raw: unknown): raw is TimerSegment =>
+  isRecord(raw) && isEntryType(raw.type) && isFiniteNumber(raw.start) && (raw.end === null || isFiniteNumber(raw.end));
+
+export const validateSession = (raw: unknown): Validated<TimerSession> => {
+  if (!isRecord(raw)) return invalid('session is not an object');
+  if (typeof raw.babyId !== 'string') return invalid('missing baby id');
+  if (!Array.isArray(raw.segments) || raw.segments.length === 0 || !raw.segments.every(isSegment)) {
+    return invalid('invalid timer segments');
+  }
+  const segments = raw.segments as TimerSegment[];
+  if (segments.slice(0, -1).some(seg => seg.end === null)) return invalid('only the last segment may be running');
+  return { value: { babyId: raw.babyId, segments: segments.map(({ type, start, end }) => ({ type, start, end })) } };
+};
+
+// Settings are never quarantined: unknown or invalid fields fall back to their defaults
+export const validateSettings = (raw: unknown): AppSettings => {
+  const settings = isRecord(raw) ? raw : {};
+  const reminders = isRecord(settings.reminders) ? settings.reminders : {};
+  const ai = isRecord(settings.ai) ? settings.ai : {};
+  const text = (value: unknown, fallback: string) => typeof value === 'string' ? value.trim() : fallback;
+  return {
+    unit: isVolumeUnit(settings.unit) ? settings.unit : DEFAULT_SETTINGS.unit,
+    measurement: settings.measurement === 'imperial' ? 'imperial' : DEFAULT_SETTINGS.measurement,
+    reminders: {
+      leadMinutes: isFiniteNumber(reminders.leadMinutes) && reminders.leadMinutes >= 0 && reminders.leadMinutes <= 60
+        ? reminders.leadMinutes
+        : DEFAULT_REMINDER_SETTINGS.leadMinutes,
+      quietHoursEnabled: reminders.quietHoursEnabled === true,
+      quietStartHour: isHour(reminders.quietStartHour) ? reminders.quietStartHour : DEFAULT_REMINDER_SETTINGS.quietStartHour,
+      quietEndHour: isHour(reminders.quietEndHour) ? reminders.quietEndHour : DEFAULT_REMINDER_SETTINGS.quietEndHour
+    },
+    ai: {
+      provider: (AI_PROVIDER_IDS as unknown[]).includes(ai.provider) ? ai.provider as AIProviderId : DEFAULT_AI_SETTINGS.provider,
+      model: text(ai.model, DEFAULT_AI_SETTINGS.model),
+      apiKey: text(ai.apiKey, DEFAULT_AI_SETTINGS.apiKey),
+      baseUrl: text(ai.baseUrl, '') || DEFAULT_AI_SETTINGS.baseUrl,
+      shareData: ai.shareData === true
+    }
+  };
+};
+
+const validateSyncConfig = (raw: unknown): SyncConfig | null => {
+  if (!isRecord(raw)) return null;
+  const { serverUrl, householdId, caregiverName } = raw;
+  if (typeof serverUrl !== 'string' || !serverUrl || typeof householdId !== 'string' || !householdId) return null;
+  return { serverUrl, householdId, caregiverName: typeof caregiverName === 'string' ? caregiverName : '' };
+};
+
+const isTombstone = (raw: unknown): raw is Tombstone =>
+  isRecord(raw) && typeof raw.babyId === 'string' && isFiniteNumber(raw.deletedAt);
+
+export const createSyncState = (): SyncState => ({
+  config: null,
+  deviceId: createId(),
+  cursor: 0,
+  pending: [],
+  tombstones: {},
+  lastSyncedAt: null
+});
+
+// Like settings, sync state is never quarantined; a missing device id starts a fresh state
+export const validateSyncState = (raw: unknown): SyncState => {
+  if (!isRecord(raw) || typeof raw.deviceId !== 'string' || !raw.deviceId) return createSyncState();
+  return {
+    config: validateSyncConfig(raw.config),
+    deviceId: raw.deviceId,
+    cursor: Number.isInteger(raw.cursor) && (raw.cursor as number) >= 0 ? raw.cursor as number : 0,
+    pending: Array.isArray(raw.pending) ? raw.pending.filter((key): key is string => typeof key === 'string') : [],
+    tombstones: isRecord(raw.tombstones)
+      ? Object.fromEntries(Object.entries(raw.tombstones).filter(([, value]) => isTombstone(value))) as Record<string, Tombstone>
+      : {},
+    lastSyncedAt: isFiniteNumber(raw.lastSyncedAt) ? raw.lastSyncedAt : null
+  };
+};
@@ -0,0 +1,33 @@
+import { SyncConfig } from '../../types';
+import { SyncRecord } from './records';
+
+// HTTP calls to the sync server (server/sync-server.mjs). Network failures surface as the
+// TypeError fetch throws; a reply that isn't 2xx throws an Error with the status.
+
+export interface PullPage {
+  records: SyncRecord[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+const request = async <T>(config: SyncConfig, path: string, init?: RequestInit): Promise<T> => {
+  const base = config.serverUrl.replace(/\/+$/, '');
+  const response = await fetch(`${base}/households/${encodeURIComponent(config.householdId)}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!response.ok) throw new Error(`Sync server replied ${response.status}`);
+  return response.json();
+};
+
+export const pushRecords = (config: SyncConfig, records: SyncRecord[]) =>
+  request<{ cursor: number }>(config, '/records', { method: 'POST', body: JSON.stringify({ records }) });
+
+export const pullRecords = (config: SyncConfig, since: number) =>
+  request<PullPage>(config, `/records?since=${since}`);
+
+// A household id long enough to double as the shared secret
+export const createHouseholdId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return Array.from(bytes, byte => byte.toString(36).padStart(2, '0')).join('').slice(0, 20);
+};
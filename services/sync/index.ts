@@ -0,0 +1,80 @@
+import { PersistedData } from '../storage';
+import { pullRecords, pushRecords } from './client';
+import { acknowledgePushed, applyRemoteRecords, getOutgoingRecords } from './records';
+
+export * from './records';
+export { createHouseholdId } from './client';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStore {
+  get: () => PersistedData; // latest app data
+  update: (apply: (data: PersistedData) => PersistedData) => void; // applied without change tracking
+  onStatus: (status: SyncStatus, message?: string) => void;
+}
+
+const SYNC_INTERVAL = 30 * 1000;
+
+// Pushes the offline queue, then pulls everything newer than the cursor. Runs on a timer, when
+// the device comes back online and whenever requestSync() is called; overlapping requests
+// collapse into one follow-up run.
+export const createSyncEngine = (store: SyncStore, intervalMs = SYNC_INTERVAL) => {
+  let running = false;
+  let requestedAgain = false;
+
+  const run = async () => {
+    const config = store.get().sync.config;
+    if (!config) return;
+    // Results that arrive after sync was switched off or moved to another household are dropped
+    const stillCurrent = (data: PersistedData) => data.sync.config?.householdId === config.householdId
+      && data.sync.config.serverUrl === config.serverUrl;
+
+    store.onStatus('syncing');
+    try {
+      const outgoing = getOutgoingRecords(store.get());
+      if (outgoing.length > 0) {
+        await pushRecords(config, outgoing);
+        store.update(data => stillCurrent(data) ? acknowledgePushed(data, outgoing) : data);
+      }
+
+      let cursor = store.get().sync.cursor;
+      for (let hasMore = true; hasMore;) {
+        const page = await pullRecords(config, cursor);
+        store.update(data => stillCurrent(data) ? applyRemoteRecords(data, page.records, page.cursor) : data);
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+      }
+      store.onStatus('idle');
+    } catch (error) {
+      const offline = (typeof navigator !== 'undefined' && !navigator.onLine) || error instanceof TypeError;
+      store.onStatus(offline ? 'offline' : 'error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const requestSync = () => {
+    if (running) {
+      requestedAgain = true;
+      return;
+    }
+    running = true;
+    run().finally(() => {
+      running = false;
+      if (requestedAgain) {
+        requestedAgain = false;
+        requestSync();
+      }
+    });
+  };
+
+  const interval = setInterval(requestSync, intervalMs);
+  const handleOnline = () => requestSync();
+  if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+
+  return {
+    requestSync,
+    stop: () => {
+      clearInterval(interval);
+      if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+    }
+  };
+};
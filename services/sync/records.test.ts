@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BabyProfile, LogEntry, SyncConfig } from '../../types';
+import { DEFAULT_SETTINGS, PersistedData } from '../storage';
+import { createSyncEngine, SyncStatus } from '.';
+import { acknowledgePushed, applyRemoteRecords, getOutgoingRecords, SyncRecord, trackLocalChanges } from './records';
+
+const CONFIG: SyncConfig = { serverUrl: 'http://sync.test', householdId: 'household-1', caregiverName: 'Sam' };
+const BABY: BabyProfile = { id: 'baby', name: 'Ada', updatedAt: 1000 };
+
+const bottle = (id: string, updatedAt: number, amount = 90): LogEntry =>
+  ({ id, type: 'bottle', timestamp: 500, amount, updatedAt });
+
+const device = (deviceId: string, entries: LogEntry[] = []): PersistedData => ({
+  babies: [BABY],
+  activeBabyId: BABY.id,
+  entriesByBaby: { [BABY.id]: entries },
+  sessions: {},
+  settings: DEFAULT_SETTINGS,
+  sync: { config: CONFIG, deviceId, cursor: 0, pending: [], tombstones: {}, lastSyncedAt: null }
+});
+
+const entryRecord = (entry: LogEntry, deviceId = 'other'): SyncRecord =>
+  ({ kind: 'entry', id: entry.id, babyId: BABY.id, updatedAt: entry.updatedAt!, deviceId, data: entry });
+
+const tombstoneRecord = (id: string, deletedAt: number): SyncRecord =>
+  ({ kind: 'entry', id, babyId: BABY.id, updatedAt: deletedAt, deviceId: 'other', deleted: true });
+
+const entries = (data: PersistedData) => data.entriesByBaby[BABY.id];
+
+describe('trackLocalChanges', () => {
+  it('stamps and queues added and edited entries', () => {
+    const prev = device('a', [bottle('e1', 1000)]);
+    const next = { ...prev, entriesByBaby: { [BABY.id]: [{ ...entries(prev)[0], amount: 120 }, bottle('e2', 0)] } };
+    const tracked = trackLocalChanges(prev, next, 5000);
+    expect(entries(tracked).map(e => e.updatedAt)).toEqual([5000, 5000]);
+    expect(entries(tracked)[1].loggedBy).toBe('Sam');
+    expect(tracked.sync.pending).toEqual(['entry:e1', 'entry:e2']);
+  });
+
+  it('keeps a tombstone for a deleted entry', () => {
+    const prev = device('a', [bottle('e1', 1000)]);
+    const tracked = trackLocalChanges(prev, { ...prev, entriesByBaby: { [BABY.id]: [] } }, 5000);
+    expect(tracked.sync.tombstones).toEqual({ e1: { babyId: BABY.id, deletedAt: 5000 } });
+    expect(getOutgoingRecords(tracked)).toEqual([tombstoneRecord('e1', 5000)].map(r => ({ ...r, deviceId: 'a' })));
+  });
+
+  it('queues nothing while sync is off', () => {
+    const prev = { ...device('a'), sync: { ...device('a').sync, config: null } };
+    const tracked = trackLocalChanges(prev, { ...prev, entriesByBaby: { [BABY.id]: [bottle('e1', 0)] } }, 5000);
+    expect(entries(tracked)[0].updatedAt).toBe(5000);
+    expect(tracked.sync.pending).toEqual([]);
+  });
+});
+
+describe('applyRemoteRecords', () => {
+  it('takes a later edit and ignores an earlier one', () => {
+    const local = device('a', [bottle('e1', 2000, 90)]);
+    expect(entries(applyRemoteRecords(local, [entryRecord(bottle('e1', 3000, 120))], 1))[0].amount).toBe(120);
+    expect(entries(applyRemoteRecords(local, [entryRecord(bottle('e1', 1000, 120))], 1))[0].amount).toBe(90);
+  });
+
+  it('settles an exact tie the same way on both devices', () => {
+    const small = bottle('e1', 2000, 90);
+    const large = bottle('e1', 2000, 120);
+    const onA = applyRemoteRecords(device('a', [small]), [entryRecord(large)], 1);
+    const onB = applyRemoteRecords(device('b', [large]), [entryRecord(small)], 1);
+    expect(entries(onA)).toEqual(entries(onB));
+    // Compared as JSON text, where "amount":90 sorts after "amount":120
+    expect(entries(onA)[0].amount).toBe(90);
+  });
+
+  it('lets a later edit win over a delete', () => {
+    const deleted = applyRemoteRecords(device('a', [bottle('e1', 1000)]), [tombstoneRecord('e1', 2000)], 1);
+    expect(entries(deleted)).toEqual([]);
+    const revived = applyRemoteRecords(deleted, [entryRecord(bottle('e1', 3000, 150))], 2);
+    expect(entries(revived).map(e => e.amount)).toEqual([150]);
+    expect(revived.sync.tombstones).toEqual({});
+  });
+
+  it('keeps a later edit over an earlier delete', () => {
+    const local = device('a', [bottle('e1', 3000)]);
+    expect(entries(applyRemoteRecords(local, [tombstoneRecord('e1', 2000)], 1))).toHaveLength(1);
+  });
+
+  it('does not bring back an entry deleted after the edit', () => {
+    const local = { ...device('a'), sync: { ...device('a').sync, tombstones: { e1: { babyId: BABY.id, deletedAt: 4000 } } } };
+    expect(entries(applyRemoteRecords(local, [entryRecord(bottle('e1', 3000))], 1))).toEqual([]);
+  });
+
+  it('carries a deletion from one device to another', () => {
+    const a0 = device('a', [bottle('e1', 1000)]);
+    const a1 = trackLocalChanges(a0, { ...a0, entriesByBaby: { [BABY.id]: [] } }, 5000);
+    const b = applyRemoteRecords(device('b', [bottle('e1', 1000)]), getOutgoingRecords(a1), 1, 6000);
+    expect(entries(b)).toEqual([]);
+    expect(b.sync).toMatchObject({ cursor: 1, lastSyncedAt: 6000, tombstones: { e1: { babyId: BABY.id, deletedAt: 5000 } } });
+  });
+
+  it('changes nothing when the same records arrive again', () => {
+    const records = [entryRecord(bottle('e1', 3000, 120))];
+    const once = applyRemoteRecords(device('a'), records, 1);
+    expect(entries(applyRemoteRecords(once, records, 1))).toEqual(entries(once));
+  });
+});
+
+describe('acknowledgePushed', () => {
+  it('keeps a record that changed again during the push', () => {
+    const data = { ...device('a', [bottle('e1', 1000), bottle('e2', 1000)]), sync: { ...device('a').sync, pending: ['entry:e1', 'entry:e2'] } };
+    const pushed = getOutgoingRecords(data);
+    const editedMeanwhile = { ...data, entriesByBaby: { [BABY.id]: [bottle('e1', 2000, 150), bottle('e2', 1000)] } };
+    expect(acknowledgePushed(editedMeanwhile, pushed).sync.pending).toEqual(['entry:e1']);
+  });
+});
+
+describe('createSyncEngine', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the queue after a failed push and empties it once a push succeeds', async () => {
+    let data = { ...device('a', [bottle('e1', 1000)]), sync: { ...device('a').sync, pending: ['entry:e1'] } };
+    let settled: (status: SyncStatus) => void = () => {};
+    const engine = createSyncEngine({
+      get: () => data,
+      update: apply => { data = apply(data); },
+      onStatus: status => { if (status !== 'syncing') settled(status); }
+    }, 60 * 60 * 1000);
+    const sync = () => new Promise<SyncStatus>(resolve => { settled = resolve; engine.requestSync(); });
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    expect(await sync()).toBe('offline');
+    expect(data.sync.pending).toEqual(['entry:e1']);
+
+    const reply = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(reply({ accepted: 1, cursor: 1 }))
+      .mockResolvedValueOnce(reply({ records: [], cursor: 1, hasMore: false }));
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await sync()).toBe('idle');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).records.map((r: SyncRecord) => r.id)).toEqual(['e1']);
+    expect(data.sync.pending).toEqual([]);
+    engine.stop();
+  });
+});
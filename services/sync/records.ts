@@ -0,0 +1,185 @@
+import { BabyProfile, LogEntry, SyncConfig, SyncState } from '../../types';
+import { isBlankProfile } from '../babyProfiles';
+import { PersistedData, validateBaby, validateEntry } from '../storage';
+
+// What travels between devices: the latest version of one profile or entry, or an entry's
+// tombstone. Conflicts are last-writer-wins per record on updatedAt.
+export interface SyncRecord {
+  kind: 'baby' | 'entry';
+  id: string;
+  babyId?: string; // entries only
+  updatedAt: number;
+  deviceId: string;
+  deleted?: boolean;
+  data?: BabyProfile | LogEntry;
+  seq?: number; // assigned by the server
+}
+
+export const getRecordKey = (kind: SyncRecord['kind'], id: string) => `${kind}:${id}`;
+
+// Later change wins; an exact tie goes to the larger serialised value so every device agrees
+const wins = (a: { updatedAt: number; value: unknown }, b: { updatedAt: number; value: unknown }) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : JSON.stringify(a.value ?? null) > JSON.stringify(b.value ?? null);
+
+const findEntry = (data: PersistedData, id: string): { babyId: string; entry: LogEntry } | null => {
+  for (const [babyId, list] of Object.entries(data.entriesByBaby)) {
+    const entry = list.find(e => e.id === id);
+    if (entry) return { babyId, entry };
+  }
+  return null;
+};
+
+// --- Local changes --------------------------------------------------------------------------
+
+// Compares two states of the app, stamps changed profiles and entries with updatedAt (and new
+// entries with the caregiver's name) and, while sync is set up, queues them and records deletions.
+// Every local change goes through here; changes pulled from the server bypass it.
+export const trackLocalChanges = (prev: PersistedData, next: PersistedData, now = Date.now()): PersistedData => {
+  if (prev === next) return next;
+  const { config } = next.sync;
+  const pending = new Set(next.sync.pending);
+  const tombstones = { ...next.sync.tombstones };
+  let changed = false;
+
+  const babies = next.babies.map(baby => {
+    const old = prev.babies.find(b => b.id === baby.id);
+    if (old === baby) return baby;
+    changed = true;
+    pending.add(getRecordKey('baby', baby.id));
+    return { ...baby, updatedAt: now };
+  });
+
+  let entriesByBaby = next.entriesByBaby;
+  Object.entries(next.entriesByBaby).forEach(([babyId, list]) => {
+    const prevList = prev.entriesByBaby[babyId] || [];
+    if (list === prevList) return;
+    changed = true;
+    const before = new Map<string, LogEntry>(prevList.map(entry => [entry.id, entry] as [string, LogEntry]));
+    const stamped = list.map(entry => {
+      const old = before.get(entry.id);
+      before.delete(entry.id);
+      if (old === entry) return entry;
+      pending.add(getRecordKey('entry', entry.id));
+      delete tombstones[entry.id];
+      const loggedBy = old ? old.loggedBy : entry.loggedBy ?? (config?.caregiverName || undefined);
+      return { ...entry, updatedAt: now, ...(loggedBy ? { loggedBy } : {}) };
+    });
+    before.forEach(entry => {
+      pending.add(getRecordKey('entry', entry.id));
+      tombstones[entry.id] = { babyId, deletedAt: now };
+    });
+    entriesByBaby = { ...entriesByBaby, [babyId]: stamped };
+  });
+
+  if (!changed) return next;
+  // Without a server there is nobody to tell, so nothing is queued
+  if (!config) return { ...next, babies, entriesByBaby };
+  return { ...next, babies, entriesByBaby, sync: { ...next.sync, pending: [...pending], tombstones } };
+};
+
+// The profile a fresh install starts with, as long as nobody has touched it
+const isPlaceholder = (baby: BabyProfile, entries: LogEntry[]) => baby.updatedAt === undefined && isBlankProfile(baby, entries);
+
+// Starts syncing: everything already on the device is queued, except an untouched placeholder
+// profile, which would otherwise show up on the other phone as an extra baby
+export const enableSync = (data: PersistedData, config: SyncConfig): PersistedData => {
+  const babies = data.babies.filter(baby => !isPlaceholder(baby, data.entriesByBaby[baby.id] || []));
+  const pending = [
+    ...babies.map(baby => getRecordKey('baby', baby.id)),
+    ...babies.flatMap(baby => (data.entriesByBaby[baby.id] || []).map(entry => getRecordKey('entry', entry.id))),
+    ...Object.keys(data.sync.tombstones).map(id => getRecordKey('entry', id))
+  ];
+  return { ...data, sync: { ...data.sync, config, cursor: 0, pending, lastSyncedAt: null } };
+};
+
+export const disableSync = (data: PersistedData): PersistedData => ({
+  ...data,
+  sync: { ...data.sync, config: null, cursor: 0, pending: [], tombstones: {}, lastSyncedAt: null }
+});
+
+// --- Push -----------------------------------------------------------------------------------
+
+// The current version of every queued record; profiles first so the other side knows the baby
+export const getOutgoingRecords = (data: PersistedData): SyncRecord[] => {
+  const { deviceId, tombstones } = data.sync;
+  const records = data.sync.pending.flatMap((key): SyncRecord[] => {
+    const [kind, id] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+    if (kind === 'baby') {
+      const baby = data.babies.find(b => b.id === id);
+      return baby ? [{ kind, id, updatedAt: baby.updatedAt ?? 0, deviceId, data: baby }] : [];
+    }
+    const found = findEntry(data, id);
+    if (found) {
+      return [{ kind: 'entry', id, babyId: found.babyId, updatedAt: found.entry.updatedAt ?? found.entry.timestamp, deviceId, data: found.entry }];
+    }
+    const tombstone = tombstones[id];
+    return tombstone ? [{ kind: 'entry', id, babyId: tombstone.babyId, updatedAt: tombstone.deletedAt, deviceId, deleted: true }] : [];
+  });
+  return records.sort((a, b) => (a.kind === 'baby' ? 0 : 1) - (b.kind === 'baby' ? 0 : 1));
+};
+
+// Drops pushed records from the queue, unless they changed again while the push was in flight
+export const acknowledgePushed = (data: PersistedData, pushed: SyncRecord[]): PersistedData => {
+  const current = new Map<string, number>(getOutgoingRecords(data).map(r => [getRecordKey(r.kind, r.id), r.updatedAt] as [string, number]));
+  const done = new Set(pushed
+    .filter(r => !current.has(getRecordKey(r.kind, r.id)) || current.get(getRecordKey(r.kind, r.id)) === r.updatedAt)
+    .map(r => getRecordKey(r.kind, r.id)));
+  return { ...data, sync: { ...data.sync, pending: data.sync.pending.filter(key => !done.has(key)) } };
+};
+
+// --- Pull -----------------------------------------------------------------------------------
+
+// Merges records from the server. Each is validated like stored data and only applied when it
+// is newer than what this device has, so replaying the same records changes nothing.
+export const applyRemoteRecords = (data: PersistedData, records: SyncRecord[], cursor: number, now = Date.now()): PersistedData => {
+  let babies = [...data.babies];
+  const entriesByBaby: Record<string, LogEntry[]> = { ...data.entriesByBaby };
+  const tombstones = { ...data.sync.tombstones };
+  let receivedBaby = false;
+
+  records.forEach(record => {
+    if (record.kind === 'baby') {
+      const result = validateBaby(record.data);
+      if (!result.value || result.value.id !== record.id) return;
+      const local = babies.find(b => b.id === record.id);
+      if (local && !wins({ updatedAt: record.updatedAt, value: result.value }, { updatedAt: local.updatedAt ?? 0, value: local })) return;
+      const baby = { ...result.value, updatedAt: record.updatedAt };
+      babies = local ? babies.map(b => b.id === baby.id ? baby : b) : [...babies, baby];
+      entriesByBaby[baby.id] = entriesByBaby[baby.id] || [];
+      receivedBaby = receivedBaby || !local;
+      return;
+    }
+
+    if (typeof record.babyId !== 'string') return;
+    const local = findEntry({ ...data, entriesByBaby }, record.id);
+    const tombstone = tombstones[record.id];
+    const localVersion = local
+      ? { updatedAt: local.entry.updatedAt ?? local.entry.timestamp, value: local.entry }
+      : tombstone ? { updatedAt: tombstone.deletedAt, value: null } : null;
+
+    if (record.deleted) {
+      if (localVersion && !wins({ updatedAt: record.updatedAt, value: null }, localVersion)) return;
+      if (local) entriesByBaby[local.babyId] = entriesByBaby[local.babyId].filter(e => e.id !== record.id);
+      tombstones[record.id] = { babyId: record.babyId, deletedAt: record.updatedAt };
+      return;
+    }
+
+    const result = validateEntry(record.data);
+    if (!result.value || result.value.id !== record.id) return;
+    const entry = { ...result.value, updatedAt: record.updatedAt };
+    if (localVersion && !wins({ updatedAt: record.updatedAt, value: entry }, localVersion)) return;
+    if (local) entriesByBaby[local.babyId] = entriesByBaby[local.babyId].filter(e => e.id !== record.id);
+    entriesByBaby[record.babyId] = [entry, ...(entriesByBaby[record.babyId] || [])].sort((a, b) => b.timestamp - a.timestamp);
+    delete tombstones[record.id];
+  });
+
+  // A device that joins a household drops its never-edited placeholder once a real profile arrives
+  if (receivedBaby) {
+    const dropped = babies.filter(baby => isPlaceholder(baby, entriesByBaby[baby.id] || []));
+    dropped.forEach(baby => { delete entriesByBaby[baby.id]; });
+    babies = babies.filter(baby => !dropped.includes(baby));
+  }
+  const activeBabyId = babies.some(b => b.id === data.activeBabyId) ? data.activeBabyId : babies[0].id;
+
+  return { ...data, babies, activeBabyId, entriesByBaby, sync: { ...data.sync, cursor, tombstones, lastSyncedAt: now } };
+};
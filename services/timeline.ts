@@ -0,0 +1,75 @@
+import { EntryType, LogEntry } from '../types';
+import { toDateKey } from './analytics';
+import { isFeed } from './scheduler';
+
+const MINUTE = 60 * 1000;
+
+export type TimelineKind = 'sleep' | 'feed' | 'diaper' | 'other';
+
+// A piece of an entry within one day column; an entry across midnight yields two pieces
+export interface TimelineBlock {
+  entryId: string;
+  type: EntryType;
+  kind: TimelineKind;
+  startMinute: number; // 0-1440 from local midnight
+  endMinute: number; // equal to startMinute for instant events
+  continued: boolean; // started on an earlier day
+}
+
+export interface DayColumn {
+  date: string; // YYYY-MM-DD, local
+  start: number;
+  blocks: TimelineBlock[];
+}
+
+export const getTimelineKind = (entry: LogEntry): TimelineKind => {
+  if (entry.type === 'sleep') return 'sleep';
+  if (isFeed(entry) || entry.type === 'pumping' || entry.type === 'solids') return 'feed';
+  if (entry.type.startsWith('diaper')) return 'diaper';
+  return 'other';
+};
+
+const addDays = (timestamp: number, days: number) => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Columns for the `days` calendar days ending with the day of `lastDay`, oldest first
+export const getDayColumns = (entries: LogEntry[], lastDay: number, days: number): DayColumn[] => {
+  const firstStart = addDays(lastDay, 1 - days);
+  const columns: DayColumn[] = Array.from({ length: days }, (_, i) => {
+    const start = addDays(firstStart, i);
+    return { date: toDateKey(start), start, blocks: [] };
+  });
+  const rangeEnd = addDays(lastDay, 1);
+
+  entries.forEach(entry => {
+    const end = entry.timestamp + (entry.duration ?? 0) * MINUTE;
+    if (end < firstStart || entry.timestamp >= rangeEnd) return;
+    const kind = getTimelineKind(entry);
+    columns.forEach(column => {
+      // Day length comes from the next midnight so DST days are 23 or 25 hours long
+      const dayEnd = addDays(column.start, 1);
+      const instant = end === entry.timestamp;
+      const overlaps = instant
+        ? entry.timestamp >= column.start && entry.timestamp < dayEnd
+        : end > column.start && entry.timestamp < dayEnd;
+      if (!overlaps) return;
+      column.blocks.push({
+        entryId: entry.id,
+        type: entry.type,
+        kind,
+        startMinute: (Math.max(entry.timestamp, column.start) - column.start) / MINUTE,
+        endMinute: (Math.min(end, dayEnd) - column.start) / MINUTE,
+        continued: entry.timestamp < column.start
+      });
+    });
+  });
+
+  // Sleep first so feeds and diapers draw on top of it
+  const order: Record<TimelineKind, number> = { sleep: 0, other: 1, feed: 2, diaper: 3 };
+  columns.forEach(column => column.blocks.sort((a, b) => order[a.kind] - order[b.kind] || a.startMinute - b.startMinute));
+  return columns;
+};
@@ -0,0 +1,53 @@
+import { MeasurementSystem, VolumeUnit } from '../types';
+
+export const ML_PER_OZ = 29.5735;
+
+// Amounts are stored in ml; two decimals keep an oz value stable through a round trip
+export const toMl = (amount: number, unit: VolumeUnit) =>
+  Math.round((unit === 'oz' ? amount * ML_PER_OZ : amount) * 100) / 100;
+
+export const fromMl = (ml: number, unit: VolumeUnit) => {
+  if (unit === 'ml') return Math.round(ml);
+  return Math.round((ml / ML_PER_OZ) * 10) / 10;
+};
+
+export const formatAmount = (ml: number | undefined, unit: VolumeUnit) =>
+  ml === undefined ? '--' : `${fromMl(ml, unit)}${unit}`;
+
+// Picker defaults and increments that make sense in each unit
+export const UNIT_STEPS: Record<VolumeUnit, { step: number; min: number; max: number; initial: number; label: string }> = {
+  oz: { step: 0.5, min: 0.5, max: 12, initial: 4, label: 'Ounces' },
+  ml: { step: 10, min: 10, max: 360, initial: 120, label: 'Milliliters' }
+};
+
+// --- Weight, length and temperature ---------------------------------------------------------
+// Stored as kg, cm and degrees Celsius; converted only for input and display.
+
+export const LB_PER_KG = 2.20462;
+export const CM_PER_IN = 2.54;
+
+export type MeasureKind = 'weight' | 'length' | 'temperature';
+
+export const MEASURE_UNITS: Record<MeasureKind, Record<MeasurementSystem, string>> = {
+  weight: { metric: 'kg', imperial: 'lb' },
+  length: { metric: 'cm', imperial: 'in' },
+  temperature: { metric: '°C', imperial: '°F' }
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const toMetric = (value: number, kind: MeasureKind, system: MeasurementSystem) => {
+  if (system === 'metric') return value;
+  if (kind === 'weight') return round(value / LB_PER_KG, 3);
+  if (kind === 'length') return round(value * CM_PER_IN, 2);
+  return round((value - 32) * 5 / 9, 2);
+};
+
+export const fromMetric = (value: number, kind: MeasureKind, system: MeasurementSystem) => {
+  if (kind === 'weight') return system === 'metric' ? round(value, 3) : round(value * LB_PER_KG, 2);
+  if (kind === 'length') return system === 'metric' ? round(value, 1) : round(value / CM_PER_IN, 1);
+  return system === 'metric' ? round(value, 1) : round(value * 9 / 5 + 32, 1);
+};
+
+export const formatMeasure = (value: number | undefined, kind: MeasureKind, system: MeasurementSystem) =>
+  value === undefined ? '--' : `${fromMetric(value, kind, system)} ${MEASURE_UNITS[kind][system]}`;
@@ -1,24 +1,193 @@
+export type EntryType =
+  | 'breast_left' | 'breast_right' | 'bottle'
+  | 'diaper_wet' | 'diaper_dirty' | 'diaper_both'
+  | 'sleep' | 'tummy_time' | 'medication'
+  | 'pumping' | 'solids' | 'temperature' | 'growth';
 
-export type EntryType = 'breast_left' | 'breast_right' | 'bottle' | 'diaper_wet' | 'diaper_dirty' | 'diaper_both' | 'sleep';
+export type VolumeUnit = 'oz' | 'ml';
+
+// Weight, length and temperature are stored metric and shown in the preferred system
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export type SolidsReaction = 'liked' | 'neutral' | 'disliked' | 'allergy';
+
+export type DoseUnit = 'ml' | 'mg' | 'drops';
+
+export type BreastSide = 'left' | 'right';
 
 export interface LogEntry {
   id: string;
   type: EntryType;
-  timestamp: number;
-  duration?: number; // for nursing or sleep in minutes
-  amount?: number; // for bottle in ml/oz
+  timestamp: number; // start of the event
+  duration?: number; // for nursing, sleep or tummy time in minutes, may be fractional
+  amount?: number; // for bottle and pumping (total), always in ml
+  unit?: VolumeUnit; // unit the amount was entered in
+  sides?: { left: number; right: number }; // minutes per side when a nursing session switched sides
+  endSide?: BreastSide; // nursing: the side the feed finished on; it started on the side of `type`
+  pumped?: { left: number; right: number }; // ml per side for pumping
+  medicine?: string; // for medication, e.g. "Vitamin D"
+  dose?: number;
+  doseUnit?: DoseUnit;
+  food?: string; // for solids
+  reaction?: SolidsReaction;
+  temperature?: number; // degrees Celsius
+  weight?: number; // for growth, kg
+  length?: number; // for growth, cm
+  head?: number; // for growth, head circumference in cm
   note?: string;
+  updatedAt?: number; // last local change, decides sync conflicts
+  loggedBy?: string; // caregiver who created it, when sync is set up
+}
+
+// A running nursing or sleep timer. Time between segments is paused and not counted.
+export interface TimerSegment {
+  type: EntryType;
+  start: number;
+  end: number | null; // null while running
+}
+
+export interface TimerSession {
+  babyId: string;
+  segments: TimerSegment[];
+}
+
+export interface FeedingSchedule {
+  dayIntervalMinutes: number;
+  nightIntervalMinutes: number;
+  nightStartHour: number; // 0-23, local time
+  nightEndHour: number;
+  anchor: 'start' | 'end'; // count the interval from the start or the end of the last feed
+  autoAdjust: boolean; // follow the suggested interval instead of the fixed ones
+  predictive: boolean; // use the predicted next feed once there is enough history
+}
+
+export type BabySex = 'female' | 'male';
+
+export interface BabyProfile {
+  id: string;
+  name: string;
+  birthDate?: number; // local midnight of the day of birth
+  sex?: BabySex; // picks the WHO growth standard
+  photo?: string | null; // data URL
+  nextFeedingTime?: number | null; // manual override of the scheduled next feed
+  sideOverride?: SideOverride | null; // "same side again", until the next nursing feed
+  schedule?: FeedingSchedule;
+  careReminders?: CareReminder[];
+  healthThresholds?: HealthThresholdOverrides;
+  updatedAt?: number; // last local change, decides sync conflicts
+}
+
+// Starts the next nursing feed on `side` instead of the suggested one, e.g. while cluster
+// feeding. It lapses once a nursing feed starts after `setAt`.
+export interface SideOverride {
+  side: BreastSide;
+  setAt: number;
+}
+
+export type CareReminderKind = 'diaper-gap' | 'vitamin-d' | 'medication' | 'tummy-time';
+
+// A recurring non-feeding reminder. It counts from the last matching entry, so logging
+// that entry is what marks it done.
+export interface CareReminder {
+  id: string;
+  kind: CareReminderKind;
+  enabled: boolean;
+  medicine?: string; // medication: name matched against logged medication entries
+  everyHours?: number; // diaper-gap, medication, tummy-time
+  atHour?: number; // vitamin-d: local hour of the daily dose
+  maxPerDay?: number; // medication: doses allowed in any 24 hours
+}
+
+// Age ranges with their own health check limits: the first days, to 6 weeks, to 3 months, older
+export type HealthAgeBand = 'newborn' | 'early' | 'young' | 'older';
+
+// Limits the health checks compare the log against. A limit of 0 turns its check off.
+export interface HealthThresholds {
+  minWetDiapers: number; // in any 24 hours
+  maxHoursWithoutDirty: number;
+  maxFeedGapHours: number;
+  minFeedMinutes: number; // nursing feeds trending below this are flagged
+  feverCelsius: number; // a reading from here up is worth watching
+  highFeverCelsius: number; // and from here up a reason to call the doctor
+}
+
+// A baby's own limits for an age band, over the defaults; a band reverts to the defaults
+// for the next one as the baby grows
+export type HealthThresholdOverrides = Partial<Record<HealthAgeBand, Partial<HealthThresholds>>>;
+
+export interface ReminderSettings {
+  leadMinutes: number; // pre-alert before a feed is due, 0 for none
+  quietHoursEnabled: boolean;
+  quietStartHour: number; // 0-23, local time
+  quietEndHour: number;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which model answers insight and logging requests. Logs only go to a provider off this
+// device once shareData is on; changing the provider or endpoint turns it off again.
+export interface AISettings {
+  provider: AIProviderId;
+  model: string; // empty for the provider's default
+  apiKey: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. a local Ollama
+  shareData: boolean;
+}
+
+export interface AppSettings {
+  unit: VolumeUnit;
+  measurement: MeasurementSystem;
+  reminders: ReminderSettings;
+  ai: AISettings;
+}
+
+// Where and as whom this device syncs; both caregivers use the same household id
+export interface SyncConfig {
+  serverUrl: string;
+  householdId: string;
+  caregiverName: string;
+}
+
+// A deleted entry, kept so the deletion reaches the other devices
+export interface Tombstone {
+  babyId: string;
+  deletedAt: number;
+}
+
+export interface SyncState {
+  config: SyncConfig | null;
+  deviceId: string;
+  cursor: number; // server sequence number of the last change pulled
+  pending: string[]; // record keys changed locally and not yet pushed, i.e. the offline queue
+  tombstones: Record<string, Tombstone>; // by entry id
+  lastSyncedAt: number | null;
 }
 
 export interface AppState {
-  entries: LogEntry[];
-  babyName: string;
+  babies: BabyProfile[];
+  activeBabyId: string;
+  entriesByBaby: Record<string, LogEntry[]>;
+  sessions: Record<string, TimerSession>;
+  settings: AppSettings;
   isDarkMode: boolean;
-  unit: 'oz' | 'ml';
+}
+
+export interface InsightTrend {
+  metric: string; // e.g. "night sleep"
+  direction: 'up' | 'down' | 'steady';
+  detail: string;
+}
+
+export interface InsightAnomaly {
+  severity: 'info' | 'watch' | 'concern';
+  detail: string;
+  entryIds: string[]; // the logged entries it is based on
 }
 
 export interface AIInsight {
   summary: string;
-  prediction: string;
+  trends: InsightTrend[];
+  anomalies: InsightAnomaly[];
   tip: string;
+  followUpQuestions: string[];
 }
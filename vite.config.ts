@@ -1,7 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full) : [full];
+  });
+
+// Writes the built files into dist/sw.js for the worker to precache. The list carries a hash of
+// their contents, so every deploy ships a changed worker and installed apps see the update.
+const precacheManifest = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'nurture-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const workerPath = path.join(outDir, 'sw.js');
+      if (!fs.existsSync(workerPath)) return;
+      const files = listFiles(outDir)
+        .filter(file => file !== workerPath && !file.endsWith('.map'))
+        .sort();
+      const urls = files.map(file => '/' + path.relative(outDir, file).split(path.sep).join('/'));
+      const hash = createHash('sha256');
+      files.forEach((file, i) => hash.update(urls[i]).update(fs.readFileSync(file)));
+      const manifest = { version: hash.digest('hex').slice(0, 12), files: urls };
+      const worker = fs.readFileSync(workerPath, 'utf8');
+      fs.writeFileSync(workerPath, worker.replace('self.__PRECACHE_MANIFEST__', JSON.stringify(manifest)));
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +43,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)